@@ -55,7 +55,7 @@ export default function BillingPage() {
           <PlanCard
             name="Free"
             price="$0"
-            features={['10 tasks/month', '1 concurrent task', '60s max duration']}
+            features={['10 tasks/month', '1 concurrent task', '60s max duration', '0.5 CPU, 512 MB per task']}
             current
           />
           <PlanCard
@@ -65,6 +65,8 @@ export default function BillingPage() {
               '100 tasks/month',
               '3 concurrent tasks',
               '5 min max duration',
+              '1 CPU, 1 GB per task',
+              'Queued ahead of free tasks',
               '$0.10/task overage',
             ]}
             highlighted
@@ -76,6 +78,9 @@ export default function BillingPage() {
               '1,000 tasks/month',
               '10 concurrent tasks',
               '1 hour max duration',
+              'Up to 2 CPU, 4 GB per task',
+              '3 custom worker images',
+              'Queued ahead of starter tasks',
               '$0.05/task overage',
               'Priority support',
             ]}
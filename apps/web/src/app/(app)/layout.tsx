@@ -21,6 +21,12 @@ export default function AppLayout({ children }: { children: React.ReactNode }) {
             <NavLink href="/tasks" icon="📋">
               Tasks
             </NavLink>
+            <NavLink href="/schedules" icon="⏰">
+              Schedules
+            </NavLink>
+            <NavLink href="/workflows" icon="🔀">
+              Workflows
+            </NavLink>
             <NavLink href="/billing" icon="💳">
               Billing
             </NavLink>
@@ -0,0 +1,320 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import {
+  SCHEDULE_OVERLAP_POLICIES,
+  validateJsonSchema,
+  type FieldError,
+  type Schedule,
+  type ScheduleOverlapPolicy,
+  type WorkerType,
+} from '@saassy/shared';
+import { ApiRequestError, apiRequest } from '@/lib/api-client';
+import { SchemaForm, defaultValue } from '../tasks/schema-form';
+
+export default function SchedulesPage() {
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [workerTypes, setWorkerTypes] = useState<WorkerType[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<WorkerType[]>('/api/worker-types')
+      .then(setWorkerTypes)
+      .catch((err) => setError(err.message));
+    apiRequest<Schedule[]>('/api/schedules')
+      .then(setSchedules)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  async function setEnabled(schedule: Schedule, enabled: boolean) {
+    try {
+      const updated = await apiRequest<Schedule>(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled }),
+      });
+      setSchedules((current) => current.map((s) => (s.id === updated.id ? updated : s)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  }
+
+  async function deleteSchedule(schedule: Schedule) {
+    if (!confirm(`Delete schedule "${schedule.name}"? Tasks it created are kept.`)) return;
+    try {
+      await apiRequest(`/api/schedules/${schedule.id}`, { method: 'DELETE' });
+      setSchedules((current) => current.filter((s) => s.id !== schedule.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Schedules</h1>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition"
+        >
+          + New Schedule
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="bg-white rounded-xl border overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Name
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Schedule
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Type
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Next Run
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Last Run
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  No schedules yet. Create one to run a task on a cron schedule.
+                </td>
+              </tr>
+            ) : (
+              schedules.map((schedule) => (
+                <tr key={schedule.id} className="border-b last:border-0 text-sm">
+                  <td className="px-6 py-4">{schedule.name}</td>
+                  <td className="px-6 py-4">
+                    <span className="font-mono">{schedule.cron}</span>
+                    <p className="text-xs text-gray-500">
+                      {schedule.timezone}, {schedule.overlapPolicy} if still running
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">{schedule.type}</td>
+                  <td className="px-6 py-4">
+                    {schedule.enabled && schedule.nextRunAt
+                      ? new Date(schedule.nextRunAt).toLocaleString()
+                      : 'Paused'}
+                  </td>
+                  <td className="px-6 py-4">
+                    {schedule.lastRunAt ? new Date(schedule.lastRunAt).toLocaleString() : '-'}
+                    {schedule.lastError && (
+                      <p className="text-xs text-red-600 mt-1">{schedule.lastError}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 space-x-3">
+                    <button
+                      onClick={() => setEnabled(schedule, !schedule.enabled)}
+                      className="text-gray-600 hover:text-gray-700"
+                    >
+                      {schedule.enabled ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => deleteSchedule(schedule)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showCreateModal && (
+        <CreateScheduleModal
+          workerTypes={workerTypes}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={(schedule) => {
+            setShowCreateModal(false);
+            setSchedules((current) => [schedule, ...current]);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function toErrorMap(errors: FieldError[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const { path, message } of errors) map[path] ??= message;
+  return map;
+}
+
+// Schedule form; the task input is generated from the worker type's input schema
+function CreateScheduleModal({
+  workerTypes,
+  onClose,
+  onCreated,
+}: {
+  workerTypes: WorkerType[];
+  onClose: () => void;
+  onCreated: (schedule: Schedule) => void;
+}) {
+  const [name, setName] = useState('');
+  const [cron, setCron] = useState('0 9 * * *');
+  const [timezone, setTimezone] = useState(() => Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [overlapPolicy, setOverlapPolicy] = useState<ScheduleOverlapPolicy>('skip');
+  const [typeName, setTypeName] = useState(workerTypes[0]?.name || '');
+  const workerType = workerTypes.find((t) => t.name === typeName);
+  const schema = workerType?.inputSchema || { type: 'object' as const };
+  const [input, setInput] = useState<unknown>(() => defaultValue(schema));
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  function selectType(next: string) {
+    setTypeName(next);
+    setInput(defaultValue(workerTypes.find((t) => t.name === next)?.inputSchema || { type: 'object' }));
+    setFieldErrors({});
+    setError(null);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const value = input ?? {};
+    const errors = validateJsonSchema(schema, value);
+    setFieldErrors(toErrorMap(errors));
+    if (errors.length > 0) {
+      setError('Please fix the highlighted fields');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const schedule = await apiRequest<Schedule>('/api/schedules', {
+        method: 'POST',
+        body: JSON.stringify({ name, cron, timezone, overlapPolicy, type: typeName, input: value }),
+      });
+      onCreated(schedule);
+    } catch (err) {
+      if (err instanceof ApiRequestError) setFieldErrors(toErrorMap(err.errors));
+      setError(err instanceof Error ? err.message : 'Failed to create schedule');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold">Create New Schedule</h2>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              maxLength={100}
+              className="w-full border rounded-lg px-3 py-2"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cron</label>
+              <input
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                required
+                className="w-full border rounded-lg px-3 py-2 font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">minute hour day month weekday</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+              <input
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                required
+                className="w-full border rounded-lg px-3 py-2"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              If the previous task is still running
+            </label>
+            <select
+              value={overlapPolicy}
+              onChange={(e) => setOverlapPolicy(e.target.value as ScheduleOverlapPolicy)}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              {Object.entries(SCHEDULE_OVERLAP_POLICIES).map(([policy, description]) => (
+                <option key={policy} value={policy}>
+                  {description}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Task Type
+            </label>
+            <select
+              value={typeName}
+              onChange={(e) => selectType(e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              {workerTypes.length === 0 && <option value="">No task types available</option>}
+              {workerTypes.map((t) => (
+                <option key={t.id} value={t.name}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          {workerType && (
+            <SchemaForm
+              key={workerType.id}
+              schema={schema}
+              value={input}
+              onChange={setInput}
+              errors={fieldErrors}
+              // Scheduled tasks can't carry uploaded files
+              files={{}}
+              onFilesChange={() => {}}
+            />
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3 justify-end pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!workerType || submitting}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {submitting ? 'Creating...' : 'Create Schedule'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
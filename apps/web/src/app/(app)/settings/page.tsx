@@ -1,11 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import {
+  API_KEY_SCOPES,
+  WEBHOOK_EVENTS,
+  type ApiKey,
+  type ApiKeyScope,
+  type PaginatedResponse,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from '@saassy/shared';
+import { apiRequest } from '@/lib/api-client';
 
 export default function SettingsPage() {
-  const [apiKey, setApiKey] = useState('sk_********************************');
-  const [showKey, setShowKey] = useState(false);
-
   return (
     <div>
       <h1 className="text-2xl font-bold text-gray-900 mb-8">Settings</h1>
@@ -43,36 +51,11 @@ export default function SettingsPage() {
         </form>
       </div>
 
-      {/* API Key */}
-      <div className="bg-white rounded-xl border p-6 mb-6">
-        <h2 className="text-lg font-semibold text-gray-900 mb-4">API Key</h2>
-        <p className="text-sm text-gray-500 mb-4">
-          Use this key to authenticate API requests. Keep it secret!
-        </p>
-        <div className="flex gap-2">
-          <input
-            type={showKey ? 'text' : 'password'}
-            readOnly
-            value={apiKey}
-            className="flex-1 border rounded-lg px-3 py-2 font-mono text-sm bg-gray-50"
-          />
-          <button
-            onClick={() => setShowKey(!showKey)}
-            className="px-4 py-2 border rounded-lg hover:bg-gray-50"
-          >
-            {showKey ? 'Hide' : 'Show'}
-          </button>
-          <button
-            onClick={() => navigator.clipboard.writeText(apiKey)}
-            className="px-4 py-2 border rounded-lg hover:bg-gray-50"
-          >
-            Copy
-          </button>
-        </div>
-        <button className="mt-4 text-sm text-red-600 hover:text-red-700">
-          Regenerate API Key
-        </button>
-      </div>
+      {/* API Keys */}
+      <ApiKeysSection />
+
+      {/* Webhooks */}
+      <WebhooksSection />
 
       {/* Danger Zone */}
       <div className="bg-white rounded-xl border border-red-200 p-6">
@@ -92,3 +75,443 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+function ApiKeysSection() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  // The full key is only known right after it was created
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<ApiKey[]>('/api/api-keys')
+      .then(setKeys)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  async function revokeKey(key: ApiKey) {
+    if (!confirm(`Revoke "${key.name}"? Integrations using it stop working immediately.`)) {
+      return;
+    }
+    try {
+      await apiRequest(`/api/api-keys/${key.id}`, { method: 'DELETE' });
+      setKeys(keys.filter((k) => k.id !== key.id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">API Keys</h2>
+        <button
+          onClick={() => setShowCreateForm(true)}
+          className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 text-sm"
+        >
+          + New Key
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Use API keys to authenticate API requests. Keep them secret!
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {newKey && (
+        <div className="bg-amber-50 rounded-lg p-4 mb-4">
+          <p className="text-sm text-amber-700 mb-2">
+            Copy your new key now. It won&apos;t be shown again.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={newKey}
+              className="flex-1 border rounded-lg px-3 py-2 font-mono text-sm bg-white"
+            />
+            <button
+              onClick={() => navigator.clipboard.writeText(newKey)}
+              className="px-4 py-2 border rounded-lg bg-white hover:bg-gray-50"
+            >
+              Copy
+            </button>
+            <button
+              onClick={() => setNewKey(null)}
+              className="px-4 py-2 border rounded-lg bg-white hover:bg-gray-50"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showCreateForm && (
+        <CreateApiKeyForm
+          onCancel={() => setShowCreateForm(false)}
+          onCreated={(key, secret) => {
+            setKeys([key, ...keys]);
+            setNewKey(secret);
+            setShowCreateForm(false);
+          }}
+        />
+      )}
+
+      {keys.length === 0 ? (
+        <p className="text-sm text-gray-500">No API keys yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="border-b">
+            <tr>
+              <th className="text-left py-2 font-medium text-gray-500">Name</th>
+              <th className="text-left py-2 font-medium text-gray-500">Key</th>
+              <th className="text-left py-2 font-medium text-gray-500">Scopes</th>
+              <th className="text-left py-2 font-medium text-gray-500">Expires</th>
+              <th className="text-left py-2 font-medium text-gray-500">Last Used</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map((key) => (
+              <tr key={key.id} className="border-b last:border-0">
+                <td className="py-2">{key.name}</td>
+                <td className="py-2 font-mono">{key.prefix}...</td>
+                <td className="py-2">{key.scopes.join(', ')}</td>
+                <td className="py-2">
+                  {key.expiresAt ? new Date(key.expiresAt).toLocaleDateString() : 'Never'}
+                </td>
+                <td className="py-2">
+                  {key.lastUsedAt ? new Date(key.lastUsedAt).toLocaleString() : 'Never'}
+                </td>
+                <td className="py-2 text-right">
+                  <button
+                    onClick={() => revokeKey(key)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function CreateApiKeyForm({
+  onCancel,
+  onCreated,
+}: {
+  onCancel: () => void;
+  onCreated: (key: ApiKey, secret: string) => void;
+}) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['tasks:read', 'tasks:write']);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [allowedIps, setAllowedIps] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  function toggleScope(scope: ApiKeyScope) {
+    setScopes(scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]);
+  }
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    try {
+      const created = await apiRequest<ApiKey & { key: string }>('/api/api-keys', {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+          allowedIps: allowedIps
+            .split(/[\s,]+/)
+            .map((ip) => ip.trim())
+            .filter(Boolean),
+        }),
+      });
+      const { key: secret, ...key } = created;
+      onCreated(key, secret);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-lg p-4 mb-4 space-y-4 max-w-md">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+        <input
+          type="text"
+          required
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full border rounded-lg px-3 py-2"
+          placeholder="CI pipeline"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Scopes</label>
+        {(Object.keys(API_KEY_SCOPES) as ApiKeyScope[]).map((scope) => (
+          <label key={scope} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={() => toggleScope(scope)}
+            />
+            <span className="font-mono">{scope}</span>
+            <span className="text-gray-500">{API_KEY_SCOPES[scope]}</span>
+          </label>
+        ))}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Expires (optional)
+        </label>
+        <input
+          type="date"
+          value={expiresAt}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          className="w-full border rounded-lg px-3 py-2"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Allowed IPs (optional)
+        </label>
+        <input
+          type="text"
+          value={allowedIps}
+          onChange={(e) => setAllowedIps(e.target.value)}
+          className="w-full border rounded-lg px-3 py-2 font-mono text-sm"
+          placeholder="203.0.113.7, 10.0.0.0/8"
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-3 justify-end">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 border rounded-lg hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={scopes.length === 0}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          Create Key
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function WebhooksSection() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENTS]);
+  // The signing secret of a just-created endpoint
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [openEndpointId, setOpenEndpointId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<WebhookEndpoint[]>('/api/webhook-endpoints')
+      .then(setEndpoints)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  async function addEndpoint(event: React.FormEvent) {
+    event.preventDefault();
+    try {
+      const created = await apiRequest<WebhookEndpoint & { secret: string }>(
+        '/api/webhook-endpoints',
+        { method: 'POST', body: JSON.stringify({ url, events }) }
+      );
+      const { secret, ...endpoint } = created;
+      setEndpoints([endpoint, ...endpoints]);
+      setNewSecret(secret);
+      setUrl('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add webhook endpoint');
+    }
+  }
+
+  async function toggleEnabled(endpoint: WebhookEndpoint) {
+    try {
+      const updated = await apiRequest<WebhookEndpoint>(`/api/webhook-endpoints/${endpoint.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ enabled: !endpoint.enabled }),
+      });
+      setEndpoints(endpoints.map((e) => (e.id === updated.id ? updated : e)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook endpoint');
+    }
+  }
+
+  async function deleteEndpoint(endpoint: WebhookEndpoint) {
+    if (!confirm(`Delete the webhook endpoint ${endpoint.url}?`)) return;
+    try {
+      await apiRequest(`/api/webhook-endpoints/${endpoint.id}`, { method: 'DELETE' });
+      setEndpoints(endpoints.filter((e) => e.id !== endpoint.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook endpoint');
+    }
+  }
+
+  function toggleEvent(type: WebhookEventType) {
+    setEvents(events.includes(type) ? events.filter((e) => e !== type) : [...events, type]);
+  }
+
+  return (
+    <div className="bg-white rounded-xl border p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Webhooks</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Receive a signed POST request when a task completes or fails.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {newSecret && (
+        <div className="bg-amber-50 rounded-lg p-4 mb-4">
+          <p className="text-sm text-amber-700 mb-2">
+            Use this secret to verify the X-Saassy-Signature header.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={newSecret}
+              className="flex-1 border rounded-lg px-3 py-2 font-mono text-sm bg-white"
+            />
+            <button
+              onClick={() => setNewSecret(null)}
+              className="px-4 py-2 border rounded-lg bg-white hover:bg-gray-50"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={addEndpoint} className="flex flex-wrap gap-3 items-center mb-4">
+        <input
+          type="url"
+          required
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="flex-1 min-w-64 border rounded-lg px-3 py-2 text-sm"
+          placeholder="https://example.com/webhooks/saassy"
+        />
+        {WEBHOOK_EVENTS.map((type) => (
+          <label key={type} className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={events.includes(type)}
+              onChange={() => toggleEvent(type)}
+            />
+            <span className="font-mono">{type}</span>
+          </label>
+        ))}
+        <button
+          type="submit"
+          disabled={events.length === 0}
+          className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 text-sm disabled:opacity-50"
+        >
+          Add Endpoint
+        </button>
+      </form>
+
+      {endpoints.length === 0 ? (
+        <p className="text-sm text-gray-500">No webhook endpoints yet.</p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {endpoints.map((endpoint) => (
+            <li key={endpoint.id} className="p-3">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="flex-1 font-mono truncate">{endpoint.url}</span>
+                <span className="text-gray-500">{endpoint.events.join(', ')}</span>
+                <button
+                  onClick={() => setOpenEndpointId(openEndpointId === endpoint.id ? null : endpoint.id)}
+                  className="text-gray-600 hover:text-gray-700"
+                >
+                  Deliveries
+                </button>
+                <button
+                  onClick={() => toggleEnabled(endpoint)}
+                  className="text-gray-600 hover:text-gray-700"
+                >
+                  {endpoint.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => deleteEndpoint(endpoint)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              </div>
+              {openEndpointId === endpoint.id && <WebhookDeliveries endpointId={endpoint.id} />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function WebhookDeliveries({ endpointId }: { endpointId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<PaginatedResponse<WebhookDelivery>>(`/api/webhook-endpoints/${endpointId}/deliveries`)
+      .then((data) => setDeliveries(data.items))
+      .catch((err) => setError(err.message));
+  }, [endpointId]);
+
+  async function redeliver(delivery: WebhookDelivery) {
+    try {
+      await apiRequest(`/api/webhook-deliveries/${delivery.id}/redeliver`, { method: 'POST' });
+      setDeliveries(
+        (deliveries || []).map((d) => (d.id === delivery.id ? { ...d, status: 'pending' } : d))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redeliver webhook');
+    }
+  }
+
+  if (error) return <p className="text-sm text-red-600 mt-2">{error}</p>;
+  if (!deliveries) return <p className="text-sm text-gray-500 mt-2">Loading...</p>;
+  if (deliveries.length === 0) return <p className="text-sm text-gray-500 mt-2">No deliveries yet.</p>;
+
+  return (
+    <table className="w-full text-xs mt-2">
+      <tbody>
+        {deliveries.map((delivery) => (
+          <tr key={delivery.id} className="border-t">
+            <td className="py-1 font-mono">{delivery.event}</td>
+            <td className="py-1">{delivery.status}</td>
+            <td className="py-1">{delivery.responseStatus ?? '-'}</td>
+            <td className="py-1">{delivery.attempts} attempt(s)</td>
+            <td className="py-1 text-gray-500 truncate">{delivery.error}</td>
+            <td className="py-1">{new Date(delivery.created).toLocaleString()}</td>
+            <td className="py-1 text-right">
+              <button
+                onClick={() => redeliver(delivery)}
+                className="text-primary-600 hover:text-primary-700"
+              >
+                Redeliver
+              </button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
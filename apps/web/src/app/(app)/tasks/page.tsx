@@ -1,9 +1,90 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import {
+  toInputFileName,
+  validateJsonSchema,
+  type FieldError,
+  type PaginatedResponse,
+  type Task,
+  type TaskArtifact,
+  type TaskEvent,
+  type TaskLogEvent,
+  type TaskStatus,
+  type WorkerType,
+} from '@saassy/shared';
+import { ApiRequestError, apiRequest, streamApiEvents } from '@/lib/api-client';
+import { SchemaForm, defaultValue } from './schema-form';
+
+const STATUS_STYLES: Record<TaskStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  canceled: 'bg-amber-100 text-amber-700',
+  expired: 'bg-amber-100 text-amber-700',
+};
 
 export default function TasksPage() {
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [logsTaskId, setLogsTaskId] = useState<string | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [workerTypes, setWorkerTypes] = useState<WorkerType[]>([]);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiRequest<WorkerType[]>('/api/worker-types')
+      .then(setWorkerTypes)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  useEffect(() => {
+    const query = new URLSearchParams();
+    if (statusFilter) query.set('status', statusFilter);
+    if (typeFilter) query.set('type', typeFilter);
+    apiRequest<PaginatedResponse<Task>>(`/api/tasks?${query}`)
+      .then((data) => setTasks(data.items))
+      .catch((err) => setError(err.message));
+  }, [statusFilter, typeFilter]);
+
+  // Apply live status and progress updates to the listed tasks
+  useEffect(() => {
+    const controller = new AbortController();
+    streamApiEvents<TaskEvent>(
+      '/api/tasks/events',
+      (_event, data) => {
+        setTasks((current) =>
+          current.map((task) =>
+            task.id === data.taskId
+              ? {
+                  ...task,
+                  status: data.status || task.status,
+                  progress: data.progress || task.progress,
+                  output: data.output || task.output,
+                  error: data.error || task.error,
+                }
+              : task
+          )
+        );
+      },
+      controller.signal
+    ).catch((err) => console.error('Task event stream closed:', err));
+    return () => controller.abort();
+  }, []);
+
+  async function cancelTask(task: Task) {
+    try {
+      await apiRequest(`/api/tasks/${task.id}/cancel`, { method: 'POST' });
+      setTasks((current) =>
+        current.map((t) => (t.id === task.id ? { ...t, status: 'canceled' } : t))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel task');
+    }
+  }
 
   return (
     <div>
@@ -19,19 +100,36 @@ export default function TasksPage() {
 
       {/* Filters */}
       <div className="flex gap-4 mb-6">
-        <select className="border rounded-lg px-3 py-2 text-sm">
-          <option>All Status</option>
-          <option>Pending</option>
-          <option>Running</option>
-          <option>Completed</option>
-          <option>Failed</option>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="border rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="">All Status</option>
+          <option value="pending">Pending</option>
+          <option value="queued">Queued</option>
+          <option value="running">Running</option>
+          <option value="completed">Completed</option>
+          <option value="failed">Failed</option>
+          <option value="canceled">Canceled</option>
+          <option value="expired">Expired</option>
         </select>
-        <select className="border rounded-lg px-3 py-2 text-sm">
-          <option>All Types</option>
-          <option>example-worker</option>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="border rounded-lg px-3 py-2 text-sm"
+        >
+          <option value="">All Types</option>
+          {workerTypes.map((workerType) => (
+            <option key={workerType.id} value={workerType.name}>
+              {workerType.name}
+            </option>
+          ))}
         </select>
       </div>
 
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
       {/* Tasks Table */}
       <div className="bg-white rounded-xl border overflow-hidden">
         <table className="w-full">
@@ -58,49 +156,308 @@ export default function TasksPage() {
             </tr>
           </thead>
           <tbody>
-            <tr>
-              <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
-                No tasks found. Create your first task to get started.
-              </td>
-            </tr>
+            {tasks.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  No tasks found. Create your first task to get started.
+                </td>
+              </tr>
+            ) : (
+              tasks.map((task) => (
+                <tr key={task.id} className="border-b last:border-0 text-sm">
+                  <td className="px-6 py-4 font-mono">{task.id}</td>
+                  <td className="px-6 py-4">{task.type}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[task.status]}`}>
+                      {task.status}
+                    </span>
+                    {task.status === 'running' && task.progress && (
+                      <TaskProgressBar progress={task.progress} />
+                    )}
+                  </td>
+                  <td className="px-6 py-4">{formatDuration(task)}</td>
+                  <td className="px-6 py-4">{new Date(task.created).toLocaleString()}</td>
+                  <td className="px-6 py-4 space-x-3">
+                    <button
+                      onClick={() => setLogsTaskId(task.id)}
+                      className="text-gray-600 hover:text-gray-700"
+                    >
+                      Logs
+                    </button>
+                    {['pending', 'queued', 'running'].includes(task.status) && (
+                      <button
+                        onClick={() => cancelTask(task)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
           </tbody>
         </table>
       </div>
 
+      {logsTaskId && (
+        <TaskLogsModal taskId={logsTaskId} onClose={() => setLogsTaskId(null)} />
+      )}
+
       {/* Create Modal */}
       {showCreateModal && (
-        <CreateTaskModal onClose={() => setShowCreateModal(false)} />
+        <CreateTaskModal
+          workerTypes={workerTypes}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={(task) => {
+            setShowCreateModal(false);
+            if ((!statusFilter || statusFilter === task.status) && (!typeFilter || typeFilter === task.type)) {
+              setTasks((current) => [task, ...current]);
+            }
+          }}
+        />
       )}
     </div>
   );
 }
 
-function CreateTaskModal({ onClose }: { onClose: () => void }) {
+function TaskProgressBar({ progress }: { progress: NonNullable<Task['progress']> }) {
+  return (
+    <div className="mt-2 w-40">
+      {progress.percent !== undefined && (
+        <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary-600 transition-all"
+            style={{ width: `${progress.percent}%` }}
+          />
+        </div>
+      )}
+      {progress.message && (
+        <p className="text-xs text-gray-500 mt-1 truncate">{progress.message}</p>
+      )}
+    </div>
+  );
+}
+
+// Recent logs of a task, followed live while it runs
+function TaskLogsModal({ taskId, onClose }: { taskId: string; onClose: () => void }) {
+  const [lines, setLines] = useState<string[]>([]);
+  const [finalStatus, setFinalStatus] = useState<TaskStatus | null>(null);
+  const [artifacts, setArtifacts] = useState<TaskArtifact[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    streamApiEvents<Record<string, unknown>>(
+      `/api/tasks/${taskId}/logs/stream?tail=500`,
+      (event, data) => {
+        if (event === 'logs') {
+          setLines((current) => [...current, ...(data as unknown as TaskLogEvent).lines]);
+        } else if (event === 'dropped') {
+          setLines((current) => [...current, `[${data.lines} lines skipped]`]);
+        } else if (event === 'end') {
+          setFinalStatus(data.status as TaskStatus);
+        }
+      },
+      controller.signal
+    ).catch((err) => setError(err.message));
+    return () => controller.abort();
+  }, [taskId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView();
+  }, [lines]);
+
+  // Output files are collected once the container exits
+  useEffect(() => {
+    if (!finalStatus) return;
+    apiRequest<TaskArtifact[]>(`/api/tasks/${taskId}/artifacts`)
+      .then(setArtifacts)
+      .catch((err) => setError(err.message));
+  }, [taskId, finalStatus]);
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-white rounded-xl w-full max-w-lg mx-4">
+      <div className="bg-white rounded-xl w-full max-w-4xl mx-4">
+        <div className="p-6 border-b flex justify-between items-center">
+          <h2 className="text-lg font-semibold">
+            Logs <span className="font-mono text-sm text-gray-500">{taskId}</span>
+          </h2>
+          <span className="text-sm text-gray-500">
+            {finalStatus ? `Task ${finalStatus}` : 'Following...'}
+          </span>
+        </div>
+        <div className="p-6">
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+          <pre className="bg-gray-900 text-gray-100 text-xs rounded-lg p-4 h-96 overflow-auto">
+            {lines.length === 0 ? 'No logs yet.' : lines.join('\n')}
+            <div ref={bottomRef} />
+          </pre>
+          {artifacts.length > 0 && (
+            <div className="mt-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Output files</h3>
+              <ul className="text-sm space-y-1">
+                {artifacts.map((artifact) => (
+                  <li key={artifact.id} className="flex justify-between">
+                    {artifact.downloadUrl ? (
+                      <a href={artifact.downloadUrl} className="font-mono text-primary-600 hover:text-primary-700">
+                        {artifact.name}
+                      </a>
+                    ) : (
+                      <span className="font-mono">{artifact.name}</span>
+                    )}
+                    <span className="text-gray-500">{(artifact.size / 1024).toFixed(1)} KB</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <div className="flex justify-end pt-4">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border rounded-lg hover:bg-gray-50"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function formatDuration(task: Task): string {
+  if (!task.startedAt) return '-';
+  const end = task.completedAt ? new Date(task.completedAt) : new Date();
+  const seconds = Math.round((end.getTime() - new Date(task.startedAt).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Strings anywhere in a value, to find which picked files the input still refers to
+function collectStrings(value: unknown, into = new Set<string>()): Set<string> {
+  if (typeof value === 'string') into.add(value);
+  else if (value && typeof value === 'object') Object.values(value).forEach((v) => collectStrings(v, into));
+  return into;
+}
+
+function toErrorMap(errors: FieldError[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  for (const { path, message } of errors) map[path] ??= message;
+  return map;
+}
+
+// Task form generated from the chosen worker type's input schema
+function CreateTaskModal({
+  workerTypes,
+  onClose,
+  onCreated,
+}: {
+  workerTypes: WorkerType[];
+  onClose: () => void;
+  onCreated: (task: Task) => void;
+}) {
+  const [typeName, setTypeName] = useState(workerTypes[0]?.name || '');
+  const workerType = workerTypes.find((t) => t.name === typeName);
+  const schema = workerType?.inputSchema || { type: 'object' as const };
+  const [input, setInput] = useState<unknown>(() => defaultValue(schema));
+  const [files, setFiles] = useState<Record<string, File[]>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  function selectType(name: string) {
+    const next = workerTypes.find((t) => t.name === name);
+    setTypeName(name);
+    setInput(defaultValue(next?.inputSchema || { type: 'object' }));
+    setFiles({});
+    setFieldErrors({});
+    setError(null);
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    const value = input ?? {};
+    const errors = validateJsonSchema(schema, value);
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      errors.push({ path: '', message: 'must be an object' });
+    }
+    setFieldErrors(toErrorMap(errors));
+    if (errors.length > 0) {
+      setError('Please fix the highlighted fields');
+      return;
+    }
+
+    // Only upload files the input still refers to
+    const referenced = collectStrings(value);
+    const uploads = Object.values(files)
+      .flat()
+      .filter((file) => referenced.has(toInputFileName(file.name)));
+
+    let body: BodyInit;
+    if (uploads.length > 0) {
+      const form = new FormData();
+      form.append('type', typeName);
+      form.append('input', JSON.stringify(value));
+      uploads.forEach((file) => form.append('files', file));
+      body = form;
+    } else {
+      body = JSON.stringify({ type: typeName, input: value });
+    }
+
+    setSubmitting(true);
+    try {
+      onCreated(await apiRequest<Task>('/api/tasks', { method: 'POST', body }));
+    } catch (err) {
+      if (err instanceof ApiRequestError) setFieldErrors(toErrorMap(err.errors));
+      setError(err instanceof Error ? err.message : 'Failed to create task');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-lg mx-4 max-h-[90vh] flex flex-col">
         <div className="p-6 border-b">
           <h2 className="text-lg font-semibold">Create New Task</h2>
         </div>
-        <form className="p-6 space-y-4">
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Task Type
             </label>
-            <select className="w-full border rounded-lg px-3 py-2">
-              <option value="example-worker">Example Worker</option>
+            <select
+              value={typeName}
+              onChange={(e) => selectType(e.target.value)}
+              className="w-full border rounded-lg px-3 py-2"
+            >
+              {workerTypes.length === 0 && <option value="">No task types available</option>}
+              {workerTypes.map((t) => (
+                <option key={t.id} value={t.name}>
+                  {t.name}
+                </option>
+              ))}
             </select>
+            {workerType?.description && (
+              <p className="text-xs text-gray-500 mt-1">{workerType.description}</p>
+            )}
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Input (JSON)
-            </label>
-            <textarea
-              className="w-full border rounded-lg px-3 py-2 font-mono text-sm"
-              rows={6}
-              defaultValue={JSON.stringify({ message: 'Hello, World!' }, null, 2)}
+          {workerType && (
+            <SchemaForm
+              key={workerType.id}
+              schema={schema}
+              value={input}
+              onChange={setInput}
+              errors={fieldErrors}
+              files={files}
+              onFilesChange={(path, picked) => setFiles((current) => ({ ...current, [path]: picked }))}
             />
-          </div>
+          )}
+          {fieldErrors[''] && <p className="text-sm text-red-600">Input {fieldErrors['']}</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
           <div className="flex gap-3 justify-end pt-4">
             <button
               type="button"
@@ -111,9 +468,10 @@ function CreateTaskModal({ onClose }: { onClose: () => void }) {
             </button>
             <button
               type="submit"
-              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+              disabled={!workerType || submitting}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
             >
-              Create Task
+              {submitting ? 'Creating...' : 'Create Task'}
             </button>
           </div>
         </form>
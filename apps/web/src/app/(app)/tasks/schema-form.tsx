@@ -0,0 +1,372 @@
+'use client';
+
+import { useState } from 'react';
+import { formatFieldPath, toInputFileName, type JsonSchema } from '@saassy/shared';
+
+type Path = (string | number)[];
+
+export interface SchemaFormProps {
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  // Validation messages keyed by field path, e.g. "numbers[1]"
+  errors: Record<string, string>;
+  // Files picked for `format: "file"` fields, keyed by field path
+  files: Record<string, File[]>;
+  onFilesChange: (path: string, files: File[]) => void;
+}
+
+interface FieldProps extends Omit<SchemaFormProps, 'onChange'> {
+  path: Path;
+  label: string;
+  required: boolean;
+  onChange: (value: unknown) => void;
+}
+
+const INPUT_CLASS = 'w-full border rounded-lg px-3 py-2 text-sm';
+
+// "sleepSeconds" -> "Sleep seconds"
+function humanize(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+  return schema.type === undefined ? [] : [schema.type].flat();
+}
+
+function isFileSchema(schema: JsonSchema): boolean {
+  return schema.format === 'file';
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * The property whose `const` tells oneOf/anyOf branches apart, like the
+ * test worker's `operation`. Null when the branches aren't discriminated.
+ */
+function findDiscriminator(branches: JsonSchema[]): string | null {
+  const candidates = Object.keys(branches[0]?.properties || {});
+  return candidates.find((key) =>
+    branches.every((branch) => branch.properties?.[key]?.const !== undefined)
+  ) || null;
+}
+
+// The schema a union resolves to for the current value, merged with the parent's properties
+function resolveBranch(schema: JsonSchema, branch: JsonSchema): JsonSchema {
+  return {
+    ...schema,
+    ...branch,
+    oneOf: undefined,
+    anyOf: undefined,
+    properties: { ...schema.properties, ...branch.properties },
+    required: [...(schema.required || []), ...(branch.required || [])],
+  };
+}
+
+/**
+ * Initial form value for a schema: declared defaults and consts, with
+ * unions starting on their first branch.
+ */
+export function defaultValue(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  if (schema.const !== undefined) return schema.const;
+
+  const branches = schema.oneOf || schema.anyOf;
+  if (branches?.length) return defaultValue(resolveBranch(schema, branches[0]!));
+
+  if (schemaTypes(schema).includes('object') || schema.properties) {
+    const value: Record<string, unknown> = {};
+    for (const [key, property] of Object.entries(schema.properties || {})) {
+      const propertyDefault = defaultValue(property);
+      if (propertyDefault !== undefined) value[key] = propertyDefault;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+export function SchemaForm(props: SchemaFormProps) {
+  return <SchemaField {...props} path={[]} label="" required />;
+}
+
+function SchemaField(props: FieldProps) {
+  const { schema, value, onChange, path, errors } = props;
+  const types = schemaTypes(schema);
+  const branches = schema.oneOf || schema.anyOf;
+
+  let field: JSX.Element;
+  if (branches?.length) {
+    field = <UnionField {...props} branches={branches} />;
+  } else if (schema.const !== undefined) {
+    return null;
+  } else if (schema.enum) {
+    field = <EnumField {...props} />;
+  } else if (schema.properties) {
+    field = <ObjectField {...props} />;
+  } else if (types.includes('array')) {
+    field = schema.items && isFileSchema(schema.items)
+      ? <FileField {...props} multiple />
+      : <ArrayField {...props} />;
+  } else if (types.includes('boolean')) {
+    return (
+      <div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          {props.label}
+        </label>
+        <FieldHelp schema={schema} error={errors[formatFieldPath(path)]} />
+      </div>
+    );
+  } else if (types.includes('number') || types.includes('integer')) {
+    field = (
+      <input
+        type="number"
+        className={INPUT_CLASS}
+        value={typeof value === 'number' ? value : ''}
+        min={schema.minimum ?? schema.exclusiveMinimum}
+        max={schema.maximum ?? schema.exclusiveMaximum}
+        step={schema.multipleOf ?? (types.includes('integer') ? 1 : 'any')}
+        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      />
+    );
+  } else if (types.includes('string')) {
+    field = isFileSchema(schema) ? <FileField {...props} multiple={false} /> : <StringField {...props} />;
+  } else {
+    // No shape to build controls from, e.g. the test worker's echo `data`
+    field = <JsonField {...props} />;
+  }
+
+  if (path.length === 0) return field;
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        {props.label}
+        {props.required && <span className="text-red-600"> *</span>}
+      </label>
+      {field}
+      <FieldHelp schema={schema} error={errors[formatFieldPath(path)]} />
+    </div>
+  );
+}
+
+function FieldHelp({ schema, error }: { schema: JsonSchema; error?: string }) {
+  return (
+    <>
+      {schema.description && <p className="text-xs text-gray-500 mt-1">{schema.description}</p>}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </>
+  );
+}
+
+function UnionField(props: FieldProps & { branches: JsonSchema[] }) {
+  const { schema, branches, value, onChange } = props;
+  const discriminator = findDiscriminator(branches);
+  const [chosen, setChosen] = useState(0);
+
+  const selected = discriminator
+    ? Math.max(0, branches.findIndex((branch) => branch.properties![discriminator]!.const === asObject(value)[discriminator]))
+    : chosen;
+  const branch = resolveBranch(schema, branches[selected]!);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {discriminator ? humanize(discriminator) : 'Variant'}
+        </label>
+        <select
+          className={INPUT_CLASS}
+          value={selected}
+          onChange={(e) => {
+            const index = Number(e.target.value);
+            setChosen(index);
+            onChange(defaultValue(resolveBranch(schema, branches[index]!)));
+          }}
+        >
+          {branches.map((option, i) => (
+            <option key={i} value={i}>
+              {option.title || String(discriminator ? option.properties![discriminator]!.const : `Option ${i + 1}`)}
+            </option>
+          ))}
+        </select>
+        {branches[selected]!.description && (
+          <p className="text-xs text-gray-500 mt-1">{branches[selected]!.description}</p>
+        )}
+      </div>
+      <SchemaField {...props} schema={branch} />
+    </div>
+  );
+}
+
+function EnumField({ schema, value, onChange, required }: FieldProps) {
+  const options = schema.enum!;
+  const index = options.findIndex((option) => JSON.stringify(option) === JSON.stringify(value));
+  return (
+    <select
+      className={INPUT_CLASS}
+      value={index}
+      onChange={(e) => {
+        const i = Number(e.target.value);
+        onChange(i < 0 ? undefined : options[i]);
+      }}
+    >
+      {(!required || index < 0) && <option value={-1}>Select...</option>}
+      {options.map((option, i) => (
+        <option key={i} value={i}>
+          {typeof option === 'string' ? option : JSON.stringify(option)}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function ObjectField(props: FieldProps) {
+  const { schema, value, onChange, path } = props;
+  const object = asObject(value);
+  const fields = Object.entries(schema.properties || {}).map(([key, property]) => (
+    <SchemaField
+      key={key}
+      {...props}
+      schema={property}
+      value={object[key]}
+      path={[...path, key]}
+      label={property.title || humanize(key)}
+      required={schema.required?.includes(key) ?? false}
+      onChange={(next) => {
+        const updated = { ...object, [key]: next };
+        if (next === undefined) delete updated[key];
+        onChange(updated);
+      }}
+    />
+  ));
+
+  if (path.length === 0) return <div className="space-y-4">{fields}</div>;
+  return <fieldset className="border rounded-lg p-4 space-y-4">{fields}</fieldset>;
+}
+
+function ArrayField(props: FieldProps) {
+  const { schema, value, onChange, path } = props;
+  const items = Array.isArray(value) ? value : [];
+  const itemSchema = schema.items || {};
+  const canAdd = schema.maxItems === undefined || items.length < schema.maxItems;
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="flex gap-2 items-start">
+          <div className="flex-1">
+            <SchemaField
+              {...props}
+              schema={itemSchema}
+              value={item}
+              path={[...path, i]}
+              label={`${props.label} ${i + 1}`}
+              required
+              onChange={(next) => onChange(items.map((existing, j) => (j === i ? next : existing)))}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(items.filter((_, j) => j !== i))}
+            className="text-sm text-red-600 hover:text-red-700 mt-7"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      {canAdd && (
+        <button
+          type="button"
+          onClick={() => onChange([...items, defaultValue(itemSchema)])}
+          className="text-sm text-primary-600 hover:text-primary-700"
+        >
+          + Add
+        </button>
+      )}
+    </div>
+  );
+}
+
+function StringField({ schema, value, onChange }: FieldProps) {
+  const common = {
+    className: INPUT_CLASS,
+    value: typeof value === 'string' ? value : '',
+    maxLength: schema.maxLength,
+    onChange: (e: { target: { value: string } }) =>
+      onChange(e.target.value === '' ? undefined : e.target.value),
+  };
+
+  // Long free text gets a textarea
+  if (schema.maxLength === undefined || schema.maxLength > 200) {
+    return <textarea {...common} rows={3} />;
+  }
+  const inputType = schema.format === 'email' ? 'email' : schema.format === 'uri' ? 'url' : schema.format === 'date' ? 'date' : 'text';
+  return (
+    <input
+      {...common}
+      type={inputType}
+      placeholder={schema.format === 'date-time' ? '2024-01-31T12:00:00Z' : undefined}
+    />
+  );
+}
+
+// Files are uploaded with the task; the field's value is the name the worker finds them under
+function FileField({ value, onChange, path, onFilesChange, multiple }: FieldProps & { multiple: boolean }) {
+  const names = ([] as unknown[]).concat(value ?? []).filter((name) => typeof name === 'string');
+  return (
+    <div>
+      <input
+        type="file"
+        multiple={multiple}
+        className="block w-full text-sm"
+        onChange={(e) => {
+          const picked = Array.from(e.target.files || []);
+          onFilesChange(formatFieldPath(path), picked);
+          const pickedNames = picked.map((file) => toInputFileName(file.name));
+          onChange(multiple ? pickedNames : pickedNames[0]);
+        }}
+      />
+      {names.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1 font-mono">/input/files/{names.join(', ')}</p>
+      )}
+    </div>
+  );
+}
+
+function JsonField({ value, onChange }: FieldProps) {
+  const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [invalid, setInvalid] = useState(false);
+  return (
+    <div>
+      <textarea
+        className={`${INPUT_CLASS} font-mono`}
+        rows={4}
+        value={text}
+        placeholder="Any JSON value"
+        onChange={(e) => {
+          setText(e.target.value);
+          if (e.target.value.trim() === '') {
+            setInvalid(false);
+            return onChange(undefined);
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setInvalid(false);
+          } catch {
+            setInvalid(true);
+          }
+        }}
+      />
+      {invalid && <p className="text-xs text-red-600 mt-1">Not valid JSON</p>}
+    </div>
+  );
+}
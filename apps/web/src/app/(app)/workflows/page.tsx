@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import type {
+  FieldError,
+  PaginatedResponse,
+  Workflow,
+  WorkflowStatus,
+  WorkflowStepStatus,
+} from '@saassy/shared';
+import { ApiRequestError, apiRequest } from '@/lib/api-client';
+
+const WORKFLOW_STATUS_STYLES: Record<WorkflowStatus, string> = {
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  canceled: 'bg-amber-100 text-amber-700',
+};
+
+const STEP_STATUS_STYLES: Record<WorkflowStepStatus, string> = {
+  waiting: 'bg-gray-50 text-gray-500',
+  skipped: 'bg-gray-50 text-gray-400 line-through',
+  pending: 'bg-gray-100 text-gray-700',
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  canceled: 'bg-amber-100 text-amber-700',
+  expired: 'bg-amber-100 text-amber-700',
+};
+
+// Steps are defined as JSON; this shows the shape
+const EXAMPLE_STEPS = `[
+  { "id": "extract", "type": "example-worker", "input": {} },
+  {
+    "id": "report",
+    "type": "example-worker",
+    "dependsOn": ["extract"],
+    "onFailure": "retry",
+    "input": { "rows": { "$ref": "$.steps.extract.output.rows" } }
+  }
+]`;
+
+// How often running workflows are refreshed
+const REFRESH_INTERVAL_MS = 5000;
+
+export default function WorkflowsPage() {
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const hasRunning = workflows.some((workflow) => workflow.status === 'running');
+
+  function load() {
+    apiRequest<PaginatedResponse<Workflow>>('/api/workflows')
+      .then((page) => setWorkflows(page.items))
+      .catch((err) => setError(err.message));
+  }
+
+  useEffect(load, []);
+
+  useEffect(() => {
+    if (!hasRunning) return;
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasRunning]);
+
+  async function cancelWorkflow(workflow: Workflow) {
+    if (!confirm(`Cancel workflow "${workflow.name}" and its unfinished steps?`)) return;
+    try {
+      const updated = await apiRequest<Workflow>(`/api/workflows/${workflow.id}/cancel`, { method: 'POST' });
+      setWorkflows((current) => current.map((w) => (w.id === updated.id ? updated : w)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel workflow');
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-2xl font-bold text-gray-900">Workflows</h1>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 transition"
+        >
+          + New Workflow
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="bg-white rounded-xl border overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Name
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Status
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Steps
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Usage
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Created
+              </th>
+              <th className="text-left px-6 py-3 text-xs font-medium text-gray-500 uppercase">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {workflows.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                  No workflows yet. Create one to run tasks that depend on each other.
+                </td>
+              </tr>
+            ) : (
+              workflows.map((workflow) => (
+                <tr key={workflow.id} className="border-b last:border-0 text-sm align-top">
+                  <td className="px-6 py-4">{workflow.name}</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded-full text-xs ${WORKFLOW_STATUS_STYLES[workflow.status]}`}>
+                      {workflow.status}
+                    </span>
+                    {workflow.error && (
+                      <p className="text-xs text-red-600 mt-1">{workflow.error}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {workflow.steps.map((step) => (
+                        <span
+                          key={step.id}
+                          title={step.error || `${step.type}, ${step.status}`}
+                          className={`px-2 py-1 rounded text-xs font-mono ${STEP_STATUS_STYLES[step.status]}`}
+                        >
+                          {step.id}
+                          {step.attempts > 1 && ` ×${step.attempts}`}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4">
+                    {workflow.usage.taskCount} tasks
+                    <p className="text-xs text-gray-500">
+                      ${(workflow.usage.costCents / 100).toFixed(2)}, {workflow.usage.cpuSeconds.toFixed(1)} CPU s
+                    </p>
+                  </td>
+                  <td className="px-6 py-4">{new Date(workflow.created).toLocaleString()}</td>
+                  <td className="px-6 py-4">
+                    {workflow.status === 'running' && (
+                      <button
+                        onClick={() => cancelWorkflow(workflow)}
+                        className="text-red-600 hover:text-red-700"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showCreateModal && (
+        <CreateWorkflowModal
+          onClose={() => setShowCreateModal(false)}
+          onCreated={(workflow) => {
+            setShowCreateModal(false);
+            setWorkflows((current) => [workflow, ...current]);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Workflow form; steps are entered as JSON, as sent to the API
+function CreateWorkflowModal({
+  onClose,
+  onCreated,
+}: {
+  onClose: () => void;
+  onCreated: (workflow: Workflow) => void;
+}) {
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState(EXAMPLE_STEPS);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setError(null);
+    setFieldErrors([]);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(steps);
+    } catch {
+      setError('Steps must be valid JSON');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const workflow = await apiRequest<Workflow>('/api/workflows', {
+        method: 'POST',
+        body: JSON.stringify({ name, steps: parsed }),
+      });
+      onCreated(workflow);
+    } catch (err) {
+      if (err instanceof ApiRequestError) setFieldErrors(err.errors);
+      setError(err instanceof Error ? err.message : 'Failed to create workflow');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b">
+          <h2 className="text-lg font-semibold">Create New Workflow</h2>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              maxLength={100}
+              className="w-full border rounded-lg px-3 py-2"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Steps</label>
+            <textarea
+              value={steps}
+              onChange={(e) => setSteps(e.target.value)}
+              rows={14}
+              spellCheck={false}
+              className="w-full border rounded-lg px-3 py-2 font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Each step runs once the steps in its dependsOn have completed. onFailure is fail-fast,
+              continue or retry.
+            </p>
+          </div>
+          {fieldErrors.length > 0 && (
+            <ul className="text-xs text-red-600 space-y-1">
+              {fieldErrors.map(({ path, message }) => (
+                <li key={`${path}:${message}`}>
+                  <span className="font-mono">{path}</span>: {message}
+                </li>
+              ))}
+            </ul>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-3 justify-end pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 border rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {submitting ? 'Creating...' : 'Create Workflow'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateSession } from '@/lib/auth';
+import type { ApiResponse } from '@saassy/shared';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+
+// DELETE /api/api-keys/:id - Revoke a key
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    if (!POCKETBASE_ID_REGEX.test(params.id)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Invalid API key ID' },
+        { status: 400 }
+      );
+    }
+
+    // Scope the lookup to the user so other users' keys look like missing ones
+    try {
+      await pb
+        .collection(Collections.api_keys)
+        .getFirstListItem(pb.filter('id = {:id} && user = {:userId}', { id: params.id, userId }));
+    } catch {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    await pb.collection(Collections.api_keys).delete(params.id);
+
+    return NextResponse.json<ApiResponse<null>>({ success: true });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
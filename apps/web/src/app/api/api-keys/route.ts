@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateSession, createApiKey, toApiKey } from '@/lib/auth';
+import { API_KEY_SCOPES, ErrorCodes } from '@saassy/shared';
+import type { ApiKey, ApiKeyScope, ApiResponse, CreateApiKeyRequest } from '@saassy/shared';
+
+const MAX_KEY_NAME_LENGTH = 100;
+const MAX_ALLOWED_IPS = 50;
+const IP_ENTRY_REGEX = /^[0-9a-fA-F:.]+(\/\d{1,3})?$/;
+
+// GET /api/api-keys - List the user's API keys (never the keys themselves)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const records = await pb.collection(Collections.api_keys).getFullList({
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: '-created',
+    });
+
+    return NextResponse.json<ApiResponse<ApiKey[]>>({
+      success: true,
+      data: records.map(toApiKey),
+    });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to list API keys' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/api-keys - Create a key. The full key is only returned here; it is stored hashed.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const body: CreateApiKeyRequest = await request.json();
+
+    // Validate name
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Name is required (max 100 characters)', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+
+    // Validate scopes against the known set
+    if (
+      !Array.isArray(body.scopes) ||
+      body.scopes.length === 0 ||
+      !body.scopes.every((scope) => scope in API_KEY_SCOPES)
+    ) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'At least one valid scope is required', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+    const scopes = [...new Set(body.scopes)] as ApiKeyScope[];
+
+    // Validate optional expiry
+    let expiresAt: string | undefined;
+    if (body.expiresAt) {
+      const date = new Date(body.expiresAt);
+      if (isNaN(date.getTime()) || date <= new Date()) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: 'expiresAt must be a future date', code: ErrorCodes.INVALID_INPUT },
+          { status: 400 }
+        );
+      }
+      expiresAt = date.toISOString();
+    }
+
+    // Validate optional IP allowlist
+    const allowedIps = body.allowedIps ?? [];
+    if (
+      !Array.isArray(allowedIps) ||
+      allowedIps.length > MAX_ALLOWED_IPS ||
+      !allowedIps.every((ip) => typeof ip === 'string' && IP_ENTRY_REGEX.test(ip.trim()))
+    ) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'allowedIps must be a list of IPs or CIDR ranges', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+
+    const { key, hash, prefix } = createApiKey();
+
+    const record = await pb.collection(Collections.api_keys).create({
+      user: userId,
+      name,
+      key_hash: hash,
+      prefix,
+      scopes,
+      expires_at: expiresAt,
+      allowed_ips: allowedIps.map((ip) => ip.trim()),
+    });
+
+    return NextResponse.json<ApiResponse<ApiKey & { key: string }>>(
+      { success: true, data: { ...toApiKey(record), key } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
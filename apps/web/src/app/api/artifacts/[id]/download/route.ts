@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections, createServerPocketBase } from '@/lib/pocketbase';
+import { verifyArtifactSignature } from '@/lib/artifacts';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse } from '@saassy/shared';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/artifacts/:id/download?expires=&signature= - Download an artifact.
+// The signed link from GET /api/tasks/:id/artifacts is the only credential.
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { searchParams } = new URL(request.url);
+  if (!verifyArtifactSignature(params.id, searchParams.get('expires'), searchParams.get('signature'))) {
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Download link is invalid or has expired', code: ErrorCodes.FORBIDDEN },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const pb = createServerPocketBase();
+    const record = await pb.collection(Collections.task_artifacts).getOne(params.id);
+
+    const token = await pb.files.getToken();
+    const file = await fetch(pb.files.getUrl(record, record.file, { token }));
+    if (!file.ok || !file.body) {
+      throw new Error(`PocketBase responded with ${file.status}`);
+    }
+
+    // The content type comes from the worker, so the file is never rendered
+    // on our origin: always a download, not sniffed, and sandboxed if opened
+    const filename = record.name.split('/').pop() || 'artifact';
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': record.content_type || 'application/octet-stream',
+        'Content-Length': String(record.size),
+        'Content-Disposition': toAttachmentDisposition(filename),
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': "default-src 'none'; sandbox",
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error downloading artifact:', error);
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: 'Artifact not found', code: ErrorCodes.NOT_FOUND },
+      { status: 404 }
+    );
+  }
+}
+
+// Plain ASCII filename for old clients, RFC 5987 encoded for the rest
+function toAttachmentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import {
+  SCHEDULE_TASK_FIELDS,
+  SCHEDULE_TIMING_FIELDS,
+  getOwnedSchedule,
+  parseScheduleRequest,
+  toSchedule,
+  toScheduledTask,
+} from '@/lib/schedules';
+import { validateNewTask } from '@/lib/tasks';
+import { getScheduleNextRun } from '@/lib/worker-manager';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, Schedule } from '@saassy/shared';
+
+// GET /api/schedules/:id - Get a schedule
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+
+    const record = await getOwnedSchedule(auth.pb, params.id, auth.userId);
+
+    return NextResponse.json<ApiResponse<Schedule>>({
+      success: true,
+      data: toSchedule(record),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to get schedule');
+  }
+}
+
+// PATCH /api/schedules/:id - Update any schedule field; enabling a schedule
+// starts counting from now, so runs missed while disabled are not made up
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const current = await getOwnedSchedule(pb, params.id, userId);
+    const updates = parseScheduleRequest(await request.json());
+    const schedule = { ...current, ...updates };
+
+    if (SCHEDULE_TASK_FIELDS.some((field) => field in updates)) {
+      await validateNewTask(pb, userId, toScheduledTask(schedule));
+    }
+
+    if (SCHEDULE_TIMING_FIELDS.some((field) => field in updates)) {
+      const nextRunAt = await getScheduleNextRun(schedule.cron, schedule.timezone);
+      updates.next_run_at = schedule.enabled ? nextRunAt : '';
+      updates.last_error = '';
+    }
+
+    const record = await pb.collection(Collections.schedules).update(params.id, updates);
+
+    return NextResponse.json<ApiResponse<Schedule>>({
+      success: true,
+      data: toSchedule(record),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update schedule');
+  }
+}
+
+// DELETE /api/schedules/:id - Remove a schedule; tasks it created are kept
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedSchedule(pb, params.id, userId);
+    await pb.collection(Collections.schedules).delete(params.id);
+
+    return NextResponse.json<ApiResponse<null>>({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete schedule');
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { parseScheduleRequest, toSchedule, toScheduledTask } from '@/lib/schedules';
+import { validateNewTask } from '@/lib/tasks';
+import { getScheduleNextRun } from '@/lib/worker-manager';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, CreateScheduleRequest, Schedule } from '@saassy/shared';
+
+const MAX_SCHEDULES_PER_USER = 50;
+
+// GET /api/schedules - List the user's schedules
+export async function GET(request: NextRequest) {
+  try {
+    // Schedules create tasks, so they share the tasks scopes
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const records = await pb.collection(Collections.schedules).getFullList({
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: '-created',
+    });
+
+    return NextResponse.json<ApiResponse<Schedule[]>>({
+      success: true,
+      data: records.map(toSchedule),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list schedules');
+  }
+}
+
+// POST /api/schedules - Create a schedule. Its task is checked against the
+// user's plan now; the monthly quota is checked on every run.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const body: Partial<CreateScheduleRequest> = await request.json();
+    if (!body.name || !body.cron || !body.type || !body.input) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Missing required fields: name, cron, type, input' },
+        { status: 400 }
+      );
+    }
+
+    const schedule: Record<string, unknown> = {
+      timezone: 'UTC',
+      enabled: true,
+      overlap_policy: 'skip',
+      ...parseScheduleRequest(body),
+    };
+    await validateNewTask(pb, userId, toScheduledTask(schedule));
+    const nextRunAt = await getScheduleNextRun(schedule.cron as string, schedule.timezone as string);
+
+    const existing = await pb.collection(Collections.schedules).getList(1, 1, {
+      filter: pb.filter('user = {:userId}', { userId }),
+    });
+    if (existing.totalItems >= MAX_SCHEDULES_PER_USER) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: `At most ${MAX_SCHEDULES_PER_USER} schedules are allowed` },
+        { status: 409 }
+      );
+    }
+
+    const record = await pb.collection(Collections.schedules).create({
+      ...schedule,
+      user: userId,
+      next_run_at: schedule.enabled ? nextRunAt : '',
+    });
+
+    return NextResponse.json<ApiResponse<Schedule>>(
+      { success: true, data: toSchedule(record) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to create schedule');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { toTaskArtifact } from '@/lib/artifacts';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedTask } from '@/lib/tasks';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, TaskArtifact } from '@saassy/shared';
+
+// GET /api/tasks/:id/artifacts - Files the task wrote to /output, with signed download URLs
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedTask(pb, params.id, userId);
+
+    const artifacts = await pb.collection(Collections.task_artifacts).getFullList({
+      filter: pb.filter('task = {:taskId}', { taskId: params.id }),
+      sort: 'name',
+    });
+
+    return NextResponse.json<ApiResponse<TaskArtifact[]>>({
+      success: true,
+      data: artifacts.map((record) => toTaskArtifact(record, request.nextUrl.origin)),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list task artifacts');
+  }
+}
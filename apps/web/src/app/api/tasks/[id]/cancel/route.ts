@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedTask, toTask } from '@/lib/tasks';
+import { cancelTask } from '@/lib/worker-manager';
+import { publishTaskEvent } from '@/lib/events';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, Task, TaskStatus } from '@saassy/shared';
+
+const CANCELABLE_STATUSES: TaskStatus[] = ['pending', 'queued', 'running'];
+
+// POST /api/tasks/:id/cancel - Cancel a pending, queued or running task
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const task = await getOwnedTask(pb, params.id, userId);
+
+    if (!CANCELABLE_STATUSES.includes(task.status)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: `Task is already ${task.status}` },
+        { status: 409 }
+      );
+    }
+
+    // Mark canceled first so the processor doesn't record the stopped
+    // container as a failure
+    const canceled = await pb.collection(Collections.tasks).update(task.id, {
+      status: 'canceled',
+      completed_at: new Date().toISOString(),
+    });
+    await publishTaskEvent({ type: 'status', taskId: task.id, userId, status: 'canceled' });
+
+    try {
+      await cancelTask(task.id);
+    } catch (error) {
+      console.error('Failed to stop task on worker manager:', error);
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Task was marked canceled but could not be stopped', code: ErrorCodes.WORKER_ERROR },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<Task>>({
+      success: true,
+      data: toTask(canceled),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to cancel task');
+  }
+}
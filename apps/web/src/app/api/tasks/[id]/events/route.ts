@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { subscribeToTaskEvents } from '@/lib/events';
+import { createEventStream } from '@/lib/sse';
+import { getOwnedTask, toTaskEvent } from '@/lib/tasks';
+import { ErrorCodes, TERMINAL_TASK_STATUSES } from '@saassy/shared';
+import type { ApiResponse, TaskEvent } from '@saassy/shared';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/tasks/:id/events - Stream a task's status and progress until it finishes
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    // Check ownership before opening the stream so errors are plain JSON
+    await getOwnedTask(pb, params.id, userId);
+
+    return createEventStream(request, async (stream) => {
+      const forward = (event: TaskEvent) => {
+        stream.send(event.type, event);
+        if (event.status && TERMINAL_TASK_STATUSES.includes(event.status)) {
+          stream.close();
+        }
+      };
+
+      // Subscribe before reading the snapshot so no transition is missed
+      const unsubscribe = await subscribeToTaskEvents(userId, (event) => {
+        if (event.taskId === params.id) forward(event);
+      });
+
+      try {
+        const task = await getOwnedTask(pb, params.id, userId);
+        forward(toTaskEvent(task));
+      } catch (error) {
+        unsubscribe();
+        throw error;
+      }
+
+      return unsubscribe;
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to stream task events');
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedTask } from '@/lib/tasks';
+import { readTaskLogs, tailTaskLogs } from '@/lib/task-logs';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, TaskLogSlice } from '@saassy/shared';
+
+const DEFAULT_LIMIT_BYTES = 64 * 1024;
+const MAX_LIMIT_BYTES = 1024 * 1024;
+const MAX_TAIL_LINES = 5000;
+
+function parseNonNegativeInt(value: string | null): number | null {
+  if (value === null) return null;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+}
+
+// GET /api/tasks/:id/logs - Read a task's logs
+//   ?offset=&limit=  byte range (limit defaults to 64 KB, max 1 MB)
+//   ?tail=N          last N lines (max 5000)
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const tail = parseNonNegativeInt(searchParams.get('tail'));
+    const offset = parseNonNegativeInt(searchParams.get('offset'));
+    const limit = parseNonNegativeInt(searchParams.get('limit'));
+
+    if ([tail, offset, limit].some((value) => Number.isNaN(value))) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'tail, offset and limit must be non-negative integers', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+    if (tail !== null && (offset !== null || limit !== null)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'tail cannot be combined with offset or limit', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+
+    await getOwnedTask(pb, params.id, userId);
+
+    const logs = tail !== null
+      ? await tailTaskLogs(pb, params.id, Math.min(tail, MAX_TAIL_LINES))
+      : await readTaskLogs(
+          pb,
+          params.id,
+          offset || 0,
+          Math.min(limit || DEFAULT_LIMIT_BYTES, MAX_LIMIT_BYTES)
+        );
+
+    return NextResponse.json<ApiResponse<TaskLogSlice>>({
+      success: true,
+      data: logs,
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to read task logs');
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { subscribeToTaskEvents, subscribeToTaskLogs } from '@/lib/events';
+import { createEventStream } from '@/lib/sse';
+import { acquireLogFollower, tailTaskLogs } from '@/lib/task-logs';
+import { getOwnedTask } from '@/lib/tasks';
+import { ErrorCodes, TERMINAL_TASK_STATUSES } from '@saassy/shared';
+import type { ApiResponse, TaskLogEvent, TaskStatus } from '@saassy/shared';
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_TAIL_LINES = 100;
+const MAX_TAIL_LINES = 5000;
+
+// GET /api/tasks/:id/logs/stream - Send the last ?tail= lines (default 100),
+// then follow the task's logs until it finishes.
+//   event "logs": { taskId, lines, offset, timestamp }
+//   event "dropped": { lines } - lines skipped because the client fell behind
+//   event "end": { status } - the task finished; the stream closes
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const tailParam = new URL(request.url).searchParams.get('tail');
+    if (tailParam !== null && !/^\d+$/.test(tailParam)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'tail must be a non-negative integer', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+    const tail = Math.min(tailParam !== null ? parseInt(tailParam, 10) : DEFAULT_TAIL_LINES, MAX_TAIL_LINES);
+
+    // Check ownership before opening the stream so errors are plain JSON
+    await getOwnedTask(pb, params.id, userId);
+
+    const release = acquireLogFollower(params.id);
+    if (!release) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Too many clients are following this task', code: ErrorCodes.RATE_LIMITED },
+        { status: 429 }
+      );
+    }
+
+    return createEventStream(request, async (stream) => {
+      // Live lines before this offset were already sent with the backlog
+      let sentUntil: number | null = null;
+      const pending: TaskLogEvent[] = [];
+      let droppedLines = 0;
+
+      const sendLogs = (event: TaskLogEvent) => {
+        let offset = event.offset;
+        const lines: string[] = [];
+        let firstOffset = -1;
+        for (const line of event.lines) {
+          if (offset >= sentUntil!) {
+            if (firstOffset === -1) firstOffset = offset;
+            lines.push(line);
+          }
+          offset += Buffer.byteLength(line) + 1;
+        }
+        if (lines.length === 0) return;
+
+        // Drop lines rather than buffer without bound for a slow client
+        if (stream.isBackedUp()) {
+          droppedLines += lines.length;
+          return;
+        }
+        if (droppedLines > 0) {
+          stream.send('dropped', { lines: droppedLines });
+          droppedLines = 0;
+        }
+        stream.send('logs', { ...event, lines, offset: firstOffset });
+        sentUntil = offset;
+      };
+
+      const finish = (status: TaskStatus) => {
+        stream.send('end', { status });
+        stream.close();
+      };
+
+      let unsubscribeLogs: (() => void) | undefined;
+      let unsubscribeEvents: (() => void) | undefined;
+      const cleanup = () => {
+        unsubscribeLogs?.();
+        unsubscribeEvents?.();
+        release();
+      };
+
+      try {
+        // Subscribe before reading the backlog so no line is missed
+        unsubscribeLogs = await subscribeToTaskLogs(params.id, (event) => {
+          if (sentUntil === null) pending.push(event);
+          else sendLogs(event);
+        });
+        // Remaining log lines are published before the final status
+        unsubscribeEvents = await subscribeToTaskEvents(userId, (event) => {
+          if (event.taskId === params.id && event.status && TERMINAL_TASK_STATUSES.includes(event.status)) {
+            finish(event.status);
+          }
+        });
+
+        const backlog = await tailTaskLogs(pb, params.id, tail);
+        stream.send('logs', {
+          taskId: params.id,
+          lines: backlog.content ? backlog.content.slice(0, -1).split('\n') : [],
+          offset: backlog.offset,
+          timestamp: new Date().toISOString(),
+        } satisfies TaskLogEvent);
+        sentUntil = backlog.nextOffset;
+        pending.forEach(sendLogs);
+
+        const task = await getOwnedTask(pb, params.id, userId);
+        if (TERMINAL_TASK_STATUSES.includes(task.status)) {
+          finish(task.status);
+        }
+      } catch (error) {
+        cleanup();
+        throw error;
+      }
+
+      return cleanup;
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to stream task logs');
+  }
+}
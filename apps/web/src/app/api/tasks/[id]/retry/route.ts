@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { createAndQueueTask, getOwnedTask, getTaskInputFiles, toTask } from '@/lib/tasks';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, Task, TaskStatus } from '@saassy/shared';
+
+const RETRYABLE_STATUSES: TaskStatus[] = ['failed', 'canceled', 'expired'];
+
+// POST /api/tasks/:id/retry - Run a failed, canceled or expired task again as a new
+// task, right away and without the original's deadline
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const original = await getOwnedTask(pb, params.id, userId);
+
+    if (!RETRYABLE_STATUSES.includes(original.status)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: `Only failed, canceled or expired tasks can be retried (task is ${original.status})` },
+        { status: 409 }
+      );
+    }
+
+    const task = await createAndQueueTask(pb, userId, {
+      type: original.type,
+      input: original.input,
+      resources: original.resources || undefined,
+      priority: original.priority || undefined,
+      fields: { retry_of: original.id },
+      files: await getTaskInputFiles(pb, original.id),
+    });
+
+    return NextResponse.json<ApiResponse<Task>>(
+      { success: true, data: toTask(task) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to retry task');
+  }
+}
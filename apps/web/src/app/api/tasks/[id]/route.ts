@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedTask, toTask } from '@/lib/tasks';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, Task } from '@saassy/shared';
+
+// GET /api/tasks/:id - Get a single task
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+
+    const task = await getOwnedTask(auth.pb, params.id, auth.userId);
+
+    return NextResponse.json<ApiResponse<Task>>({
+      success: true,
+      data: toTask(task),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to get task');
+  }
+}
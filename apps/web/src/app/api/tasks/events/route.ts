@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { subscribeToTaskEvents } from '@/lib/events';
+import { createEventStream } from '@/lib/sse';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse } from '@saassy/shared';
+
+export const dynamic = 'force-dynamic';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+const MAX_TASK_IDS = 100;
+
+// GET /api/tasks/events - Stream events for all of the user's tasks,
+// or only those listed in ?ids=a,b,c
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+
+    const idsParam = new URL(request.url).searchParams.get('ids');
+    const ids = idsParam ? idsParam.split(',').map((id) => id.trim()).filter(Boolean) : null;
+    if (ids && (ids.length > MAX_TASK_IDS || !ids.every((id) => POCKETBASE_ID_REGEX.test(id)))) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'ids must be up to 100 comma-separated task IDs' },
+        { status: 400 }
+      );
+    }
+    const taskIds = ids ? new Set(ids) : null;
+
+    // Events arrive on the user's own channel, so ownership is implied
+    return createEventStream(request, async (stream) => {
+      return subscribeToTaskEvents(auth.userId, (event) => {
+        if (!taskIds || taskIds.has(event.taskId)) {
+          stream.send(event.type, event);
+        }
+      });
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to stream task events');
+  }
+}
@@ -1,48 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerPocketBase, Collections } from '@/lib/pocketbase';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { createAndQueueTask, toTask, validateInputFiles } from '@/lib/tasks';
+import { ErrorCodes } from '@saassy/shared';
 import type { CreateTaskRequest, Task, ApiResponse } from '@saassy/shared';
 
 // Valid task status values
-const VALID_STATUSES = ['pending', 'queued', 'running', 'completed', 'failed', 'canceled'];
+const VALID_STATUSES = ['pending', 'queued', 'running', 'completed', 'failed', 'canceled', 'expired'];
+const TASK_TYPE_REGEX = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
 
 // GET /api/tasks - List tasks for authenticated user
 export async function GET(request: NextRequest) {
   try {
-    const pb = createServerPocketBase();
-    const authHeader = request.headers.get('authorization');
-
-    if (!authHeader?.startsWith('Bearer ')) {
+    // Accepts a PocketBase token or an sk_ API key
+    const auth = await authenticateRequest(request);
+    if (!auth) {
       return NextResponse.json<ApiResponse<null>>(
         { success: false, error: 'Unauthorized' },
         { status: 401 }
       );
     }
-
-    // Validate token with PocketBase
-    const token = authHeader.slice(7);
-    pb.authStore.save(token, null);
-    try {
-      await pb.collection('users').authRefresh();
-    } catch {
+    if (!hasScope(auth, 'tasks:read')) {
       return NextResponse.json<ApiResponse<null>>(
-        { success: false, error: 'Invalid token' },
-        { status: 401 }
-      );
-    }
-
-    const userId = pb.authStore.model?.id;
-    if (!userId) {
-      return NextResponse.json<ApiResponse<null>>(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
       );
     }
+    const { pb, userId } = auth;
 
     // Get query params
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
     const perPage = Math.min(parseInt(searchParams.get('perPage') || '20'), 100); // Cap at 100
     const status = searchParams.get('status');
+    const type = searchParams.get('type');
+    const workflow = searchParams.get('workflow');
 
     // Build filter with proper validation (prevent injection)
     let filter = `user = {:userId}`;
@@ -60,16 +54,39 @@ export async function GET(request: NextRequest) {
       filterParams.status = status;
     }
 
+    if (type) {
+      if (!TASK_TYPE_REGEX.test(type)) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: 'Invalid type value' },
+          { status: 400 }
+        );
+      }
+      filter += ` && type = {:type}`;
+      filterParams.type = type;
+    }
+
+    // A workflow's step tasks, retries included
+    if (workflow) {
+      if (!POCKETBASE_ID_REGEX.test(workflow)) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: 'Invalid workflow value' },
+          { status: 400 }
+        );
+      }
+      filter += ` && workflow = {:workflow}`;
+      filterParams.workflow = workflow;
+    }
+
     const tasks = await pb.collection(Collections.tasks).getList(page, perPage, {
-      filter,
+      // Bind filter params for safe interpolation
+      filter: pb.filter(filter, filterParams),
       sort: '-created',
-      // Pass filter params for safe interpolation
     });
 
     return NextResponse.json({
       success: true,
       data: {
-        items: tasks.items,
+        items: tasks.items.map(toTask),
         page: tasks.page,
         perPage: tasks.perPage,
         totalItems: tasks.totalItems,
@@ -85,43 +102,72 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Allowed task types - whitelist to prevent arbitrary image execution
-const ALLOWED_TASK_TYPES = ['example-worker', 'test-worker'];
+// Read a create request sent as JSON, or as multipart form data with `type`,
+// `input` and optional `resources` (JSON strings), an optional `priority`,
+// `runAt` and `expiresAt` and any number of `files` parts
+async function parseCreateRequest(
+  request: NextRequest
+): Promise<{ body: Partial<CreateTaskRequest>; files: File[] } | null> {
+  if (!request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return { body: await request.json(), files: [] };
+  }
+
+  const form = await request.formData();
+  const rawInput = form.get('input');
+  const rawResources = form.get('resources');
+  const rawPriority = form.get('priority');
+  const runAt = form.get('runAt');
+  const expiresAt = form.get('expiresAt');
+  let input: unknown = {};
+  let resources: unknown;
+  try {
+    if (typeof rawInput === 'string' && rawInput) input = JSON.parse(rawInput);
+    if (typeof rawResources === 'string' && rawResources) resources = JSON.parse(rawResources);
+  } catch {
+    return null;
+  }
+
+  return {
+    body: {
+      type: String(form.get('type') || ''),
+      input: input as CreateTaskRequest['input'],
+      resources: resources as CreateTaskRequest['resources'],
+      ...(typeof rawPriority === 'string' && rawPriority && { priority: Number(rawPriority) }),
+      ...(typeof runAt === 'string' && runAt && { runAt }),
+      ...(typeof expiresAt === 'string' && expiresAt && { expiresAt }),
+    },
+    files: form.getAll('files').filter((part): part is File => part instanceof File),
+  };
+}
 
 // POST /api/tasks - Create a new task
 export async function POST(request: NextRequest) {
   try {
-    const pb = createServerPocketBase();
-    const authHeader = request.headers.get('authorization');
-
-    if (!authHeader?.startsWith('Bearer ')) {
+    // Accepts a PocketBase token or an sk_ API key
+    const auth = await authenticateRequest(request);
+    if (!auth) {
       return NextResponse.json<ApiResponse<null>>(
         { success: false, error: 'Unauthorized' },
         { status: 401 }
       );
     }
-
-    // Validate token with PocketBase
-    const token = authHeader.slice(7);
-    pb.authStore.save(token, null);
-    try {
-      await pb.collection('users').authRefresh();
-    } catch {
+    if (!hasScope(auth, 'tasks:write')) {
       return NextResponse.json<ApiResponse<null>>(
-        { success: false, error: 'Invalid token' },
-        { status: 401 }
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
       );
     }
+    const { pb, userId } = auth;
 
-    const userId = pb.authStore.model?.id;
-    if (!userId) {
+    const parsed = await parseCreateRequest(request);
+    if (!parsed) {
       return NextResponse.json<ApiResponse<null>>(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'Input and resources must be JSON objects' },
+        { status: 400 }
       );
     }
-
-    const body: CreateTaskRequest = await request.json();
+    const { body } = parsed;
+    const files = validateInputFiles(parsed.files);
 
     // Validate input
     if (!body.type || !body.input) {
@@ -131,42 +177,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate task type against whitelist
-    if (!ALLOWED_TASK_TYPES.includes(body.type)) {
+    // Validate input is a plain object (not array, null, etc.)
+    if (typeof body.input !== 'object' || body.input === null || Array.isArray(body.input)) {
       return NextResponse.json<ApiResponse<null>>(
-        { success: false, error: 'Invalid task type' },
+        { success: false, error: 'Input must be a JSON object' },
         { status: 400 }
       );
     }
 
-    // Validate input is a plain object (not array, null, etc.)
-    if (typeof body.input !== 'object' || body.input === null || Array.isArray(body.input)) {
+    if (body.resources !== undefined &&
+        (typeof body.resources !== 'object' || body.resources === null || Array.isArray(body.resources))) {
       return NextResponse.json<ApiResponse<null>>(
-        { success: false, error: 'Input must be a JSON object' },
+        { success: false, error: 'Resources must be a JSON object' },
         { status: 400 }
       );
     }
 
-    // TODO: Check user limits (concurrent tasks, monthly quota)
-    // TODO: Queue task to worker-manager
+    if (body.priority !== undefined && typeof body.priority !== 'number') {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Priority must be a number' },
+        { status: 400 }
+      );
+    }
 
-    // Create task record with user ownership
-    const task = await pb.collection(Collections.tasks).create({
-      user: userId,
+    if ((body.runAt !== undefined && typeof body.runAt !== 'string') ||
+        (body.expiresAt !== undefined && typeof body.expiresAt !== 'string')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'runAt and expiresAt must be ISO 8601 date strings' },
+        { status: 400 }
+      );
+    }
+
+    // The task type, resources and priority are checked against the worker registry and
+    // the user's plan when creating the task
+    const task = await createAndQueueTask(pb, userId, {
       type: body.type,
-      status: 'pending',
       input: body.input,
+      resources: body.resources && { cpu: body.resources.cpu, memory: body.resources.memory },
+      priority: body.priority,
+      runAt: body.runAt,
+      expiresAt: body.expiresAt,
+      files,
     });
 
     return NextResponse.json<ApiResponse<Task>>(
-      { success: true, data: task as unknown as Task },
+      { success: true, data: toTask(task) },
       { status: 201 }
     );
   } catch (error) {
-    console.error('Error creating task:', error);
-    return NextResponse.json<ApiResponse<null>>(
-      { success: false, error: 'Failed to create task' },
-      { status: 500 }
-    );
+    return errorResponse(error, 'Failed to create task');
   }
 }
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateSession } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { redeliverWebhook } from '@/lib/worker-manager';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse } from '@saassy/shared';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+
+// POST /api/webhook-deliveries/:id/redeliver - Send a delivery again
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    // Ownership goes through the delivery's endpoint
+    const found = POCKETBASE_ID_REGEX.test(params.id)
+      ? await pb
+          .collection(Collections.webhook_deliveries)
+          .getFirstListItem(
+            pb.filter('id = {:deliveryId} && endpoint.user = {:userId}', { deliveryId: params.id, userId })
+          )
+          .catch(() => null)
+      : null;
+    if (!found) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Webhook delivery not found', code: ErrorCodes.NOT_FOUND },
+        { status: 404 }
+      );
+    }
+
+    await redeliverWebhook(params.id);
+
+    return NextResponse.json<ApiResponse<null>>({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to redeliver webhook');
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateSession } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedEndpoint, toWebhookDelivery } from '@/lib/webhooks';
+import type { ApiResponse, PaginatedResponse, WebhookDelivery } from '@saassy/shared';
+
+// GET /api/webhook-endpoints/:id/deliveries - Delivery log for an endpoint, newest first
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedEndpoint(pb, params.id, userId);
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const perPage = Math.min(parseInt(searchParams.get('perPage') || '20'), 100); // Cap at 100
+
+    const deliveries = await pb.collection(Collections.webhook_deliveries).getList(page, perPage, {
+      filter: pb.filter('endpoint = {:endpointId}', { endpointId: params.id }),
+      sort: '-created',
+    });
+
+    return NextResponse.json<ApiResponse<PaginatedResponse<WebhookDelivery>>>({
+      success: true,
+      data: {
+        items: deliveries.items.map(toWebhookDelivery),
+        page: deliveries.page,
+        perPage: deliveries.perPage,
+        totalItems: deliveries.totalItems,
+        totalPages: deliveries.totalPages,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list webhook deliveries');
+  }
+}
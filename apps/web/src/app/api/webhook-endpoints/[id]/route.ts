@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateSession } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import {
+  getOwnedEndpoint,
+  isValidWebhookEvents,
+  toWebhookEndpoint,
+  validateWebhookUrl,
+} from '@/lib/webhooks';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, WebhookEndpoint } from '@saassy/shared';
+
+// GET /api/webhook-endpoints/:id - Get an endpoint, including its signing secret
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const record = await getOwnedEndpoint(auth.pb, params.id, auth.userId);
+
+    return NextResponse.json<ApiResponse<WebhookEndpoint & { secret: string }>>({
+      success: true,
+      data: { ...toWebhookEndpoint(record), secret: record.secret },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to get webhook endpoint');
+  }
+}
+
+// PATCH /api/webhook-endpoints/:id - Update url, events, enabled or description
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedEndpoint(pb, params.id, userId);
+
+    const body = await request.json();
+    const updates: Record<string, unknown> = {};
+
+    if (body.url !== undefined) {
+      const urlError = validateWebhookUrl(body.url);
+      if (urlError) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: urlError, code: ErrorCodes.INVALID_INPUT },
+          { status: 400 }
+        );
+      }
+      updates.url = body.url;
+    }
+
+    if (body.events !== undefined) {
+      if (!isValidWebhookEvents(body.events)) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: 'events must list at least one of task.completed, task.failed', code: ErrorCodes.INVALID_INPUT },
+          { status: 400 }
+        );
+      }
+      updates.events = [...new Set(body.events)];
+    }
+
+    if (body.enabled !== undefined) {
+      updates.enabled = Boolean(body.enabled);
+    }
+
+    if (body.description !== undefined) {
+      updates.description = String(body.description).slice(0, 200);
+    }
+
+    const record = await pb.collection(Collections.webhook_endpoints).update(params.id, updates);
+
+    return NextResponse.json<ApiResponse<WebhookEndpoint>>({
+      success: true,
+      data: toWebhookEndpoint(record),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update webhook endpoint');
+  }
+}
+
+// DELETE /api/webhook-endpoints/:id - Remove an endpoint and its delivery log
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedEndpoint(pb, params.id, userId);
+    await pb.collection(Collections.webhook_endpoints).delete(params.id);
+
+    return NextResponse.json<ApiResponse<null>>({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete webhook endpoint');
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateSession } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import {
+  createWebhookSecret,
+  isValidWebhookEvents,
+  toWebhookEndpoint,
+  validateWebhookUrl,
+} from '@/lib/webhooks';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, CreateWebhookEndpointRequest, WebhookEndpoint } from '@saassy/shared';
+
+const MAX_ENDPOINTS_PER_USER = 20;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// GET /api/webhook-endpoints - List the user's webhook endpoints
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const records = await pb.collection(Collections.webhook_endpoints).getFullList({
+      filter: pb.filter('user = {:userId}', { userId }),
+      sort: '-created',
+    });
+
+    return NextResponse.json<ApiResponse<WebhookEndpoint[]>>({
+      success: true,
+      data: records.map(toWebhookEndpoint),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list webhook endpoints');
+  }
+}
+
+// POST /api/webhook-endpoints - Register an endpoint. The signing secret is returned here.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateSession(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const body: CreateWebhookEndpointRequest = await request.json();
+
+    const urlError = validateWebhookUrl(body.url);
+    if (urlError) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: urlError, code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidWebhookEvents(body.events)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'events must list at least one of task.completed, task.failed', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+
+    if (body.description !== undefined && (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH)) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'description must be at most 200 characters', code: ErrorCodes.INVALID_INPUT },
+        { status: 400 }
+      );
+    }
+
+    const existing = await pb.collection(Collections.webhook_endpoints).getList(1, 1, {
+      filter: pb.filter('user = {:userId}', { userId }),
+    });
+    if (existing.totalItems >= MAX_ENDPOINTS_PER_USER) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: `At most ${MAX_ENDPOINTS_PER_USER} webhook endpoints are allowed` },
+        { status: 409 }
+      );
+    }
+
+    const secret = createWebhookSecret();
+    const record = await pb.collection(Collections.webhook_endpoints).create({
+      user: userId,
+      url: body.url,
+      secret,
+      events: [...new Set(body.events)],
+      enabled: true,
+      description: body.description || '',
+    });
+
+    return NextResponse.json<ApiResponse<WebhookEndpoint & { secret: string }>>(
+      { success: true, data: { ...toWebhookEndpoint(record), secret } },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to create webhook endpoint');
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { deleteWorkerType, updateWorkerType } from '@/lib/worker-manager';
+import { getOwnedWorkerType, toCustomWorkerTypeBody } from '@/lib/worker-types';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, WorkerType } from '@saassy/shared';
+
+// PATCH /api/worker-types/:id - Update one of the user's custom worker images, e.g. a new digest
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedWorkerType(pb, params.id, userId);
+
+    const workerType = await updateWorkerType(params.id, toCustomWorkerTypeBody(await request.json(), true));
+
+    return NextResponse.json<ApiResponse<WorkerType>>({ success: true, data: workerType });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update worker type');
+  }
+}
+
+// DELETE /api/worker-types/:id - Remove one of the user's custom worker images
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    await getOwnedWorkerType(pb, params.id, userId);
+    await deleteWorkerType(params.id);
+
+    return NextResponse.json<ApiResponse<null>>({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete worker type');
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getUserPlan } from '@/lib/quota';
+import { createWorkerType } from '@/lib/worker-manager';
+import {
+  checkCustomWorkerTypeQuota,
+  listOwnedWorkerTypes,
+  listWorkerTypes,
+  toCustomWorkerTypeBody,
+  toCustomWorkerTypeName,
+} from '@/lib/worker-types';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, CreateWorkerTypeRequest, WorkerType } from '@saassy/shared';
+
+// GET /api/worker-types - Task types the user can run; ?owned=true lists their own images instead
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const workerTypes = request.nextUrl.searchParams.get('owned') === 'true'
+      ? await listOwnedWorkerTypes(pb, userId)
+      : await listWorkerTypes(pb, userId, await getUserPlan(pb, userId));
+
+    return NextResponse.json<ApiResponse<WorkerType[]>>({ success: true, data: workerTypes });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list worker types');
+  }
+}
+
+// POST /api/worker-types - Register a custom worker image, on plans that allow it
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const body: CreateWorkerTypeRequest = await request.json();
+
+    await checkCustomWorkerTypeQuota(pb, userId, await getUserPlan(pb, userId));
+
+    const fields = toCustomWorkerTypeBody(body, false);
+    const workerType = await createWorkerType({
+      ...fields,
+      name: toCustomWorkerTypeName(userId, fields.name!),
+      ownerId: userId,
+      allowedPlans: [],
+      pricePerTaskCents: 0,
+    });
+
+    return NextResponse.json<ApiResponse<WorkerType>>(
+      { success: true, data: workerType },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to create worker type');
+  }
+}
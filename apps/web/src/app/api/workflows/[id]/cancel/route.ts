@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedWorkflow, listWorkflowTasks, toWorkflow } from '@/lib/workflows';
+import { cancelTask } from '@/lib/worker-manager';
+import { publishTaskEvent } from '@/lib/events';
+import { ErrorCodes, TERMINAL_TASK_STATUSES } from '@saassy/shared';
+import type { ApiResponse, Workflow } from '@saassy/shared';
+
+// POST /api/workflows/:id/cancel - Cancel a running workflow and its unfinished steps
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const workflow = await getOwnedWorkflow(pb, params.id, userId);
+
+    if (workflow.status !== 'running') {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: `Workflow is already ${workflow.status}` },
+        { status: 409 }
+      );
+    }
+
+    // Marked first so the worker manager starts no more steps
+    const canceled = await pb.collection(Collections.workflows).update(workflow.id, {
+      status: 'canceled',
+      completed_at: new Date().toISOString(),
+    });
+
+    // As for canceling a single task: marked canceled before it is stopped
+    const tasks = await listWorkflowTasks(pb, [workflow.id]);
+    const unfinished = tasks.filter((task) => !TERMINAL_TASK_STATUSES.includes(task.status));
+    for (const task of unfinished) {
+      await pb.collection(Collections.tasks).update(task.id, {
+        status: 'canceled',
+        completed_at: new Date().toISOString(),
+      });
+      task.status = 'canceled';
+      await publishTaskEvent({ type: 'status', taskId: task.id, userId, status: 'canceled' });
+    }
+
+    try {
+      for (const task of unfinished) {
+        await cancelTask(task.id);
+      }
+    } catch (error) {
+      console.error('Failed to stop workflow tasks on worker manager:', error);
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Workflow was marked canceled but its tasks could not be stopped', code: ErrorCodes.WORKER_ERROR },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json<ApiResponse<Workflow>>({
+      success: true,
+      data: toWorkflow(canceled, tasks),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to cancel workflow');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { getOwnedWorkflow, listWorkflowTasks, toWorkflow } from '@/lib/workflows';
+import { ErrorCodes } from '@saassy/shared';
+import type { ApiResponse, Workflow } from '@saassy/shared';
+
+// GET /api/workflows/:id - Get a workflow with its steps' states and usage
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const workflow = await getOwnedWorkflow(pb, params.id, userId);
+    const tasks = await listWorkflowTasks(pb, [workflow.id]);
+
+    return NextResponse.json<ApiResponse<Workflow>>({
+      success: true,
+      data: toWorkflow(workflow, tasks),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to get workflow');
+  }
+}
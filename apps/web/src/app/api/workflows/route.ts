@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Collections } from '@/lib/pocketbase';
+import { authenticateRequest, hasScope } from '@/lib/auth';
+import { errorResponse } from '@/lib/errors';
+import { checkTaskQuota } from '@/lib/quota';
+import { listWorkflowTasks, parseWorkflowRequest, toWorkflow } from '@/lib/workflows';
+import { startWorkflow } from '@/lib/worker-manager';
+import { ErrorCodes, SaasyError } from '@saassy/shared';
+import type { ApiResponse, CreateWorkflowRequest, Workflow } from '@saassy/shared';
+
+const VALID_STATUSES = ['running', 'completed', 'failed', 'canceled'];
+
+// GET /api/workflows - List the user's workflows
+export async function GET(request: NextRequest) {
+  try {
+    // Workflows create tasks, so they share the tasks scopes
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:read')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:read scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const perPage = Math.min(parseInt(searchParams.get('perPage') || '20'), 50); // Cap at 50
+    const status = searchParams.get('status');
+
+    let filter = `user = {:userId}`;
+    const filterParams: Record<string, string> = { userId };
+
+    if (status) {
+      if (!VALID_STATUSES.includes(status)) {
+        return NextResponse.json<ApiResponse<null>>(
+          { success: false, error: 'Invalid status value' },
+          { status: 400 }
+        );
+      }
+      filter += ` && status = {:status}`;
+      filterParams.status = status;
+    }
+
+    const workflows = await pb.collection(Collections.workflows).getList(page, perPage, {
+      filter: pb.filter(filter, filterParams),
+      sort: '-created',
+    });
+    const tasks = await listWorkflowTasks(pb, workflows.items.map((workflow) => workflow.id));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items: workflows.items.map((workflow) =>
+          toWorkflow(workflow, tasks.filter((task) => task.workflow === workflow.id))
+        ),
+        page: workflows.page,
+        perPage: workflows.perPage,
+        totalItems: workflows.totalItems,
+        totalPages: workflows.totalPages,
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to list workflows');
+  }
+}
+
+// POST /api/workflows - Submit a workflow. Every step is checked against the
+// user's plan now; the monthly quota is checked again as each step starts.
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request);
+    if (!auth) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+    if (!hasScope(auth, 'tasks:write')) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'API key is missing the tasks:write scope', code: ErrorCodes.FORBIDDEN },
+        { status: 403 }
+      );
+    }
+    const { pb, userId } = auth;
+
+    const body: Partial<CreateWorkflowRequest> = await request.json();
+    if (!body.name || !body.steps) {
+      return NextResponse.json<ApiResponse<null>>(
+        { success: false, error: 'Missing required fields: name, steps' },
+        { status: 400 }
+      );
+    }
+
+    const { name, steps } = await parseWorkflowRequest(pb, userId, body);
+
+    const quota = await checkTaskQuota(pb, userId);
+    if (!quota.allowed) {
+      throw new SaasyError(
+        quota.reason || 'Task limit reached',
+        quota.code || ErrorCodes.TASK_LIMIT_REACHED,
+        403
+      );
+    }
+
+    const record = await pb.collection(Collections.workflows).create({
+      user: userId,
+      name,
+      status: 'running',
+      steps,
+    });
+
+    try {
+      await startWorkflow(record.id);
+    } catch (error) {
+      console.error('Failed to start workflow:', error);
+      await pb.collection(Collections.workflows).update(record.id, {
+        status: 'failed',
+        error: 'Failed to start workflow',
+        completed_at: new Date().toISOString(),
+      });
+      throw new SaasyError('Failed to start workflow', ErrorCodes.WORKER_ERROR, 502);
+    }
+
+    return NextResponse.json<ApiResponse<Workflow>>(
+      { success: true, data: toWorkflow(record, []) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'Failed to create workflow');
+  }
+}
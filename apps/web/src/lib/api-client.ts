@@ -0,0 +1,72 @@
+import type { FieldError } from '@saassy/shared';
+import { createClientPocketBase } from '@/lib/pocketbase';
+
+const pb = createClientPocketBase();
+
+// A failed API call; validation failures carry one entry per offending field
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public errors: FieldError[] = []
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+// Call the app's own API routes from the browser with the logged-in user's token.
+// FormData bodies are sent as multipart; anything else as JSON.
+export async function apiRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(!(init.body instanceof FormData) && { 'Content-Type': 'application/json' }),
+      Authorization: `Bearer ${pb.authStore.token}`,
+      ...init.headers,
+    },
+  });
+  const body = await response.json();
+  if (!body.success) throw new ApiRequestError(body.error || 'Request failed', body.errors);
+  return body.data;
+}
+
+/**
+ * Read a Server-Sent Events route with the user's token (EventSource can't
+ * send headers). Resolves when the stream ends or `signal` aborts.
+ */
+export async function streamApiEvents<T>(
+  path: string,
+  onEvent: (event: string, data: T) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const response = await fetch(path, {
+    headers: { Authorization: `Bearer ${pb.authStore.token}` },
+    signal,
+  });
+  if (!response.ok || !response.body) throw new Error('Failed to open event stream');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      buffer += value;
+      const messages = buffer.split('\n\n');
+      buffer = messages.pop() || '';
+
+      for (const message of messages) {
+        let event = 'message';
+        let data = '';
+        for (const line of message.split('\n')) {
+          if (line.startsWith('event: ')) event = line.slice(7);
+          else if (line.startsWith('data: ')) data += line.slice(6);
+        }
+        if (data) onEvent(event, JSON.parse(data));
+      }
+    }
+  } catch (error) {
+    if (!signal.aborted) throw error;
+  }
+}
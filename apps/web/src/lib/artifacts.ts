@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { RecordModel } from 'pocketbase';
+import { ARTIFACT_LIMITS, type TaskArtifact } from '@saassy/shared';
+
+const ARTIFACT_SIGNING_SECRET = process.env.ARTIFACT_SIGNING_SECRET;
+
+if (!ARTIFACT_SIGNING_SECRET) {
+  console.warn('Warning: ARTIFACT_SIGNING_SECRET is not set; artifact download links are disabled');
+}
+
+function sign(artifactId: string, expires: number): string {
+  return createHmac('sha256', ARTIFACT_SIGNING_SECRET || '')
+    .update(`${artifactId}.${expires}`)
+    .digest('hex');
+}
+
+/**
+ * Map an artifact record to the API shape with a download link that works
+ * without credentials until it expires.
+ */
+export function toTaskArtifact(record: RecordModel, origin: string): TaskArtifact {
+  const artifact: TaskArtifact = {
+    id: record.id,
+    taskId: record.task,
+    name: record.name,
+    size: record.size,
+    contentType: record.content_type || 'application/octet-stream',
+    created: record.created,
+  };
+  if (!ARTIFACT_SIGNING_SECRET) return artifact;
+
+  const expires = Math.floor(Date.now() / 1000) + ARTIFACT_LIMITS.downloadUrlTtlSeconds;
+  const url = new URL(`/api/artifacts/${record.id}/download`, origin);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', sign(record.id, expires));
+
+  return {
+    ...artifact,
+    downloadUrl: url.toString(),
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+export function verifyArtifactSignature(
+  artifactId: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  if (!ARTIFACT_SIGNING_SECRET || !expires || !signature || !/^\d+$/.test(expires)) {
+    return false;
+  }
+  if (parseInt(expires, 10) < Date.now() / 1000) return false;
+
+  const expected = Buffer.from(sign(artifactId, parseInt(expires, 10)));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
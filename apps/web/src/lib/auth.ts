@@ -0,0 +1,181 @@
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import { API_KEY_SCOPES, isValidApiKey, type ApiKey, type ApiKeyScope } from '@saassy/shared';
+import { createServerPocketBase, Collections } from '@/lib/pocketbase';
+
+// Number of leading key characters kept in clear text so users can tell keys apart
+const API_KEY_PREFIX_LENGTH = 11;
+
+// Only touch last_used_at once a minute per key to avoid a write on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = Math.max(0, parseInt(process.env.TRUSTED_PROXY_HOPS || '1', 10) || 0);
+
+export type AuthMethod = 'token' | 'api_key';
+
+export interface AuthContext {
+  pb: PocketBase;
+  userId: string;
+  method: AuthMethod;
+  scopes: ApiKeyScope[];
+  apiKeyId?: string;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Create a new "sk_" key; only the hash and prefix are ever persisted
+export function createApiKey(): { key: string; hash: string; prefix: string } {
+  const key = `sk_${randomBytes(24).toString('base64url')}`;
+  return { key, hash: hashApiKey(key), prefix: key.slice(0, API_KEY_PREFIX_LENGTH) };
+}
+
+export function toApiKey(record: RecordModel): ApiKey {
+  return {
+    id: record.id,
+    userId: record.user,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: record.scopes || [],
+    expiresAt: record.expires_at || undefined,
+    allowedIps: Array.isArray(record.allowed_ips) ? record.allowed_ips : [],
+    lastUsedAt: record.last_used_at || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+export function hasScope(auth: AuthContext, scope: ApiKeyScope): boolean {
+  return auth.scopes.includes(scope);
+}
+
+/**
+ * Resolve the user behind a request's "Authorization: Bearer ..." header.
+ * Accepts either a PocketBase auth token (all scopes) or an "sk_" API key
+ * (the key's scopes). Returns null when the request is not authenticated.
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthContext | null> {
+  const authHeader = request.headers.get('authorization');
+  if (!authHeader?.startsWith('Bearer ')) return null;
+
+  const token = authHeader.slice(7);
+  const pb = createServerPocketBase();
+
+  if (token.startsWith('sk_')) {
+    return authenticateApiKey(pb, token, getClientIp(request));
+  }
+
+  // Validate token with PocketBase
+  pb.authStore.save(token, null);
+  try {
+    await pb.collection(Collections.users).authRefresh();
+  } catch {
+    return null;
+  }
+
+  const userId = pb.authStore.model?.id;
+  if (!userId) return null;
+
+  return {
+    pb,
+    userId,
+    method: 'token',
+    scopes: Object.keys(API_KEY_SCOPES) as ApiKeyScope[],
+  };
+}
+
+// Key management requires a logged-in session; an API key can't mint or revoke keys
+export async function authenticateSession(request: NextRequest): Promise<AuthContext | null> {
+  const auth = await authenticateRequest(request);
+  return auth?.method === 'token' ? auth : null;
+}
+
+async function authenticateApiKey(
+  pb: PocketBase,
+  key: string,
+  clientIp: string | null
+): Promise<AuthContext | null> {
+  if (!isValidApiKey(key)) return null;
+
+  let record;
+  try {
+    record = await pb
+      .collection(Collections.api_keys)
+      .getFirstListItem(pb.filter('key_hash = {:hash}', { hash: hashApiKey(key) }));
+  } catch {
+    return null;
+  }
+
+  if (record.expires_at && new Date(record.expires_at) <= new Date()) {
+    return null;
+  }
+
+  const allowedIps: string[] = Array.isArray(record.allowed_ips) ? record.allowed_ips : [];
+  if (allowedIps.length > 0 && (!clientIp || !isIpAllowed(clientIp, allowedIps))) {
+    return null;
+  }
+
+  const lastUsed = record.last_used_at ? new Date(record.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+    pb.collection(Collections.api_keys)
+      .update(record.id, { last_used_at: new Date().toISOString() })
+      .catch((error) => console.error('Failed to update API key last use:', error));
+  }
+
+  return {
+    pb,
+    userId: record.user,
+    method: 'api_key',
+    scopes: record.scopes || [],
+    apiKeyId: record.id,
+  };
+}
+
+// Clients can send their own X-Forwarded-For, so only the entries appended by
+// our proxies are trusted: the one added by the outermost proxy is the client
+function getClientIp(request: NextRequest): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded && TRUSTED_PROXY_HOPS > 0) {
+    const hops = forwarded.split(',').map((entry) => entry.trim());
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || null;
+  }
+  return request.ip || null;
+}
+
+// Matches exact addresses and IPv4 CIDR ranges such as "10.0.0.0/8"
+export function isIpAllowed(ip: string, allowList: string[]): boolean {
+  const normalized = ip.replace(/^::ffff:/, '');
+
+  return allowList.some((entry) => {
+    const [range, bits] = entry.trim().split('/');
+    if (!range) return false;
+    if (bits === undefined) return range === normalized;
+
+    const rangeInt = ipv4ToInt(range);
+    const ipInt = ipv4ToInt(normalized);
+    const prefixLength = parseInt(bits, 10);
+    if (rangeInt === null || ipInt === null || !(prefixLength >= 0 && prefixLength <= 32)) {
+      return false;
+    }
+
+    const mask = prefixLength === 0 ? 0 : (~0 << (32 - prefixLength)) >>> 0;
+    return (rangeInt & mask) >>> 0 === (ipInt & mask) >>> 0;
+  });
+}
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let result = 0;
+  for (const part of parts) {
+    const octet = Number(part);
+    if (!/^\d{1,3}$/.test(part) || octet > 255) return null;
+    result = result * 256 + octet;
+  }
+  return result;
+}
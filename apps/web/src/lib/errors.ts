@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { SaasyError, type ApiResponse } from '@saassy/shared';
+
+// Turn an error thrown in a route handler into a JSON response.
+// SaasyErrors carry their own status and code; anything else is a 500.
+export function errorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof SaasyError) {
+    return NextResponse.json<ApiResponse<null>>(
+      { success: false, error: error.message, code: error.code, errors: error.errors },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json<ApiResponse<null>>(
+    { success: false, error: fallbackMessage },
+    { status: 500 }
+  );
+}
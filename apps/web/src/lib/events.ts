@@ -0,0 +1,100 @@
+import Redis from 'ioredis';
+import { EVENT_CHANNELS, type TaskEvent, type TaskLogEvent } from '@saassy/shared';
+
+const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
+
+type Listener<T> = (message: T) => void;
+
+// One subscriber connection per server process, fanned out to SSE streams
+let subscriber: Redis | null = null;
+let publisher: Redis | null = null;
+const listeners = new Map<string, Set<Listener<unknown>>>();
+
+function channelFor(userId: string): string {
+  return `${EVENT_CHANNELS.taskEvents}:${userId}`;
+}
+
+function getSubscriber(): Redis {
+  if (subscriber) return subscriber;
+
+  subscriber = new Redis(REDIS_URL, { maxRetriesPerRequest: null });
+  subscriber.on('error', (error) => {
+    console.error('Task event subscriber error:', error.message);
+  });
+  subscriber.on('message', (channel: string, message: string) => {
+    const channelListeners = listeners.get(channel);
+    if (!channelListeners) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(message);
+    } catch {
+      return;
+    }
+    for (const listener of channelListeners) {
+      listener(parsed);
+    }
+  });
+
+  return subscriber;
+}
+
+async function subscribe<T>(channel: string, listener: Listener<T>): Promise<() => void> {
+  const channelListeners = listeners.get(channel);
+  if (channelListeners) {
+    channelListeners.add(listener as Listener<unknown>);
+  } else {
+    listeners.set(channel, new Set([listener as Listener<unknown>]));
+    await getSubscriber().subscribe(channel);
+  }
+
+  return () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+
+    current.delete(listener as Listener<unknown>);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      getSubscriber()
+        .unsubscribe(channel)
+        .catch((error) => console.error(`Failed to unsubscribe from ${channel}:`, error));
+    }
+  };
+}
+
+/**
+ * Listen for events on all of a user's tasks. Returns an unsubscribe function.
+ */
+export async function subscribeToTaskEvents(
+  userId: string,
+  listener: Listener<TaskEvent>
+): Promise<() => void> {
+  return subscribe(channelFor(userId), listener);
+}
+
+/**
+ * Listen for a running task's log lines. Returns an unsubscribe function.
+ */
+export async function subscribeToTaskLogs(
+  taskId: string,
+  listener: Listener<TaskLogEvent>
+): Promise<() => void> {
+  return subscribe(`${EVENT_CHANNELS.taskLogs}:${taskId}`, listener);
+}
+
+// For state changes made by the web app itself, e.g. canceling a queued task
+export async function publishTaskEvent(event: Omit<TaskEvent, 'timestamp'>): Promise<void> {
+  if (!publisher) {
+    publisher = new Redis(REDIS_URL, { maxRetriesPerRequest: null });
+    publisher.on('error', (error) => {
+      console.error('Task event publisher error:', error.message);
+    });
+  }
+
+  const payload: TaskEvent = { ...event, timestamp: new Date().toISOString() };
+  try {
+    await publisher.publish(channelFor(event.userId), JSON.stringify(payload));
+  } catch (error) {
+    console.error(`Failed to publish event for task ${event.taskId}:`, error);
+  }
+}
@@ -7,6 +7,15 @@ export const Collections = {
   subscriptions: 'subscriptions',
   tasks: 'tasks',
   usage_records: 'usage_records',
+  task_logs: 'task_logs',
+  task_artifacts: 'task_artifacts',
+  task_input_files: 'task_input_files',
+  api_keys: 'api_keys',
+  webhook_endpoints: 'webhook_endpoints',
+  webhook_deliveries: 'webhook_deliveries',
+  worker_types: 'worker_types',
+  schedules: 'schedules',
+  workflows: 'workflows',
 } as const;
 
 export function createServerPocketBase(): PocketBase {
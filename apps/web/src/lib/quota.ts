@@ -0,0 +1,38 @@
+import type PocketBase from 'pocketbase';
+import { canCreateTask, type PlanType } from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+
+const VALID_PLANS: PlanType[] = ['free', 'starter', 'pro', 'enterprise'];
+
+export async function getUserPlan(pb: PocketBase, userId: string): Promise<PlanType> {
+  const subscriptions = await pb.collection(Collections.subscriptions).getList(1, 1, {
+    filter: pb.filter('user = {:userId} && status = "active"', { userId }),
+    sort: '-created',
+  });
+
+  const plan = subscriptions.items[0]?.plan;
+  return VALID_PLANS.includes(plan) ? (plan as PlanType) : 'free';
+}
+
+// Check the user's plan limits against this month's usage, counting tasks
+// that haven't finished yet: usage is only recorded once they do
+export async function checkTaskQuota(pb: PocketBase, userId: string) {
+  const plan = await getUserPlan(pb, userId);
+
+  const now = new Date();
+  const usage = await pb.collection(Collections.usage_records).getList(1, 1, {
+    filter: pb.filter('user = {:userId} && period = {:period}', {
+      userId,
+      period: now.toISOString().slice(0, 7),
+    }),
+  });
+  const unfinished = await pb.collection(Collections.tasks).getList(1, 1, {
+    filter: pb.filter(
+      'user = {:userId} && created >= {:periodStart} && (status = "pending" || status = "queued" || status = "running")',
+      { userId, periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)) }
+    ),
+  });
+  const currentMonthTasks = (usage.items[0]?.task_count || 0) + unfinished.totalItems;
+
+  return { plan, ...canCreateTask(plan, currentMonthTasks) };
+}
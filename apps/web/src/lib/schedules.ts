@@ -0,0 +1,140 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import {
+  ErrorCodes,
+  SCHEDULE_OVERLAP_POLICIES,
+  SaasyError,
+  type CreateScheduleRequest,
+  type Schedule,
+} from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+import type { NewTask } from '@/lib/tasks';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+const MAX_NAME_LENGTH = 100;
+
+// Record fields a change to which needs the task re-checked, or the next run recomputed
+export const SCHEDULE_TASK_FIELDS = ['type', 'input', 'resources', 'priority'];
+export const SCHEDULE_TIMING_FIELDS = ['cron', 'timezone', 'enabled'];
+
+export function toSchedule(record: RecordModel): Schedule {
+  return {
+    id: record.id,
+    userId: record.user,
+    name: record.name,
+    cron: record.cron,
+    timezone: record.timezone,
+    type: record.type,
+    input: record.input,
+    resources: record.resources || undefined,
+    priority: record.priority || undefined,
+    enabled: Boolean(record.enabled),
+    overlapPolicy: record.overlap_policy,
+    nextRunAt: record.next_run_at || undefined,
+    lastRunAt: record.last_run_at || undefined,
+    lastTaskId: record.last_task || undefined,
+    lastError: record.last_error || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+// The task a schedule creates on each run
+export function toScheduledTask(record: Record<string, any>): Pick<NewTask, 'type' | 'input' | 'resources' | 'priority'> {
+  return {
+    type: record.type,
+    input: record.input,
+    resources: record.resources || undefined,
+    priority: record.priority || undefined,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(message: string): SaasyError {
+  return new SaasyError(message, ErrorCodes.INVALID_INPUT, 400);
+}
+
+/**
+ * Record fields for the schedule fields present in a create or update
+ * request. The cron expression and timezone are checked by the worker
+ * manager, the task by validateNewTask.
+ */
+export function parseScheduleRequest(body: Partial<CreateScheduleRequest>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_NAME_LENGTH) {
+      throw invalid(`name must be 1 to ${MAX_NAME_LENGTH} characters`);
+    }
+    fields.name = body.name.trim();
+  }
+
+  if (body.cron !== undefined) {
+    if (typeof body.cron !== 'string') throw invalid('cron must be a string');
+    fields.cron = body.cron.trim().replace(/\s+/g, ' ');
+  }
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== 'string') throw invalid('timezone must be a string');
+    fields.timezone = body.timezone;
+  }
+
+  if (body.type !== undefined) {
+    if (typeof body.type !== 'string') throw invalid('type must be a string');
+    fields.type = body.type;
+  }
+
+  if (body.input !== undefined) {
+    if (!isPlainObject(body.input)) throw invalid('Input must be a JSON object');
+    fields.input = body.input;
+  }
+
+  if (body.resources !== undefined) {
+    if (body.resources !== null && !isPlainObject(body.resources)) {
+      throw invalid('Resources must be a JSON object');
+    }
+    fields.resources = body.resources && { cpu: body.resources.cpu, memory: body.resources.memory };
+  }
+
+  if (body.priority !== undefined) {
+    if (body.priority !== null && typeof body.priority !== 'number') throw invalid('Priority must be a number');
+    fields.priority = body.priority;
+  }
+
+  if (body.enabled !== undefined) {
+    fields.enabled = Boolean(body.enabled);
+  }
+
+  if (body.overlapPolicy !== undefined) {
+    if (!Object.keys(SCHEDULE_OVERLAP_POLICIES).includes(body.overlapPolicy)) {
+      throw invalid(`overlapPolicy must be one of ${Object.keys(SCHEDULE_OVERLAP_POLICIES).join(', ')}`);
+    }
+    fields.overlap_policy = body.overlapPolicy;
+  }
+
+  return fields;
+}
+
+/**
+ * Fetch a schedule, treating schedules owned by other users as missing.
+ */
+export async function getOwnedSchedule(
+  pb: PocketBase,
+  scheduleId: string,
+  userId: string
+): Promise<RecordModel> {
+  if (!POCKETBASE_ID_REGEX.test(scheduleId)) {
+    throw new SaasyError('Schedule not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  try {
+    return await pb
+      .collection(Collections.schedules)
+      .getFirstListItem(pb.filter('id = {:scheduleId} && user = {:userId}', { scheduleId, userId }));
+  } catch {
+    throw new SaasyError('Schedule not found', ErrorCodes.NOT_FOUND, 404);
+  }
+}
@@ -0,0 +1,84 @@
+import type { NextRequest } from 'next/server';
+
+// Keeps proxies from closing idle streams
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// Bytes queued for a slow client before the stream reports it is backed up
+const HIGH_WATER_MARK_BYTES = 256 * 1024;
+
+export interface EventStreamWriter {
+  send(event: string, data: unknown): void;
+  // True while the client is reading slower than events are sent
+  isBackedUp(): boolean;
+  close(): void;
+}
+
+/**
+ * Build a Server-Sent Events response. `setup` runs once the stream is open
+ * and may return a cleanup function, called when either side closes it.
+ */
+export function createEventStream(
+  request: NextRequest,
+  setup: (writer: EventStreamWriter) => Promise<(() => void) | void>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup: (() => void) | void;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      const writer: EventStreamWriter = {
+        send(event, data) {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        },
+        isBackedUp() {
+          return (controller.desiredSize ?? 0) <= 0;
+        },
+        close,
+      };
+
+      request.signal.addEventListener('abort', close);
+      heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': ping\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      try {
+        cleanup = await setup(writer);
+        // setup may have closed the stream before returning its cleanup
+        if (closed) cleanup?.();
+      } catch (error) {
+        console.error('Event stream setup failed:', error);
+        writer.send('error', { error: 'Stream failed' });
+        close();
+      }
+    },
+    cancel() {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      cleanup?.();
+    },
+  }, new ByteLengthQueuingStrategy({ highWaterMark: HIGH_WATER_MARK_BYTES }));
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,115 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import type { TaskLogSlice } from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+
+// Chunks fetched per request when walking back from the end of a log
+const TAIL_BATCH_SIZE = 10;
+// Live followers allowed per task on each server process
+const MAX_FOLLOWERS_PER_TASK = 10;
+
+const followers = new Map<string, number>();
+
+/**
+ * Reserve a live follower slot for a task. Returns a release function, or
+ * null when the task already has the maximum number of followers.
+ */
+export function acquireLogFollower(taskId: string): (() => void) | null {
+  const count = followers.get(taskId) || 0;
+  if (count >= MAX_FOLLOWERS_PER_TASK) return null;
+
+  followers.set(taskId, count + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = (followers.get(taskId) || 1) - 1;
+    if (remaining > 0) followers.set(taskId, remaining);
+    else followers.delete(taskId);
+  };
+}
+
+async function getLastChunk(pb: PocketBase, taskId: string): Promise<RecordModel | null> {
+  const result = await pb.collection(Collections.task_logs).getList(1, 1, {
+    filter: pb.filter('task = {:taskId}', { taskId }),
+    sort: '-offset',
+  });
+  return result.items[0] || null;
+}
+
+/**
+ * Read `limit` bytes of a task's logs starting at byte `offset`.
+ */
+export async function readTaskLogs(
+  pb: PocketBase,
+  taskId: string,
+  offset: number,
+  limit: number
+): Promise<TaskLogSlice> {
+  const end = offset + limit;
+  const [chunks, last] = await Promise.all([
+    pb.collection(Collections.task_logs).getFullList({
+      filter: pb.filter('task = {:taskId} && end_offset > {:offset} && offset < {:end}', {
+        taskId,
+        offset,
+        end,
+      }),
+      sort: 'offset',
+    }),
+    getLastChunk(pb, taskId),
+  ]);
+
+  const buffer = Buffer.concat(chunks.map((chunk) => Buffer.from(chunk.content)));
+  const start = chunks.length > 0 ? offset - chunks[0]!.offset : 0;
+  const content = buffer.subarray(Math.max(0, start), Math.max(0, start) + limit).toString('utf8');
+  const totalBytes = last?.end_offset || 0;
+
+  return {
+    content,
+    offset: Math.min(offset, totalBytes),
+    nextOffset: Math.min(end, totalBytes),
+    totalBytes,
+    truncated: Boolean(last?.truncated),
+  };
+}
+
+/**
+ * Read the last `lines` lines of a task's logs.
+ */
+export async function tailTaskLogs(
+  pb: PocketBase,
+  taskId: string,
+  lines: number
+): Promise<TaskLogSlice> {
+  const chunks: RecordModel[] = [];
+  let lineCount = 0;
+
+  // Walk back through the chunks until enough lines are collected
+  for (let page = 1; lineCount <= lines; page++) {
+    const result = await pb.collection(Collections.task_logs).getList(page, TAIL_BATCH_SIZE, {
+      filter: pb.filter('task = {:taskId}', { taskId }),
+      sort: '-offset',
+    });
+    for (const chunk of result.items) {
+      chunks.unshift(chunk);
+      lineCount += (chunk.content.match(/\n/g) || []).length;
+      if (lineCount > lines) break;
+    }
+    if (page >= result.totalPages) break;
+  }
+
+  const last = chunks[chunks.length - 1];
+  const totalBytes = last?.end_offset || 0;
+  // Chunks always end with a newline, so the final split element is empty
+  const allLines = chunks.map((chunk) => chunk.content).join('').split('\n').slice(0, -1);
+  const tail = allLines.slice(-lines);
+  const content = tail.length > 0 ? tail.join('\n') + '\n' : '';
+
+  return {
+    content,
+    offset: totalBytes - Buffer.byteLength(content),
+    nextOffset: totalBytes,
+    totalBytes,
+    truncated: Boolean(last?.truncated),
+  };
+}
@@ -0,0 +1,287 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import {
+  ErrorCodes,
+  INPUT_LIMITS,
+  SaasyError,
+  resolveTaskPriority,
+  resolveTaskResources,
+  resolveTaskTiming,
+  toInputFileName,
+  validateJsonSchema,
+  type Task,
+  type TaskEvent,
+  type TaskInput,
+  type TaskResourceRequest,
+} from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+import { checkTaskQuota, getUserPlan } from '@/lib/quota';
+import { startTask } from '@/lib/worker-manager';
+import { getAvailableWorkerType } from '@/lib/worker-types';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+
+export interface NewTask {
+  type: string;
+  input: TaskInput;
+  // CPU and memory to ask for instead of the worker type's defaults
+  resources?: TaskResourceRequest;
+  // Queue priority, up to the plan's maxPriority (the default)
+  priority?: number;
+  // Don't start before runAt; expire if not started by expiresAt
+  runAt?: string;
+  expiresAt?: string;
+  // Extra task record fields, e.g. the task a retry was cloned from
+  fields?: Record<string, unknown>;
+  // Uploaded input files, mounted for the worker under /input/files
+  files?: File[];
+}
+
+/**
+ * Check uploaded input files against INPUT_LIMITS and return them with
+ * names that are safe to use as paths inside the container.
+ */
+export function validateInputFiles(files: File[]): File[] {
+  if (files.length > INPUT_LIMITS.maxFiles) {
+    throw new SaasyError(
+      `At most ${INPUT_LIMITS.maxFiles} input files are allowed`,
+      ErrorCodes.INVALID_INPUT,
+      400
+    );
+  }
+
+  let totalBytes = 0;
+  const names = new Set<string>();
+  const validated = files.map((file) => {
+    if (file.size > INPUT_LIMITS.maxFileBytes) {
+      throw new SaasyError(
+        `Input file ${file.name} is larger than ${INPUT_LIMITS.maxFileBytes} bytes`,
+        ErrorCodes.INVALID_INPUT,
+        400
+      );
+    }
+    totalBytes += file.size;
+
+    const name = toInputFileName(file.name);
+    if (name.startsWith('.') || names.has(name)) {
+      throw new SaasyError(`Invalid or duplicate input file name: ${file.name}`, ErrorCodes.INVALID_INPUT, 400);
+    }
+    names.add(name);
+    return new File([file], name, { type: file.type });
+  });
+
+  if (totalBytes > INPUT_LIMITS.maxTotalBytes) {
+    throw new SaasyError(
+      `Input files may total at most ${INPUT_LIMITS.maxTotalBytes} bytes`,
+      ErrorCodes.INVALID_INPUT,
+      400
+    );
+  }
+
+  return validated;
+}
+
+/**
+ * Download a task's uploaded input files, e.g. to attach them to a retry.
+ */
+export async function getTaskInputFiles(pb: PocketBase, taskId: string): Promise<File[]> {
+  const records = await pb.collection(Collections.task_input_files).getFullList({
+    filter: pb.filter('task = {:taskId}', { taskId }),
+  });
+  if (records.length === 0) return [];
+
+  const token = await pb.files.getToken();
+  return Promise.all(
+    records.map(async (record) => {
+      const response = await fetch(pb.files.getUrl(record, record.file, { token }));
+      if (!response.ok) {
+        throw new Error(`Failed to download input file ${record.name}: ${response.status}`);
+      }
+      return new File([await response.blob()], record.name, { type: record.content_type });
+    })
+  );
+}
+
+/**
+ * Fetch a task, treating tasks owned by other users as missing.
+ */
+export async function getOwnedTask(
+  pb: PocketBase,
+  taskId: string,
+  userId: string
+): Promise<RecordModel> {
+  if (!POCKETBASE_ID_REGEX.test(taskId)) {
+    throw new SaasyError('Task not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  try {
+    return await pb
+      .collection(Collections.tasks)
+      .getFirstListItem(pb.filter('id = {:taskId} && user = {:userId}', { taskId, userId }));
+  } catch {
+    throw new SaasyError('Task not found', ErrorCodes.NOT_FOUND, 404);
+  }
+}
+
+/**
+ * Check a task's type, resources, priority and input against the worker
+ * registry and the user's plan, without counting it against the quota.
+ * checkInput is off for input only known once the task is created, e.g. a
+ * workflow step's that refers to other steps' outputs.
+ */
+export async function validateNewTask(
+  pb: PocketBase,
+  userId: string,
+  { type, input, resources, priority }: Pick<NewTask, 'type' | 'input' | 'resources' | 'priority'>,
+  { checkInput = true }: { checkInput?: boolean } = {}
+): Promise<void> {
+  // Task types come from the worker registry; some are limited to certain plans
+  const plan = await getUserPlan(pb, userId);
+  const workerType = await getAvailableWorkerType(pb, userId, type, plan);
+
+  // The worker manager applies the same check; doing it here gives a clear 4xx
+  const fit = resolveTaskResources(plan, workerType, resources);
+  if (!fit.allowed) {
+    throw new SaasyError(
+      fit.reason || 'Requested resources are not available',
+      fit.code || ErrorCodes.INVALID_INPUT,
+      fit.code === ErrorCodes.FORBIDDEN ? 403 : 400
+    );
+  }
+  const queuePriority = resolveTaskPriority(plan, priority);
+  if (!queuePriority.allowed) {
+    throw new SaasyError(
+      queuePriority.reason || 'Requested priority is not available',
+      queuePriority.code || ErrorCodes.INVALID_INPUT,
+      queuePriority.code === ErrorCodes.FORBIDDEN ? 403 : 400
+    );
+  }
+
+  // Reject input that breaks the worker's contract before it costs a container
+  if (checkInput && workerType.inputSchema) {
+    const errors = validateJsonSchema(workerType.inputSchema, input);
+    if (errors.length > 0) {
+      throw new SaasyError('Input does not match the task type schema', ErrorCodes.INVALID_INPUT, 400, errors);
+    }
+  }
+}
+
+/**
+ * Create a task after checking the worker type and the user's plan limits and
+ * hand it to the worker manager, which moves it to "queued".
+ */
+export async function createAndQueueTask(
+  pb: PocketBase,
+  userId: string,
+  { type, input, resources, priority, runAt, expiresAt, fields = {}, files = [] }: NewTask
+): Promise<RecordModel> {
+  await validateNewTask(pb, userId, { type, input, resources, priority });
+
+  const timing = resolveTaskTiming(runAt, expiresAt);
+  if (!timing.allowed) {
+    throw new SaasyError(timing.reason || 'Invalid runAt or expiresAt', timing.code || ErrorCodes.INVALID_INPUT, 400);
+  }
+
+  // Check the monthly quota; tasks over the concurrency limit are queued
+  const quota = await checkTaskQuota(pb, userId);
+  if (!quota.allowed) {
+    throw new SaasyError(
+      quota.reason || 'Task limit reached',
+      quota.code || ErrorCodes.TASK_LIMIT_REACHED,
+      403
+    );
+  }
+
+  // Create task record with user ownership
+  const task = await pb.collection(Collections.tasks).create({
+    ...fields,
+    user: userId,
+    type,
+    status: 'pending',
+    input,
+    resources: resources || null,
+    priority: priority ?? null,
+    run_at: timing.runAt || '',
+    expires_at: timing.expiresAt || '',
+  });
+
+  // Attach input files, then queue task to worker-manager
+  try {
+    for (const file of files) {
+      const form = new FormData();
+      form.append('task', task.id);
+      form.append('user', userId);
+      form.append('name', file.name);
+      form.append('size', String(file.size));
+      form.append('content_type', file.type || 'application/octet-stream');
+      form.append('file', file);
+      await pb.collection(Collections.task_input_files).create(form);
+    }
+
+    await startTask({
+      taskId: task.id,
+      userId,
+      type,
+      input,
+      resources,
+      priority,
+      runAt: timing.runAt,
+      expiresAt: timing.expiresAt,
+    });
+  } catch (error) {
+    console.error('Failed to queue task:', error);
+    // Rejections from the worker manager, e.g. invalid input, are passed on
+    const rejection = error instanceof SaasyError ? error : null;
+    await pb.collection(Collections.tasks).update(task.id, {
+      status: 'failed',
+      error: rejection?.message || 'Failed to queue task',
+      completed_at: new Date().toISOString(),
+    });
+    throw rejection || new SaasyError('Failed to queue task', ErrorCodes.WORKER_ERROR, 502);
+  }
+
+  return { ...task, status: 'queued' };
+}
+
+// A task record in the shape the API returns
+export function toTask(record: RecordModel): Task {
+  return {
+    id: record.id,
+    userId: record.user,
+    type: record.type,
+    status: record.status,
+    input: record.input,
+    output: record.output || undefined,
+    error: record.error || undefined,
+    workerId: record.worker_id || undefined,
+    startedAt: record.started_at || undefined,
+    completedAt: record.completed_at || undefined,
+    resourceUsage: record.resource_usage || undefined,
+    progress: record.progress || undefined,
+    retryOf: record.retry_of || undefined,
+    scheduleId: record.schedule || undefined,
+    workflowId: record.workflow || undefined,
+    workflowStep: record.workflow_step || undefined,
+    resources: record.resources || undefined,
+    priority: record.priority || undefined,
+    runAt: record.run_at || undefined,
+    expiresAt: record.expires_at || undefined,
+    outputErrors: record.output_errors || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+// Current state of a task as a status event, sent when a stream opens
+export function toTaskEvent(task: RecordModel): TaskEvent {
+  return {
+    type: 'status',
+    taskId: task.id,
+    userId: task.user,
+    status: task.status,
+    progress: task.progress || undefined,
+    output: task.output || undefined,
+    error: task.error || undefined,
+    timestamp: new Date().toISOString(),
+  };
+}
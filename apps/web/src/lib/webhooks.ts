@@ -0,0 +1,107 @@
+import { randomBytes } from 'crypto';
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import {
+  ErrorCodes,
+  SaasyError,
+  WEBHOOK_EVENTS,
+  isInternalHostname,
+  isPrivateAddress,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+const MAX_URL_LENGTH = 2048;
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('base64url')}`;
+}
+
+export function toWebhookEndpoint(record: RecordModel): WebhookEndpoint {
+  return {
+    id: record.id,
+    userId: record.user,
+    url: record.url,
+    events: record.events || [],
+    enabled: Boolean(record.enabled),
+    description: record.description || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+export function toWebhookDelivery(record: RecordModel): WebhookDelivery {
+  return {
+    id: record.id,
+    endpointId: record.endpoint,
+    taskId: record.task,
+    event: record.event,
+    status: record.status,
+    attempts: record.attempts || 0,
+    responseStatus: record.response_status || undefined,
+    error: record.error || undefined,
+    deliveredAt: record.delivered_at || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+// Returns an error message, or null when the URL can receive webhooks
+export function validateWebhookUrl(url: unknown): string | null {
+  if (typeof url !== 'string' || url.length > MAX_URL_LENGTH) {
+    return 'url must be a valid URL';
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'url must be a valid URL';
+  }
+
+  // Plain http is only allowed outside production
+  const allowedProtocols = process.env.NODE_ENV === 'production' ? ['https:'] : ['https:', 'http:'];
+  if (!allowedProtocols.includes(parsed.protocol)) {
+    return `url must use ${allowedProtocols.join(' or ').replace(/:/g, '')}`;
+  }
+
+  // Deliveries come from inside our network; they must not reach it. Names
+  // that resolve to private addresses are caught when delivering.
+  if (isInternalHostname(parsed.hostname) || isPrivateAddress(parsed.hostname)) {
+    return 'url must not point to a private or internal address';
+  }
+
+  return null;
+}
+
+export function isValidWebhookEvents(events: unknown): events is WebhookEventType[] {
+  return (
+    Array.isArray(events) &&
+    events.length > 0 &&
+    events.every((event) => WEBHOOK_EVENTS.includes(event))
+  );
+}
+
+/**
+ * Fetch a webhook endpoint, treating endpoints owned by other users as missing.
+ */
+export async function getOwnedEndpoint(
+  pb: PocketBase,
+  endpointId: string,
+  userId: string
+): Promise<RecordModel> {
+  if (!POCKETBASE_ID_REGEX.test(endpointId)) {
+    throw new SaasyError('Webhook endpoint not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  try {
+    return await pb
+      .collection(Collections.webhook_endpoints)
+      .getFirstListItem(pb.filter('id = {:endpointId} && user = {:userId}', { endpointId, userId }));
+  } catch {
+    throw new SaasyError('Webhook endpoint not found', ErrorCodes.NOT_FOUND, 404);
+  }
+}
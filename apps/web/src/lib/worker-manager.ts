@@ -0,0 +1,107 @@
+import {
+  ErrorCodes,
+  SaasyError,
+  type TaskResourceRequest,
+  type WorkerType,
+  type WorkerTypeInput,
+} from '@saassy/shared';
+
+const WORKER_MANAGER_URL = process.env.WORKER_MANAGER_URL || 'http://localhost:3001';
+const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY;
+
+if (!INTERNAL_API_KEY) {
+  console.warn('Warning: INTERNAL_API_KEY is not set');
+}
+
+export interface StartTaskParams {
+  taskId: string;
+  userId: string;
+  type: string;
+  input: Record<string, unknown>;
+  resources?: TaskResourceRequest;
+  priority?: number;
+  runAt?: string;
+  expiresAt?: string;
+}
+
+async function callWorkerManager<T>(path: string, init: RequestInit): Promise<T> {
+  const response = await fetch(`${WORKER_MANAGER_URL}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': INTERNAL_API_KEY || '',
+      ...init.headers,
+    },
+    cache: 'no-store',
+  });
+
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message = body.error || `Worker manager responded with ${response.status}`;
+    // Pass on rejections of what was sent, e.g. an invalid worker type
+    if (response.status === 400 || response.status === 409) {
+      throw new SaasyError(message, ErrorCodes.INVALID_INPUT, response.status, body.errors);
+    }
+    // Plan rejections, e.g. resources above the plan's limits
+    if (response.status === 403) {
+      throw new SaasyError(message, ErrorCodes.FORBIDDEN, 403);
+    }
+    throw new Error(message);
+  }
+
+  return body as T;
+}
+
+// Queue a task for execution on the worker manager
+export async function startTask(params: StartTaskParams): Promise<{ jobId: string }> {
+  return callWorkerManager('/internal/tasks/start', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+// Remove a task from the queue and stop its container if it is running
+export async function cancelTask(taskId: string): Promise<void> {
+  await callWorkerManager(`/internal/tasks/${taskId}`, { method: 'DELETE' });
+}
+
+// Check a schedule's cron expression and timezone; returns when they next match
+export async function getScheduleNextRun(cron: string, timezone: string): Promise<string> {
+  const { nextRunAt } = await callWorkerManager<{ nextRunAt: string }>('/internal/schedules/next-run', {
+    method: 'POST',
+    body: JSON.stringify({ cron, timezone }),
+  });
+  return nextRunAt;
+}
+
+// Have the worker manager start a new workflow's first steps
+export async function startWorkflow(workflowId: string): Promise<void> {
+  await callWorkerManager(`/internal/workflows/${workflowId}/start`, { method: 'POST' });
+}
+
+// Queue a webhook delivery to be sent again
+export async function redeliverWebhook(deliveryId: string): Promise<void> {
+  await callWorkerManager(`/internal/webhooks/deliveries/${deliveryId}/redeliver`, {
+    method: 'POST',
+  });
+}
+
+// Register a worker type; credentials are encrypted by the worker manager
+export async function createWorkerType(body: Partial<WorkerTypeInput>): Promise<WorkerType> {
+  return callWorkerManager('/internal/worker-types', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+export async function updateWorkerType(id: string, body: Partial<WorkerTypeInput>): Promise<WorkerType> {
+  return callWorkerManager(`/internal/worker-types/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+}
+
+export async function deleteWorkerType(id: string): Promise<void> {
+  await callWorkerManager(`/internal/worker-types/${id}`, { method: 'DELETE' });
+}
@@ -0,0 +1,214 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import {
+  ErrorCodes,
+  PLAN_LIMITS,
+  SaasyError,
+  WORKER_DEFAULTS,
+  type CreateWorkerTypeRequest,
+  type PlanType,
+  type WorkerType,
+  type WorkerTypeInput,
+} from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+
+// What users may set on their own worker types; the worker manager validates the values
+const CUSTOM_WORKER_TYPE_FIELDS = [
+  'name', 'image', 'imageDigest', 'description', 'registryAuth', 'signatureKey',
+  'cpuLimit', 'memoryLimit', 'timeoutSeconds', 'inputSchema', 'outputSchema', 'security',
+] as const;
+const CUSTOM_SECURITY_KEYS = ['user', 'tmpfsSizeMb', 'network', 'egressAllowlist'];
+
+export function toWorkerType(record: RecordModel): WorkerType {
+  return {
+    id: record.id,
+    name: record.name,
+    image: record.image,
+    description: record.description || undefined,
+    enabled: Boolean(record.enabled),
+    cpuLimit: record.cpu_limit,
+    memoryLimit: record.memory_limit,
+    timeoutSeconds: record.timeout_seconds,
+    allowedPlans: record.allowed_plans || [],
+    pricePerTaskCents: record.price_per_task_cents || 0,
+    inputSchema: record.input_schema || undefined,
+    outputSchema: record.output_schema || undefined,
+    ownerId: record.owner || undefined,
+    imageDigest: record.image_digest || undefined,
+    pullPolicy: record.owner ? 'always' : record.pull_policy || 'if-not-present',
+    hasRegistryAuth: Boolean(record.registry_auth),
+    signatureKey: record.signature_key || undefined,
+    maxImageMb: record.max_image_mb || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+// Users' own types are named after them so they can't claim names from, or
+// find out the names of, each other's types
+export function toCustomWorkerTypeName(userId: string, name: string): string {
+  return `${userId}-${name}`;
+}
+
+function isPlanAllowed(workerType: WorkerType, plan: PlanType): boolean {
+  return workerType.allowedPlans.length === 0 || workerType.allowedPlans.includes(plan);
+}
+
+/**
+ * Enabled worker types a user can run: the platform's types their plan
+ * includes, and their own images.
+ */
+export async function listWorkerTypes(pb: PocketBase, userId: string, plan: PlanType): Promise<WorkerType[]> {
+  const records = await pb.collection(Collections.worker_types).getFullList({
+    filter: pb.filter('enabled = true && (owner = "" || owner = {:userId})', { userId }),
+    sort: 'name',
+  });
+  return records.map(toWorkerType).filter((workerType) =>
+    workerType.ownerId ? PLAN_LIMITS[plan].maxCustomWorkerTypes > 0 : isPlanAllowed(workerType, plan)
+  );
+}
+
+// The user's own worker types, including disabled ones
+export async function listOwnedWorkerTypes(pb: PocketBase, userId: string): Promise<WorkerType[]> {
+  const records = await pb.collection(Collections.worker_types).getFullList({
+    filter: pb.filter('owner = {:userId}', { userId }),
+    sort: 'name',
+  });
+  return records.map(toWorkerType);
+}
+
+/**
+ * Fetch one of the user's own worker types, treating platform types and
+ * other users' types as missing.
+ */
+export async function getOwnedWorkerType(pb: PocketBase, id: string, userId: string): Promise<WorkerType> {
+  if (!POCKETBASE_ID_REGEX.test(id)) {
+    throw new SaasyError('Worker type not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  try {
+    return toWorkerType(
+      await pb
+        .collection(Collections.worker_types)
+        .getFirstListItem(pb.filter('id = {:id} && owner = {:userId}', { id, userId }))
+    );
+  } catch {
+    throw new SaasyError('Worker type not found', ErrorCodes.NOT_FOUND, 404);
+  }
+}
+
+/**
+ * Check the user's plan allows another custom worker image.
+ */
+export async function checkCustomWorkerTypeQuota(pb: PocketBase, userId: string, plan: PlanType): Promise<void> {
+  const limit = PLAN_LIMITS[plan].maxCustomWorkerTypes;
+  if (limit === 0) {
+    throw new SaasyError(
+      `Custom worker images are not available on the ${plan} plan`,
+      ErrorCodes.FORBIDDEN,
+      403
+    );
+  }
+
+  const existing = await pb.collection(Collections.worker_types).getList(1, 1, {
+    filter: pb.filter('owner = {:userId}', { userId }),
+  });
+  if (existing.totalItems >= limit) {
+    throw new SaasyError(
+      `The ${plan} plan allows at most ${limit} custom worker images`,
+      ErrorCodes.FORBIDDEN,
+      403
+    );
+  }
+}
+
+/**
+ * Pick the fields a user may set on their own worker type from a request
+ * body. With partial unset, fills in defaults for a new type.
+ */
+export function toCustomWorkerTypeBody(
+  body: Partial<CreateWorkerTypeRequest> & { enabled?: boolean },
+  partial: boolean
+): Partial<WorkerTypeInput> {
+  if (typeof body !== 'object' || body === null) {
+    throw new SaasyError('Request body must be an object', ErrorCodes.INVALID_INPUT, 400);
+  }
+
+  const picked: Record<string, unknown> = {};
+  // Renaming would break clients that submit tasks by name
+  const keys = partial
+    ? [...CUSTOM_WORKER_TYPE_FIELDS.filter((key) => key !== 'name'), 'enabled' as const]
+    : CUSTOM_WORKER_TYPE_FIELDS;
+  for (const key of keys) {
+    if (body[key] !== undefined) picked[key] = body[key];
+  }
+
+  // Custom images can't loosen the rest of the sandbox, or get the shared network
+  if (body.security !== undefined) {
+    const security = body.security as Record<string, unknown>;
+    const extra = Object.keys(security || {}).find((key) => !CUSTOM_SECURITY_KEYS.includes(key));
+    if (extra || security?.network === 'bridge') {
+      throw new SaasyError(
+        `security may only set ${CUSTOM_SECURITY_KEYS.join(', ')}, and network must be none or allowlist`,
+        ErrorCodes.INVALID_INPUT,
+        400
+      );
+    }
+  }
+
+  if (!partial) {
+    if (typeof body.name !== 'string') {
+      throw new SaasyError('name is required', ErrorCodes.INVALID_INPUT, 400);
+    }
+    if (typeof body.imageDigest !== 'string') {
+      throw new SaasyError('imageDigest is required for custom worker images', ErrorCodes.INVALID_INPUT, 400);
+    }
+    picked.cpuLimit ??= WORKER_DEFAULTS.cpuLimit;
+    picked.memoryLimit ??= WORKER_DEFAULTS.memoryLimit;
+    picked.timeoutSeconds ??= WORKER_DEFAULTS.timeoutSeconds;
+  }
+  return picked as Partial<WorkerTypeInput>;
+}
+
+/**
+ * Look up the worker type a task asks for, rejecting unknown and disabled
+ * types and types the user's plan doesn't include.
+ */
+export async function getAvailableWorkerType(
+  pb: PocketBase,
+  userId: string,
+  name: string,
+  plan: PlanType
+): Promise<WorkerType> {
+  let workerType: WorkerType;
+  try {
+    workerType = toWorkerType(
+      await pb
+        .collection(Collections.worker_types)
+        .getFirstListItem(pb.filter(
+          'name = {:name} && enabled = true && (owner = "" || owner = {:userId})',
+          { name, userId }
+        ))
+    );
+  } catch {
+    throw new SaasyError('Invalid task type', ErrorCodes.INVALID_INPUT, 400);
+  }
+
+  if (workerType.ownerId && PLAN_LIMITS[plan].maxCustomWorkerTypes === 0) {
+    throw new SaasyError(
+      `Custom worker images are not available on the ${plan} plan`,
+      ErrorCodes.FORBIDDEN,
+      403
+    );
+  }
+  if (!isPlanAllowed(workerType, plan)) {
+    throw new SaasyError(
+      `Task type ${name} is not available on the ${plan} plan`,
+      ErrorCodes.FORBIDDEN,
+      403
+    );
+  }
+  return workerType;
+}
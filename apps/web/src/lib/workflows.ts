@@ -0,0 +1,146 @@
+import type PocketBase from 'pocketbase';
+import type { RecordModel } from 'pocketbase';
+import {
+  ErrorCodes,
+  SaasyError,
+  findWorkflowRefs,
+  getWorkflowState,
+  validateWorkflowSteps,
+  type CreateWorkflowRequest,
+  type Workflow,
+  type WorkflowStepDefinition,
+  type WorkflowUsage,
+} from '@saassy/shared';
+import { Collections } from '@/lib/pocketbase';
+import { validateNewTask } from '@/lib/tasks';
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+const MAX_NAME_LENGTH = 100;
+
+const NO_USAGE: WorkflowUsage = { taskCount: 0, cpuSeconds: 0, memoryMbSeconds: 0, durationSeconds: 0, costCents: 0 };
+
+/**
+ * A workflow with each step's state read from the tasks created for it,
+ * oldest first.
+ */
+export function toWorkflow(record: RecordModel, tasks: RecordModel[]): Workflow {
+  const state = getWorkflowState(
+    record.steps,
+    tasks.map((task) => ({
+      id: task.id,
+      step: task.workflow_step,
+      status: task.status,
+      output: task.output || undefined,
+      error: task.error || undefined,
+    }))
+  );
+
+  return {
+    id: record.id,
+    userId: record.user,
+    name: record.name,
+    status: record.status,
+    // Steps of a workflow that ended before they started never will
+    steps: record.status === 'running'
+      ? state.steps
+      : state.steps.map((step) => (step.status === 'waiting' ? { ...step, status: 'skipped' } : step)),
+    error: record.error || undefined,
+    usage: record.usage || NO_USAGE,
+    completedAt: record.completed_at || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+/**
+ * Tasks created for the given workflows' steps, oldest first.
+ */
+export async function listWorkflowTasks(pb: PocketBase, workflowIds: string[]): Promise<RecordModel[]> {
+  if (workflowIds.length === 0) return [];
+
+  const params = Object.fromEntries(workflowIds.map((id, i) => [`workflow${i}`, id]));
+  return pb.collection(Collections.tasks).getFullList({
+    filter: pb.filter(workflowIds.map((_, i) => `workflow = {:workflow${i}}`).join(' || '), params),
+    sort: 'created',
+  });
+}
+
+/**
+ * Check a workflow request's graph, then each step's task as if it were
+ * created now. Inputs that refer to other steps' outputs are checked against
+ * the worker type's schema only once they are filled in, when the step starts.
+ */
+export async function parseWorkflowRequest(
+  pb: PocketBase,
+  userId: string,
+  body: Partial<CreateWorkflowRequest>
+): Promise<{ name: string; steps: WorkflowStepDefinition[] }> {
+  if (typeof body.name !== 'string' || !body.name.trim() || body.name.length > MAX_NAME_LENGTH) {
+    throw new SaasyError(`name must be 1 to ${MAX_NAME_LENGTH} characters`, ErrorCodes.INVALID_INPUT, 400);
+  }
+
+  const errors = validateWorkflowSteps(body.steps);
+  if (errors.length > 0) {
+    throw new SaasyError('Invalid workflow steps', ErrorCodes.INVALID_INPUT, 400, errors);
+  }
+
+  const steps = body.steps!.map((step, i): WorkflowStepDefinition => {
+    if (step.resources !== undefined && step.resources !== null && (typeof step.resources !== 'object' || Array.isArray(step.resources))) {
+      throw new SaasyError(`steps[${i}].resources must be a JSON object`, ErrorCodes.INVALID_INPUT, 400);
+    }
+    if (step.priority !== undefined && step.priority !== null && typeof step.priority !== 'number') {
+      throw new SaasyError(`steps[${i}].priority must be a number`, ErrorCodes.INVALID_INPUT, 400);
+    }
+
+    return {
+      id: step.id,
+      type: step.type,
+      input: step.input,
+      dependsOn: step.dependsOn || [],
+      onFailure: step.onFailure || 'fail-fast',
+      ...(step.retries !== undefined && { retries: step.retries }),
+      ...(step.resources && { resources: { cpu: step.resources.cpu, memory: step.resources.memory } }),
+      ...(typeof step.priority === 'number' && { priority: step.priority }),
+    };
+  });
+
+  for (const [i, step] of steps.entries()) {
+    try {
+      await validateNewTask(pb, userId, step, { checkInput: findWorkflowRefs(step.input).length === 0 });
+    } catch (error) {
+      if (!(error instanceof SaasyError)) throw error;
+      throw new SaasyError(
+        `Step ${step.id}: ${error.message}`,
+        error.code,
+        error.statusCode,
+        error.errors?.map(({ path, message }) => ({
+          path: path ? `steps[${i}].input.${path}` : `steps[${i}].input`,
+          message,
+        }))
+      );
+    }
+  }
+
+  return { name: body.name.trim(), steps };
+}
+
+/**
+ * Fetch a workflow, treating workflows owned by other users as missing.
+ */
+export async function getOwnedWorkflow(
+  pb: PocketBase,
+  workflowId: string,
+  userId: string
+): Promise<RecordModel> {
+  if (!POCKETBASE_ID_REGEX.test(workflowId)) {
+    throw new SaasyError('Workflow not found', ErrorCodes.NOT_FOUND, 404);
+  }
+
+  try {
+    return await pb
+      .collection(Collections.workflows)
+      .getFirstListItem(pb.filter('id = {:workflowId} && user = {:userId}', { workflowId, userId }));
+  } catch {
+    throw new SaasyError('Workflow not found', ErrorCodes.NOT_FOUND, 404);
+  }
+}
@@ -0,0 +1,116 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Registry of worker images that tasks can run on, replacing the task type
+ * lists hardcoded in the web app and worker manager
+ */
+
+migrate((db) => {
+  const collection = new Collection({
+    name: 'worker_types',
+    type: 'base',
+    schema: [
+      {
+        // The task type clients send, e.g. "example-worker"
+        name: 'name',
+        type: 'text',
+        required: true,
+        options: {
+          max: 64,
+          pattern: '^[a-z0-9][a-z0-9-]*$',
+        },
+      },
+      {
+        name: 'image',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'description',
+        type: 'text',
+        required: false,
+      },
+      {
+        name: 'enabled',
+        type: 'bool',
+        required: false,
+      },
+      {
+        name: 'cpu_limit',
+        type: 'number',
+        required: true,
+        options: {
+          min: 0.1,
+        },
+      },
+      {
+        name: 'memory_limit',
+        type: 'text',
+        required: true,
+        options: {
+          pattern: '^\\d+[kmgKMG]?$',
+        },
+      },
+      {
+        name: 'timeout_seconds',
+        type: 'number',
+        required: true,
+        options: {
+          min: 1,
+        },
+      },
+      {
+        // Empty means every plan
+        name: 'allowed_plans',
+        type: 'select',
+        required: false,
+        options: {
+          maxSelect: 4,
+          values: ['free', 'starter', 'pro', 'enterprise'],
+        },
+      },
+      {
+        name: 'price_per_task_cents',
+        type: 'number',
+        required: false,
+        options: {
+          min: 0,
+        },
+      },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX idx_worker_types_name ON worker_types (name)',
+    ],
+  });
+
+  db.save(collection);
+
+  // The worker types that used to be hardcoded
+  const defaults = [
+    {
+      name: 'example-worker',
+      image: 'saassy/example-worker:latest',
+      description: 'Template worker that echoes a message after a delay',
+    },
+    {
+      name: 'test-worker',
+      image: 'saassy/test-worker:latest',
+      description: 'Echo, math, transform, delay and fail operations for testing',
+    },
+  ];
+
+  for (const workerType of defaults) {
+    db.save(new Record(collection, {
+      ...workerType,
+      enabled: true,
+      cpu_limit: 1,
+      memory_limit: '512m',
+      timeout_seconds: 3600,
+      allowed_plans: [],
+      price_per_task_cents: 0,
+    }));
+  }
+}, (db) => {
+  // Rollback
+  db.collection('worker_types').delete();
+});
@@ -0,0 +1,152 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Input and output JSON Schemas per worker type. Task input is checked
+ * against the input schema before a container is started; outputs that
+ * break the output schema are flagged in the task's output_errors.
+ */
+
+const EXAMPLE_WORKER_SCHEMAS = {
+  input: {
+    type: 'object',
+    properties: {
+      message: { type: 'string', title: 'Message', maxLength: 1000 },
+      sleepSeconds: { type: 'integer', title: 'Seconds to work', minimum: 1, maximum: 300, default: 1 },
+      shouldFail: { type: 'boolean', title: 'Fail on purpose', default: false },
+    },
+    additionalProperties: false,
+  },
+  output: {
+    type: 'object',
+    properties: {
+      result: { type: 'string' },
+      processedAt: { type: 'string', format: 'date-time' },
+      input: { type: 'object' },
+    },
+    required: ['result', 'processedAt'],
+  },
+};
+
+const TEST_WORKER_SCHEMAS = {
+  input: {
+    type: 'object',
+    oneOf: [
+      {
+        title: 'Echo',
+        properties: {
+          operation: { const: 'echo' },
+          data: { title: 'Data to echo back' },
+        },
+        required: ['operation'],
+        additionalProperties: false,
+      },
+      {
+        title: 'Math',
+        properties: {
+          operation: { const: 'math' },
+          action: { enum: ['add', 'subtract', 'multiply', 'divide', 'power', 'factorial'] },
+          numbers: { type: 'array', items: { type: 'number' }, minItems: 1, maxItems: 1000 },
+        },
+        required: ['operation', 'action', 'numbers'],
+        additionalProperties: false,
+      },
+      {
+        title: 'Transform',
+        properties: {
+          operation: { const: 'transform' },
+          action: { enum: ['uppercase', 'lowercase', 'reverse', 'wordcount', 'hash'] },
+          text: { type: 'string', maxLength: 100000 },
+        },
+        required: ['operation', 'action', 'text'],
+        additionalProperties: false,
+      },
+      {
+        title: 'Delay',
+        properties: {
+          operation: { const: 'delay' },
+          seconds: { type: 'number', minimum: 0, maximum: 300 },
+          message: { type: 'string', maxLength: 1000 },
+        },
+        required: ['operation', 'seconds'],
+        additionalProperties: false,
+      },
+      {
+        title: 'Fail',
+        properties: {
+          operation: { const: 'fail' },
+          errorMessage: { type: 'string', maxLength: 1000 },
+          exitCode: { type: 'integer', minimum: 0, maximum: 255 },
+        },
+        required: ['operation'],
+        additionalProperties: false,
+      },
+    ],
+  },
+  output: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      operation: { type: 'string' },
+      result: {},
+      executionTimeMs: { type: 'number', minimum: 0 },
+      taskId: { type: 'string' },
+      processedAt: { type: 'string', format: 'date-time' },
+      metadata: { type: 'object' },
+    },
+    required: ['success', 'operation', 'result', 'executionTimeMs', 'processedAt'],
+  },
+};
+
+migrate((db) => {
+  const workerTypes = db.collection('worker_types');
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'input_schema',
+    type: 'json',
+    required: false,
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'output_schema',
+    type: 'json',
+    required: false,
+  }));
+
+  db.save(workerTypes);
+
+  const tasks = db.collection('tasks');
+
+  tasks.schema.addField(new SchemaField({
+    name: 'output_errors',
+    type: 'json',
+    required: false,
+  }));
+
+  db.save(tasks);
+
+  // Describe the bundled workers
+  const seeded = [
+    ['example-worker', EXAMPLE_WORKER_SCHEMAS],
+    ['test-worker', TEST_WORKER_SCHEMAS],
+  ];
+  for (const [name, schemas] of seeded) {
+    try {
+      const record = db.findFirstRecordByData('worker_types', 'name', name);
+      record.set('input_schema', schemas.input);
+      record.set('output_schema', schemas.output);
+      db.save(record);
+    } catch {
+      // Removed by an admin; nothing to describe
+    }
+  }
+}, (db) => {
+  // Rollback
+  const workerTypes = db.collection('worker_types');
+  workerTypes.schema.removeField(workerTypes.schema.getFieldByName('input_schema').id);
+  workerTypes.schema.removeField(workerTypes.schema.getFieldByName('output_schema').id);
+  db.save(workerTypes);
+
+  const tasks = db.collection('tasks');
+  tasks.schema.removeField(tasks.schema.getFieldByName('output_errors').id);
+  db.save(tasks);
+});
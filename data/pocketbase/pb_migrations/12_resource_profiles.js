@@ -0,0 +1,52 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Per-task resource requests and per-worker-type minimums. Plan ceilings
+ * live in PLAN_LIMITS; worker types keep cpu_limit/memory_limit as the
+ * defaults for tasks that don't ask.
+ */
+
+migrate((db) => {
+  const workerTypes = db.collection('worker_types');
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'min_cpu',
+    type: 'number',
+    required: false,
+    options: {
+      min: 0,
+    },
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'min_memory',
+    type: 'text',
+    required: false,
+    options: {
+      pattern: '^\\d+[kmgKMG]?$',
+    },
+  }));
+
+  db.save(workerTypes);
+
+  const tasks = db.collection('tasks');
+
+  // { cpu, memory } as requested, reused when the task is retried
+  tasks.schema.addField(new SchemaField({
+    name: 'resources',
+    type: 'json',
+    required: false,
+  }));
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const workerTypes = db.collection('worker_types');
+  workerTypes.schema.removeField(workerTypes.schema.getFieldByName('min_cpu').id);
+  workerTypes.schema.removeField(workerTypes.schema.getFieldByName('min_memory').id);
+  db.save(workerTypes);
+
+  const tasks = db.collection('tasks');
+  tasks.schema.removeField(tasks.schema.getFieldByName('resources').id);
+  db.save(tasks);
+});
@@ -0,0 +1,24 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Container security profile per worker type. Stored as overrides on top of
+ * DEFAULT_SECURITY_PROFILE (non-root, read-only rootfs, all capabilities
+ * dropped, strict seccomp, no network); empty means the defaults.
+ */
+
+migrate((db) => {
+  const workerTypes = db.collection('worker_types');
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'security',
+    type: 'json',
+    required: false,
+  }));
+
+  db.save(workerTypes);
+}, (db) => {
+  // Rollback
+  const workerTypes = db.collection('worker_types');
+  workerTypes.schema.removeField(workerTypes.schema.getFieldByName('security').id);
+  db.save(workerTypes);
+});
@@ -0,0 +1,72 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Worker types with users' own images: owner, digest pinning, pull policy,
+ * private registry credentials (encrypted by the worker manager with
+ * REGISTRY_CREDENTIALS_KEY), cosign signature key and image size limit.
+ */
+
+migrate((db) => {
+  const workerTypes = db.collection('worker_types');
+
+  // Empty for platform worker types
+  workerTypes.schema.addField(new SchemaField({
+    name: 'owner',
+    type: 'relation',
+    required: false,
+    options: {
+      collectionId: '_pb_users_auth_',
+      cascadeDelete: true,
+      maxSelect: 1,
+    },
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'image_digest',
+    type: 'text',
+    required: false,
+    options: {
+      pattern: '^sha256:[a-f0-9]{64}$',
+    },
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'pull_policy',
+    type: 'select',
+    required: false,
+    options: {
+      maxSelect: 1,
+      values: ['always', 'if-not-present', 'never'],
+    },
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'registry_auth',
+    type: 'text',
+    required: false,
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'signature_key',
+    type: 'text',
+    required: false,
+  }));
+
+  workerTypes.schema.addField(new SchemaField({
+    name: 'max_image_mb',
+    type: 'number',
+    required: false,
+    options: {
+      min: 1,
+    },
+  }));
+
+  db.save(workerTypes);
+}, (db) => {
+  // Rollback
+  const workerTypes = db.collection('worker_types');
+  for (const name of ['owner', 'image_digest', 'pull_policy', 'registry_auth', 'signature_key', 'max_image_mb']) {
+    workerTypes.schema.removeField(workerTypes.schema.getFieldByName(name).id);
+  }
+  db.save(workerTypes);
+});
@@ -0,0 +1,28 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Queue priority per task. Plans set the ceiling and default
+ * (PLAN_LIMITS.maxPriority); tasks may ask for less.
+ */
+
+migrate((db) => {
+  const tasks = db.collection('tasks');
+
+  // As requested, reused when the task is retried; empty = the plan's default
+  tasks.schema.addField(new SchemaField({
+    name: 'priority',
+    type: 'number',
+    required: false,
+    options: {
+      min: 1,
+      noDecimal: true,
+    },
+  }));
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const tasks = db.collection('tasks');
+  tasks.schema.removeField(tasks.schema.getFieldByName('priority').id);
+  db.save(tasks);
+});
@@ -0,0 +1,139 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Scheduled and recurring tasks
+ * Creates schedules (cron expression plus the task to create) and links
+ * the tasks they create back to them
+ */
+
+migrate((db) => {
+  const schedules = new Collection({
+    name: 'schedules',
+    type: 'base',
+    schema: [
+      {
+        name: 'user',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: '_pb_users_auth_',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'name',
+        type: 'text',
+        required: true,
+        options: {
+          max: 100,
+        },
+      },
+      {
+        // Five fields, minute resolution, e.g. "0 9 * * 1-5"
+        name: 'cron',
+        type: 'text',
+        required: true,
+      },
+      {
+        // IANA name, e.g. "Europe/Berlin"; the cron expression is read in it
+        name: 'timezone',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'type',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'input',
+        type: 'json',
+        required: true,
+      },
+      {
+        name: 'resources',
+        type: 'json',
+        required: false,
+      },
+      {
+        name: 'priority',
+        type: 'number',
+        required: false,
+        options: {
+          min: 1,
+          noDecimal: true,
+        },
+      },
+      {
+        name: 'enabled',
+        type: 'bool',
+        required: false,
+      },
+      {
+        // What to do when a run is due while the previous run's task is unfinished
+        name: 'overlap_policy',
+        type: 'select',
+        required: true,
+        options: {
+          maxSelect: 1,
+          values: ['skip', 'queue', 'cancel'],
+        },
+      },
+      {
+        name: 'next_run_at',
+        type: 'date',
+        required: false,
+      },
+      {
+        name: 'last_run_at',
+        type: 'date',
+        required: false,
+      },
+      {
+        name: 'last_task',
+        type: 'relation',
+        required: false,
+        options: {
+          collectionId: 'tasks',
+          cascadeDelete: false,
+          maxSelect: 1,
+        },
+      },
+      {
+        // Why the last run created no task, or the task couldn't be queued
+        name: 'last_error',
+        type: 'text',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE INDEX idx_schedules_user ON schedules (user)',
+      'CREATE INDEX idx_schedules_due ON schedules (enabled, next_run_at)',
+    ],
+  });
+
+  db.save(schedules);
+
+  const tasks = db.collection('tasks');
+
+  tasks.schema.addField(new SchemaField({
+    name: 'schedule',
+    type: 'relation',
+    required: false,
+    options: {
+      collectionId: 'schedules',
+      cascadeDelete: false,
+      maxSelect: 1,
+    },
+  }));
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const tasks = db.collection('tasks');
+  tasks.schema.removeField(tasks.schema.getFieldByName('schedule').id);
+  db.save(tasks);
+
+  db.collection('schedules').delete();
+});
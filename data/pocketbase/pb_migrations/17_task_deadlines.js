@@ -0,0 +1,40 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Delayed tasks and expiry deadlines
+ * Adds run_at (don't start before) and expires_at (expire if not started by)
+ * to tasks, and the "expired" status
+ */
+
+migrate((db) => {
+  const tasks = db.collection('tasks');
+
+  const status = tasks.schema.getFieldByName('status');
+  status.options.values = ['pending', 'queued', 'running', 'completed', 'failed', 'canceled', 'expired'];
+  tasks.schema.addField(status);
+
+  tasks.schema.addField(new SchemaField({
+    name: 'run_at',
+    type: 'date',
+    required: false,
+  }));
+
+  tasks.schema.addField(new SchemaField({
+    name: 'expires_at',
+    type: 'date',
+    required: false,
+  }));
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const tasks = db.collection('tasks');
+
+  const status = tasks.schema.getFieldByName('status');
+  status.options.values = ['pending', 'queued', 'running', 'completed', 'failed', 'canceled'];
+  tasks.schema.addField(status);
+
+  tasks.schema.removeField(tasks.schema.getFieldByName('run_at').id);
+  tasks.schema.removeField(tasks.schema.getFieldByName('expires_at').id);
+  db.save(tasks);
+});
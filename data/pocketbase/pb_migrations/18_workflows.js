@@ -0,0 +1,106 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Multi-step workflows
+ * Creates workflows (a graph of steps, each a task to create once the steps
+ * it depends on have completed) and links the tasks created for the steps
+ * back to them
+ */
+
+migrate((db) => {
+  const workflows = new Collection({
+    name: 'workflows',
+    type: 'base',
+    schema: [
+      {
+        name: 'user',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: '_pb_users_auth_',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'name',
+        type: 'text',
+        required: true,
+        options: {
+          max: 100,
+        },
+      },
+      {
+        name: 'status',
+        type: 'select',
+        required: true,
+        options: {
+          maxSelect: 1,
+          values: ['running', 'completed', 'failed', 'canceled'],
+        },
+      },
+      {
+        // Step definitions as submitted; their state is read from the tasks
+        name: 'steps',
+        type: 'json',
+        required: true,
+      },
+      {
+        // Why the workflow failed
+        name: 'error',
+        type: 'text',
+        required: false,
+      },
+      {
+        // Resources and fees of the workflow's tasks, kept up to date by the worker manager
+        name: 'usage',
+        type: 'json',
+        required: false,
+      },
+      {
+        name: 'completed_at',
+        type: 'date',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE INDEX idx_workflows_user ON workflows (user)',
+      'CREATE INDEX idx_workflows_status ON workflows (status)',
+    ],
+  });
+
+  db.save(workflows);
+
+  const tasks = db.collection('tasks');
+
+  tasks.schema.addField(new SchemaField({
+    name: 'workflow',
+    type: 'relation',
+    required: false,
+    options: {
+      collectionId: 'workflows',
+      cascadeDelete: false,
+      maxSelect: 1,
+    },
+  }));
+
+  tasks.schema.addField(new SchemaField({
+    // ID of the step within the workflow
+    name: 'workflow_step',
+    type: 'text',
+    required: false,
+  }));
+
+  tasks.indexes.push('CREATE INDEX idx_tasks_workflow ON tasks (workflow)');
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const tasks = db.collection('tasks');
+  tasks.indexes = tasks.indexes.filter((index) => !index.includes('idx_tasks_workflow'));
+  tasks.schema.removeField(tasks.schema.getFieldByName('workflow').id);
+  tasks.schema.removeField(tasks.schema.getFieldByName('workflow_step').id);
+  db.save(tasks);
+
+  db.collection('workflows').delete();
+});
@@ -0,0 +1,58 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Organizations
+ * Creates organizations, with a concurrency limit shared by their members'
+ * tasks on top of each member's plan limit, and links users to them
+ */
+
+migrate((db) => {
+  const organizations = new Collection({
+    name: 'organizations',
+    type: 'base',
+    schema: [
+      {
+        name: 'name',
+        type: 'text',
+        required: true,
+        options: {
+          max: 100,
+        },
+      },
+      {
+        // Tasks the members may run at once between them; empty for no limit
+        name: 'max_concurrent',
+        type: 'number',
+        required: false,
+        options: {
+          min: 1,
+          noDecimal: true,
+        },
+      },
+    ],
+  });
+
+  db.save(organizations);
+
+  const users = db.collection('users');
+
+  users.schema.addField(new SchemaField({
+    name: 'organization',
+    type: 'relation',
+    required: false,
+    options: {
+      collectionId: 'organizations',
+      cascadeDelete: false,
+      maxSelect: 1,
+    },
+  }));
+
+  db.save(users);
+}, (db) => {
+  // Rollback
+  const users = db.collection('users');
+  users.schema.removeField(users.schema.getFieldByName('organization').id);
+  db.save(users);
+
+  db.collection('organizations').delete();
+});
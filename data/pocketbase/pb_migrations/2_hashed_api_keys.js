@@ -0,0 +1,43 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Store API keys hashed instead of in plain text
+ * Replaces users.api_key with api_key_hash + a visible api_key_prefix
+ */
+
+migrate((db) => {
+  const users = db.collection('users');
+
+  users.schema.removeField(users.schema.getFieldByName('api_key').id);
+
+  users.schema.addField(new SchemaField({
+    name: 'api_key_hash',
+    type: 'text',
+    required: false,
+  }));
+
+  users.schema.addField(new SchemaField({
+    name: 'api_key_prefix',
+    type: 'text',
+    required: false,
+  }));
+
+  users.indexes.push('CREATE INDEX idx_users_api_key_hash ON users (api_key_hash)');
+
+  db.save(users);
+}, (db) => {
+  // Rollback - existing hashes cannot be turned back into keys
+  const users = db.collection('users');
+
+  users.schema.removeField(users.schema.getFieldByName('api_key_hash').id);
+  users.schema.removeField(users.schema.getFieldByName('api_key_prefix').id);
+  users.indexes = users.indexes.filter((index) => !index.includes('idx_users_api_key_hash'));
+
+  users.schema.addField(new SchemaField({
+    name: 'api_key',
+    type: 'text',
+    required: false,
+  }));
+
+  db.save(users);
+});
@@ -0,0 +1,119 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Multiple named API keys per user
+ * Moves the single users.api_key_hash into an api_keys collection with
+ * scopes, expiry, IP allowlist and last-used tracking
+ */
+
+migrate((db) => {
+  // ===========================================
+  // API Keys collection
+  // ===========================================
+  const apiKeys = new Collection({
+    name: 'api_keys',
+    type: 'base',
+    schema: [
+      {
+        name: 'user',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: '_pb_users_auth_',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'name',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'key_hash',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'prefix',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'scopes',
+        type: 'select',
+        required: true,
+        options: {
+          maxSelect: 3,
+          values: ['tasks:read', 'tasks:write', 'billing:read'],
+        },
+      },
+      {
+        name: 'expires_at',
+        type: 'date',
+        required: false,
+      },
+      {
+        name: 'allowed_ips',
+        type: 'json',
+        required: false,
+      },
+      {
+        name: 'last_used_at',
+        type: 'date',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE INDEX idx_api_keys_user ON api_keys (user)',
+      'CREATE UNIQUE INDEX idx_api_keys_key_hash ON api_keys (key_hash)',
+    ],
+  });
+
+  db.save(apiKeys);
+
+  // ===========================================
+  // Move existing user keys over
+  // ===========================================
+  const dao = new Dao(db);
+  const apiKeysCollection = dao.findCollectionByNameOrId('api_keys');
+  const usersWithKeys = dao.findRecordsByFilter('users', 'api_key_hash != ""');
+
+  for (const user of usersWithKeys) {
+    const record = new Record(apiKeysCollection, {
+      user: user.id,
+      name: 'Default',
+      key_hash: user.get('api_key_hash'),
+      prefix: user.get('api_key_prefix'),
+      scopes: ['tasks:read', 'tasks:write', 'billing:read'],
+    });
+    dao.saveRecord(record);
+  }
+
+  const users = db.collection('users');
+  users.schema.removeField(users.schema.getFieldByName('api_key_hash').id);
+  users.schema.removeField(users.schema.getFieldByName('api_key_prefix').id);
+  users.indexes = users.indexes.filter((index) => !index.includes('idx_users_api_key_hash'));
+  db.save(users);
+}, (db) => {
+  // Rollback - keys are dropped, users need to generate a new one
+  db.collection('api_keys').delete();
+
+  const users = db.collection('users');
+
+  users.schema.addField(new SchemaField({
+    name: 'api_key_hash',
+    type: 'text',
+    required: false,
+  }));
+
+  users.schema.addField(new SchemaField({
+    name: 'api_key_prefix',
+    type: 'text',
+    required: false,
+  }));
+
+  users.indexes.push('CREATE INDEX idx_users_api_key_hash ON users (api_key_hash)');
+
+  db.save(users);
+});
@@ -0,0 +1,27 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Link retried tasks to the task they were cloned from
+ */
+
+migrate((db) => {
+  const tasks = db.collection('tasks');
+
+  tasks.schema.addField(new SchemaField({
+    name: 'retry_of',
+    type: 'relation',
+    required: false,
+    options: {
+      collectionId: 'tasks',
+      cascadeDelete: false,
+      maxSelect: 1,
+    },
+  }));
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const tasks = db.collection('tasks');
+  tasks.schema.removeField(tasks.schema.getFieldByName('retry_of').id);
+  db.save(tasks);
+});
@@ -0,0 +1,152 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Outbound task webhooks
+ * Creates webhook_endpoints (user-registered URLs) and webhook_deliveries (delivery log)
+ */
+
+migrate((db) => {
+  // ===========================================
+  // Webhook Endpoints collection
+  // ===========================================
+  const endpoints = new Collection({
+    name: 'webhook_endpoints',
+    type: 'base',
+    schema: [
+      {
+        name: 'user',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: '_pb_users_auth_',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'url',
+        type: 'url',
+        required: true,
+      },
+      {
+        name: 'secret',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'events',
+        type: 'select',
+        required: true,
+        options: {
+          maxSelect: 2,
+          values: ['task.completed', 'task.failed'],
+        },
+      },
+      {
+        name: 'enabled',
+        type: 'bool',
+        required: false,
+      },
+      {
+        name: 'description',
+        type: 'text',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE INDEX idx_webhook_endpoints_user ON webhook_endpoints (user)',
+    ],
+  });
+
+  db.save(endpoints);
+
+  // ===========================================
+  // Webhook Deliveries collection
+  // ===========================================
+  const deliveries = new Collection({
+    name: 'webhook_deliveries',
+    type: 'base',
+    schema: [
+      {
+        name: 'endpoint',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: 'webhook_endpoints',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'task',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: 'tasks',
+          cascadeDelete: false,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'event',
+        type: 'select',
+        required: true,
+        options: {
+          values: ['task.completed', 'task.failed'],
+        },
+      },
+      {
+        name: 'payload',
+        type: 'json',
+        required: true,
+      },
+      {
+        name: 'status',
+        type: 'select',
+        required: true,
+        options: {
+          values: ['pending', 'retrying', 'succeeded', 'failed'],
+        },
+      },
+      {
+        name: 'attempts',
+        type: 'number',
+        required: false,
+        options: {
+          min: 0,
+        },
+      },
+      {
+        name: 'response_status',
+        type: 'number',
+        required: false,
+      },
+      {
+        name: 'response_body',
+        type: 'text',
+        required: false,
+      },
+      {
+        name: 'error',
+        type: 'text',
+        required: false,
+      },
+      {
+        name: 'delivered_at',
+        type: 'date',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries (endpoint)',
+      'CREATE INDEX idx_webhook_deliveries_task ON webhook_deliveries (task)',
+      'CREATE INDEX idx_webhook_deliveries_created ON webhook_deliveries (created DESC)',
+    ],
+  });
+
+  db.save(deliveries);
+}, (db) => {
+  // Rollback
+  db.collection('webhook_deliveries').delete();
+  db.collection('webhook_endpoints').delete();
+});
@@ -0,0 +1,22 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Store the last progress frame reported by a running worker
+ */
+
+migrate((db) => {
+  const tasks = db.collection('tasks');
+
+  tasks.schema.addField(new SchemaField({
+    name: 'progress',
+    type: 'json',
+    required: false,
+  }));
+
+  db.save(tasks);
+}, (db) => {
+  // Rollback
+  const tasks = db.collection('tasks');
+  tasks.schema.removeField(tasks.schema.getFieldByName('progress').id);
+  db.save(tasks);
+});
@@ -0,0 +1,60 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Worker logs (stderr and log frames), stored per task in ordered chunks.
+ * Offsets are byte positions in the task's full log.
+ */
+
+migrate((db) => {
+  const collection = new Collection({
+    name: 'task_logs',
+    type: 'base',
+    schema: [
+      {
+        name: 'task',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: 'tasks',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'offset',
+        type: 'number',
+        required: false,
+        options: {
+          min: 0,
+        },
+      },
+      {
+        name: 'end_offset',
+        type: 'number',
+        required: true,
+        options: {
+          min: 0,
+        },
+      },
+      {
+        name: 'content',
+        type: 'text',
+        required: false,
+      },
+      {
+        // Set on the last chunk when the task hit the log size cap
+        name: 'truncated',
+        type: 'bool',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX idx_task_logs_task_offset ON task_logs (task, offset)',
+    ],
+  });
+
+  db.save(collection);
+}, (db) => {
+  // Rollback
+  db.collection('task_logs').delete();
+});
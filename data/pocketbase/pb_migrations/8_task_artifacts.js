@@ -0,0 +1,72 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Files workers write to /output, collected after the container exits
+ */
+
+migrate((db) => {
+  const collection = new Collection({
+    name: 'task_artifacts',
+    type: 'base',
+    schema: [
+      {
+        name: 'task',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: 'tasks',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'user',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: '_pb_users_auth_',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        // Path relative to /output, e.g. "charts/summary.png"
+        name: 'name',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'file',
+        type: 'file',
+        required: true,
+        options: {
+          maxSelect: 1,
+          maxSize: 268435456, // 256 MB, matches ARTIFACT_LIMITS.maxFileBytes
+          protected: true,
+        },
+      },
+      {
+        name: 'size',
+        type: 'number',
+        required: true,
+        options: {
+          min: 0,
+        },
+      },
+      {
+        name: 'content_type',
+        type: 'text',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE INDEX idx_task_artifacts_task ON task_artifacts (task)',
+      'CREATE INDEX idx_task_artifacts_user ON task_artifacts (user)',
+    ],
+  });
+
+  db.save(collection);
+}, (db) => {
+  // Rollback
+  db.collection('task_artifacts').delete();
+});
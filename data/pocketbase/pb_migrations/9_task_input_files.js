@@ -0,0 +1,71 @@
+/// <reference path="../pb_data/types.d.ts" />
+
+/**
+ * Files uploaded with a task, mounted read-only under /input/files
+ */
+
+migrate((db) => {
+  const collection = new Collection({
+    name: 'task_input_files',
+    type: 'base',
+    schema: [
+      {
+        name: 'task',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: 'tasks',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        name: 'user',
+        type: 'relation',
+        required: true,
+        options: {
+          collectionId: '_pb_users_auth_',
+          cascadeDelete: true,
+          maxSelect: 1,
+        },
+      },
+      {
+        // Original file name, as the worker sees it in /input/files
+        name: 'name',
+        type: 'text',
+        required: true,
+      },
+      {
+        name: 'file',
+        type: 'file',
+        required: true,
+        options: {
+          maxSelect: 1,
+          maxSize: 52428800, // 50 MB, matches INPUT_LIMITS.maxFileBytes
+          protected: true,
+        },
+      },
+      {
+        name: 'size',
+        type: 'number',
+        required: true,
+        options: {
+          min: 0,
+        },
+      },
+      {
+        name: 'content_type',
+        type: 'text',
+        required: false,
+      },
+    ],
+    indexes: [
+      'CREATE UNIQUE INDEX idx_task_input_files_task_name ON task_input_files (task, name)',
+    ],
+  });
+
+  db.save(collection);
+}, (db) => {
+  // Rollback
+  db.collection('task_input_files').delete();
+});
@@ -1,4 +1,13 @@
-import type { PlanLimits, PlanType } from './types.js';
+import type {
+  ApiKeyScope,
+  PlanLimits,
+  PlanType,
+  ScheduleOverlapPolicy,
+  TaskStatus,
+  WebhookEventType,
+  WorkerSecurityProfile,
+  WorkflowFailurePolicy,
+} from './types.js';
 
 // ===========================================
 // Plan Configuration
@@ -9,21 +18,61 @@ export const PLAN_LIMITS: Record<PlanType, PlanLimits> = {
     tasksPerMonth: 10,
     maxConcurrent: 1,
     maxDurationSeconds: 60,
+    maxArtifactBytes: 10 * 1024 * 1024, // 10 MB
+    maxCpu: 0.5,
+    maxMemoryMb: 512,
+    maxPids: 64,
+    maxDiskMb: 1024,
+    maxEgressMb: 100,
+    maxCustomWorkerTypes: 0,
+    maxImageMb: 1024,
+    maxPriority: 1,
+    fairShareWeight: 1,
   },
   starter: {
     tasksPerMonth: 100,
     maxConcurrent: 3,
     maxDurationSeconds: 300,
+    maxArtifactBytes: 100 * 1024 * 1024, // 100 MB
+    maxCpu: 1,
+    maxMemoryMb: 1024,
+    maxPids: 128,
+    maxDiskMb: 2048,
+    maxEgressMb: 1024,
+    maxCustomWorkerTypes: 0,
+    maxImageMb: 2048,
+    maxPriority: 2,
+    fairShareWeight: 2,
   },
   pro: {
     tasksPerMonth: 1000,
     maxConcurrent: 10,
     maxDurationSeconds: 3600,
+    maxArtifactBytes: 1024 * 1024 * 1024, // 1 GB
+    maxCpu: 2,
+    maxMemoryMb: 4096,
+    maxPids: 256,
+    maxDiskMb: 10240,
+    maxEgressMb: 10240,
+    maxCustomWorkerTypes: 3,
+    maxImageMb: 5120,
+    maxPriority: 3,
+    fairShareWeight: 4,
   },
   enterprise: {
     tasksPerMonth: -1, // unlimited
     maxConcurrent: 50,
     maxDurationSeconds: 86400,
+    maxArtifactBytes: 5 * 1024 * 1024 * 1024, // 5 GB
+    maxCpu: 8,
+    maxMemoryMb: 16384,
+    maxPids: 1024,
+    maxDiskMb: 51200,
+    maxEgressMb: -1, // unlimited
+    maxCustomWorkerTypes: 25,
+    maxImageMb: 20480,
+    maxPriority: 4,
+    fairShareWeight: 8,
   },
 };
 
@@ -57,10 +106,91 @@ export const RESOURCE_PRICES = {
 export const WORKER_DEFAULTS = {
   cpuLimit: 1,
   memoryLimit: '512m',
+  pidsLimit: 64,
   timeoutSeconds: 300,
   network: 'saassy-workers',
 };
 
+// Sandbox for worker containers unless the worker type loosens it
+export const DEFAULT_SECURITY_PROFILE: WorkerSecurityProfile = {
+  runAsNonRoot: true,
+  readOnlyRootfs: true,
+  tmpfsSizeMb: 64,
+  dropAllCapabilities: true,
+  addCapabilities: [],
+  noNewPrivileges: true,
+  seccomp: 'strict',
+  nofileLimit: 1024,
+  network: 'none',
+  egressAllowlist: [],
+};
+
+// Task input is mounted at /input/task.json, uploaded files under /input/files
+export const INPUT_LIMITS = {
+  mountPath: '/input',
+  maxEnvBytes: 32 * 1024, // larger inputs are only passed as the file
+  maxFiles: 10,
+  maxFileBytes: 50 * 1024 * 1024,
+  maxTotalBytes: 100 * 1024 * 1024,
+};
+
+// Files workers write to /output, stored in task_artifacts
+export const ARTIFACT_LIMITS = {
+  outputPath: '/output',
+  maxFiles: 100,
+  maxFileBytes: 256 * 1024 * 1024,
+  downloadUrlTtlSeconds: 3600,
+};
+
+// How far ahead a task's runAt may be
+export const TASK_TIMING_LIMITS = {
+  maxDelaySeconds: 30 * 24 * 3600,
+};
+
+// Worker stderr and log frames, stored per task in task_logs chunks
+export const TASK_LOG_LIMITS = {
+  maxBytes: 1024 * 1024, // per task; later lines are dropped
+  chunkBytes: 64 * 1024,
+  maxLineLength: 8192,
+  flushIntervalMs: 2000,
+};
+
+// ===========================================
+// API Key Scopes
+// ===========================================
+
+export const API_KEY_SCOPES: Record<ApiKeyScope, string> = {
+  'tasks:read': 'List and view tasks',
+  'tasks:write': 'Create and manage tasks',
+  'billing:read': 'View usage and billing',
+};
+
+// ===========================================
+// Schedules
+// ===========================================
+
+export const SCHEDULE_OVERLAP_POLICIES: Record<ScheduleOverlapPolicy, string> = {
+  skip: 'Skip the run while the previous task is unfinished',
+  queue: 'Queue the task behind the previous one',
+  cancel: 'Cancel the previous task and start a new one',
+};
+
+// ===========================================
+// Workflows
+// ===========================================
+
+export const WORKFLOW_LIMITS = {
+  maxSteps: 50,
+  maxRetries: 5,
+  defaultRetries: 2,
+};
+
+export const WORKFLOW_FAILURE_POLICIES: Record<WorkflowFailurePolicy, string> = {
+  'fail-fast': 'Cancel the rest of the workflow',
+  continue: 'Run the steps that do not depend on it',
+  retry: 'Run the step again, then cancel the rest of the workflow',
+};
+
 // ===========================================
 // Queue Names
 // ===========================================
@@ -69,8 +199,38 @@ export const QUEUE_NAMES = {
   tasks: 'saassy:tasks',
   billing: 'saassy:billing',
   notifications: 'saassy:notifications',
+  webhooks: 'saassy:webhooks',
 };
 
+// ===========================================
+// Outbound Webhooks
+// ===========================================
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = ['task.completed', 'task.failed'];
+
+export const WEBHOOK_DEFAULTS = {
+  // "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}` keyed by the endpoint secret>"
+  signatureHeader: 'X-Saassy-Signature',
+  eventHeader: 'X-Saassy-Event',
+  deliveryHeader: 'X-Saassy-Delivery',
+  timeoutMs: 10000,
+  maxAttempts: 8,
+  retryDelayMs: 30000, // doubles per attempt: 30s, 1m, 2m ... ~1h
+};
+
+// ===========================================
+// Pub/Sub Channels
+// ===========================================
+
+export const EVENT_CHANNELS = {
+  // Suffixed with the user ID: "saassy:task-events:<userId>"
+  taskEvents: 'saassy:task-events',
+  // Suffixed with the task ID: "saassy:task-logs:<taskId>"
+  taskLogs: 'saassy:task-logs',
+};
+
+export const TERMINAL_TASK_STATUSES: TaskStatus[] = ['completed', 'failed', 'canceled', 'expired'];
+
 // ===========================================
 // API Routes
 // ===========================================
@@ -3,3 +3,5 @@
 export * from './types.js';
 export * from './constants.js';
 export * from './utils.js';
+export * from './schema.js';
+export * from './workflow.js';
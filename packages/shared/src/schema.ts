@@ -0,0 +1,261 @@
+import type { FieldError, JsonSchema, JsonSchemaType } from './types.js';
+
+// ===========================================
+// JSON Schema Validation
+// ===========================================
+// A small validator for the JsonSchema subset, shared by the API, the worker
+// manager and the dashboard forms so they all agree on what is valid.
+
+const SCHEMA_TYPES: JsonSchemaType[] = ['object', 'array', 'string', 'number', 'integer', 'boolean', 'null'];
+
+const SCHEMA_KEYWORDS = new Set([
+  '$schema', 'title', 'description', 'default', 'examples',
+  'type', 'enum', 'const',
+  'properties', 'required', 'additionalProperties',
+  'items', 'minItems', 'maxItems',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'multipleOf',
+  'minLength', 'maxLength', 'pattern', 'format',
+  'oneOf', 'anyOf',
+]);
+
+const NUMBER_KEYWORDS = [
+  'minItems', 'maxItems', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'multipleOf', 'minLength', 'maxLength',
+] as const;
+
+const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z0-9+.-]*:\S+$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/,
+  // Name of a file uploaded with the task, read by the worker from /input/files
+  file: /^(?!\.)[\w.-]{1,200}$/,
+};
+
+// Stop collecting after this many errors
+const MAX_ERRORS = 50;
+
+interface Issue {
+  path: (string | number)[];
+  message: string;
+  keyword: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): JsonSchemaType | 'unknown' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+    return typeof value as JsonSchemaType;
+  }
+  return 'unknown';
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key) =>
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+}
+
+// "items[0].name"; empty for the root value
+export function formatFieldPath(path: (string | number)[]): string {
+  return path
+    .map((segment, i) => (typeof segment === 'number' ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+    .join('');
+}
+
+/**
+ * Check that a worker type's schema only uses keywords this validator
+ * enforces, so a schema never silently accepts input it was meant to reject.
+ * Returns a description of the first problem, or null.
+ */
+export function checkJsonSchema(schema: unknown, at = 'schema'): string | null {
+  if (!isPlainObject(schema)) return `${at} must be an object`;
+
+  for (const key of Object.keys(schema)) {
+    if (!SCHEMA_KEYWORDS.has(key)) return `${at}.${key} is not a supported keyword`;
+  }
+
+  const types = schema.type === undefined ? [] : [schema.type].flat();
+  if (!types.every((type) => SCHEMA_TYPES.includes(type as JsonSchemaType))) {
+    return `${at}.type must be one of ${SCHEMA_TYPES.join(', ')}`;
+  }
+  for (const key of NUMBER_KEYWORDS) {
+    if (schema[key] !== undefined && typeof schema[key] !== 'number') return `${at}.${key} must be a number`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) return `${at}.enum must be an array`;
+  if (schema.required !== undefined &&
+      !(Array.isArray(schema.required) && schema.required.every((name) => typeof name === 'string'))) {
+    return `${at}.required must be an array of property names`;
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern as string, 'u');
+    } catch {
+      return `${at}.pattern is not a valid regular expression`;
+    }
+  }
+  if (schema.format !== undefined && !(typeof schema.format === 'string' && schema.format in FORMATS)) {
+    return `${at}.format must be one of ${Object.keys(FORMATS).join(', ')}`;
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) return `${at}.properties must be an object`;
+    for (const [name, property] of Object.entries(schema.properties)) {
+      const problem = checkJsonSchema(property, `${at}.properties.${name}`);
+      if (problem) return problem;
+    }
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    const problem = checkJsonSchema(schema.additionalProperties, `${at}.additionalProperties`);
+    if (problem) return problem;
+  }
+  if (schema.items !== undefined) {
+    const problem = checkJsonSchema(schema.items, `${at}.items`);
+    if (problem) return problem;
+  }
+  for (const key of ['oneOf', 'anyOf'] as const) {
+    if (schema[key] === undefined) continue;
+    const branches = schema[key];
+    if (!Array.isArray(branches) || branches.length === 0) return `${at}.${key} must be a non-empty array`;
+    for (let i = 0; i < branches.length; i++) {
+      const problem = checkJsonSchema(branches[i], `${at}.${key}[${i}]`);
+      if (problem) return problem;
+    }
+  }
+
+  return null;
+}
+
+function validate(schema: JsonSchema, value: unknown, path: (string | number)[], issues: Issue[]): void {
+  if (issues.length >= MAX_ERRORS) return;
+  const fail = (message: string, keyword: string, at = path) => {
+    issues.push({ path: at, message, keyword });
+  };
+
+  if (schema.type !== undefined) {
+    const types = [schema.type].flat();
+    const actual = typeOf(value);
+    const matches = types.includes(actual as JsonSchemaType) ||
+      (actual === 'integer' && types.includes('number'));
+    if (!matches) {
+      return fail(`must be ${types.join(' or ')}`, 'type');
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    return fail(`must be ${JSON.stringify(schema.const)}`, 'const');
+  }
+  if (schema.enum && !schema.enum.some((option) => deepEqual(value, option))) {
+    return fail(`must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`, 'enum');
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`, 'minLength');
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`, 'maxLength');
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail(`must match ${schema.pattern}`, 'pattern');
+    }
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format]!.test(value)) {
+      fail(`must be a valid ${schema.format}`, 'format');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be at least ${schema.minimum}`, 'minimum');
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be at most ${schema.maximum}`, 'maximum');
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail(`must be greater than ${schema.exclusiveMinimum}`, 'exclusiveMinimum');
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail(`must be less than ${schema.exclusiveMaximum}`, 'exclusiveMaximum');
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+      fail(`must be a multiple of ${schema.multipleOf}`, 'multipleOf');
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`, 'minItems');
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`, 'maxItems');
+    }
+    if (schema.items) {
+      value.forEach((item, i) => validate(schema.items!, item, [...path, i], issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) fail('is required', 'required', [...path, name]);
+    }
+    for (const [name, property] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        validate(propertySchema, property, [...path, name], issues);
+      } else if (schema.additionalProperties === false) {
+        fail('is not allowed', 'additionalProperties', [...path, name]);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        validate(schema.additionalProperties, property, [...path, name], issues);
+      }
+    }
+  }
+
+  if (schema.anyOf || schema.oneOf) {
+    const branches = (schema.anyOf || schema.oneOf)!;
+    const results = branches.map((branch) => {
+      const branchIssues: Issue[] = [];
+      validate(branch, value, path, branchIssues);
+      return branchIssues;
+    });
+    const passing = results.filter((branchIssues) => branchIssues.length === 0).length;
+
+    if (passing === 0) {
+      // Report the branch the value was most likely meant for: one whose
+      // discriminating const/enum properties match, with the fewest errors
+      const score = (branchIssues: Issue[]) =>
+        branchIssues.length +
+        (branchIssues.some((issue) =>
+          (issue.keyword === 'const' && issue.path.length <= path.length + 1) ||
+          (issue.keyword === 'type' && issue.path.length === path.length)
+        ) ? MAX_ERRORS : 0);
+      const closest = results.reduce((best, current) => (score(current) < score(best) ? current : best));
+      issues.push(...closest);
+    } else if (schema.oneOf && passing > 1) {
+      fail('matches more than one allowed shape', 'oneOf');
+    }
+  }
+}
+
+/**
+ * Validate a value against a JsonSchema. Returns an empty array when valid,
+ * otherwise one entry per offending field (at most 50).
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): FieldError[] {
+  const issues: Issue[] = [];
+  validate(schema, value, [], issues);
+  return issues.slice(0, MAX_ERRORS).map((issue) => ({
+    path: formatFieldPath(issue.path),
+    message: issue.message,
+  }));
+}
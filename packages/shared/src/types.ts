@@ -8,11 +8,32 @@ export interface User {
   name: string;
   verified: boolean;
   stripeCustomerId?: string;
-  apiKey?: string;
   created: string;
   updated: string;
 }
 
+export type ApiKeyScope = 'tasks:read' | 'tasks:write' | 'billing:read';
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // first characters of the key, safe to display
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+  allowedIps?: string[]; // exact IPs or IPv4 CIDR ranges; empty allows any
+  lastUsedAt?: string;
+  created: string;
+  updated: string;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+  allowedIps?: string[];
+}
+
 // ===========================================
 // Subscription Types
 // ===========================================
@@ -24,6 +45,20 @@ export interface PlanLimits {
   tasksPerMonth: number;
   maxConcurrent: number;
   maxDurationSeconds: number;
+  maxArtifactBytes: number; // total size of a task's output files
+  // Per-task container ceilings
+  maxCpu: number;
+  maxMemoryMb: number;
+  maxPids: number;
+  maxDiskMb: number; // container writable layer, where the storage driver supports quotas
+  maxEgressMb: number; // network bytes sent; -1 = unlimited
+  // Worker types with the user's own images; 0 = not available on the plan
+  maxCustomWorkerTypes: number;
+  maxImageMb: number; // size of a custom worker image
+  // Highest queue priority a task may ask for, and the default; higher runs first
+  maxPriority: number;
+  // Share of worker capacity relative to other users when fair-share scheduling
+  fairShareWeight: number;
 }
 
 export interface Subscription {
@@ -42,7 +77,8 @@ export interface Subscription {
 // Task Types
 // ===========================================
 
-export type TaskStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'canceled';
+// expired: not started before its expiresAt
+export type TaskStatus = 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'canceled' | 'expired';
 
 export interface TaskInput {
   [key: string]: unknown;
@@ -56,6 +92,12 @@ export interface ResourceUsage {
   cpuSeconds: number;
   memoryMbSeconds: number;
   durationSeconds: number;
+  // Measured from container stats; absent on records created before sampling
+  peakMemoryMb?: number;
+  networkRxBytes?: number;
+  networkTxBytes?: number;
+  blockReadBytes?: number;
+  blockWriteBytes?: number;
 }
 
 export interface Task {
@@ -70,6 +112,16 @@ export interface Task {
   startedAt?: string;
   completedAt?: string;
   resourceUsage?: ResourceUsage;
+  progress?: TaskProgress; // last progress frame reported by the worker
+  retryOf?: string; // task this one was retried from
+  scheduleId?: string; // schedule that created this task
+  workflowId?: string; // workflow this task is a step of
+  workflowStep?: string; // ID of that step
+  resources?: TaskResourceRequest; // as requested when the task was created
+  priority?: number; // queue priority as requested; the plan's maxPriority if unset
+  runAt?: string; // not started before this
+  expiresAt?: string; // expired if not started by this
+  outputErrors?: FieldError[]; // where the output breaks the worker type's output schema
   created: string;
   updated: string;
 }
@@ -77,6 +129,27 @@ export interface Task {
 export interface CreateTaskRequest {
   type: string;
   input: TaskInput;
+  resources?: TaskResourceRequest;
+  // 1 (lowest) up to the plan's maxPriority, which is also the default
+  priority?: number;
+  // ISO 8601; the task waits until runAt and expires if it hasn't started by expiresAt
+  runAt?: string;
+  expiresAt?: string;
+}
+
+// Resources a task asks for, within its plan's ceiling
+export interface TaskResourceRequest {
+  cpu?: number;
+  memory?: string; // Docker format, e.g. "2g"
+}
+
+// What a task's container actually gets
+export interface TaskResources {
+  cpuLimit: number;
+  memoryLimit: string;
+  pidsLimit: number;
+  diskLimitMb: number;
+  egressLimitMb: number; // -1 = unlimited
 }
 
 export interface TaskResult {
@@ -87,6 +160,303 @@ export interface TaskResult {
   resourceUsage?: ResourceUsage;
 }
 
+// ===========================================
+// Schedule Types
+// ===========================================
+
+// What a due run does while the previous run's task is still unfinished
+export type ScheduleOverlapPolicy = 'skip' | 'queue' | 'cancel';
+
+// Creates a task whenever its cron expression matches
+export interface Schedule {
+  id: string;
+  userId: string;
+  name: string;
+  cron: string; // five fields, e.g. "0 9 * * 1-5"
+  timezone: string; // IANA name the cron expression is read in
+  type: string;
+  input: TaskInput;
+  resources?: TaskResourceRequest;
+  priority?: number;
+  enabled: boolean;
+  overlapPolicy: ScheduleOverlapPolicy;
+  nextRunAt?: string; // unset while disabled
+  lastRunAt?: string;
+  lastTaskId?: string; // task created by the last run that created one
+  lastError?: string; // why the last run created no task, or its task couldn't be queued
+  created: string;
+  updated: string;
+}
+
+export interface CreateScheduleRequest {
+  name: string;
+  cron: string;
+  timezone?: string; // defaults to UTC
+  type: string;
+  input: TaskInput;
+  resources?: TaskResourceRequest;
+  priority?: number;
+  enabled?: boolean;
+  overlapPolicy?: ScheduleOverlapPolicy; // defaults to skip
+}
+
+// ===========================================
+// Workflow Types
+// ===========================================
+
+export type WorkflowStatus = 'running' | 'completed' | 'failed' | 'canceled';
+
+// What a step's failure does to the rest of the workflow:
+// fail-fast cancels the other steps, continue lets steps that don't depend on
+// it run on, retry runs it again up to `retries` times and then fails fast
+export type WorkflowFailurePolicy = 'fail-fast' | 'continue' | 'retry';
+
+// waiting: for its dependencies, or to be retried; skipped: a dependency failed
+export type WorkflowStepStatus = TaskStatus | 'waiting' | 'skipped';
+
+// One node of the workflow graph. Values in input of the form
+// { "$ref": "$.steps.<id>.output.<path>" } are replaced with that step's
+// output before the task is created; the step must be upstream of this one.
+export interface WorkflowStepDefinition {
+  id: string; // unique within the workflow, e.g. "extract"
+  type: string;
+  input: TaskInput;
+  dependsOn?: string[];
+  onFailure?: WorkflowFailurePolicy; // defaults to fail-fast
+  retries?: number; // for onFailure "retry"; defaults to WORKFLOW_LIMITS.defaultRetries
+  resources?: TaskResourceRequest;
+  priority?: number;
+}
+
+export interface WorkflowStep extends WorkflowStepDefinition {
+  status: WorkflowStepStatus;
+  taskId?: string; // task of the latest attempt
+  attempts: number;
+  output?: TaskOutput;
+  error?: string;
+}
+
+// Resources and fees of all the workflow's tasks, retries included
+export interface WorkflowUsage {
+  taskCount: number;
+  cpuSeconds: number;
+  memoryMbSeconds: number;
+  durationSeconds: number;
+  costCents: number;
+}
+
+export interface Workflow {
+  id: string;
+  userId: string;
+  name: string;
+  status: WorkflowStatus;
+  steps: WorkflowStep[];
+  error?: string; // why it failed
+  usage: WorkflowUsage;
+  completedAt?: string;
+  created: string;
+  updated: string;
+}
+
+export interface CreateWorkflowRequest {
+  name: string;
+  steps: WorkflowStepDefinition[];
+}
+
+// ===========================================
+// JSON Schema
+// ===========================================
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+// The subset of JSON Schema (draft 2020-12) that worker types can declare
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: unknown[];
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  // object
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // array
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  // number
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // string
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  // composition
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+}
+
+// A value that failed schema validation, e.g. { path: "numbers[1]", message: "must be number" }
+export interface FieldError {
+  path: string; // empty for the value itself
+  message: string;
+}
+
+// How a worker's container is sandboxed; worker types override parts of
+// DEFAULT_SECURITY_PROFILE
+export interface WorkerSecurityProfile {
+  user?: string; // "uid[:gid]" to run as; defaults to the image's USER
+  runAsNonRoot: boolean; // refuse to run as root
+  readOnlyRootfs: boolean; // with a writable tmpfs at /tmp
+  tmpfsSizeMb: number;
+  dropAllCapabilities: boolean;
+  addCapabilities: string[]; // added back after dropping all, e.g. "NET_BIND_SERVICE"
+  noNewPrivileges: boolean;
+  seccomp: 'default' | 'strict' | 'unconfined'; // Docker's profile, ours, or none
+  pidsLimit?: number; // tighter than the plan's
+  nofileLimit: number;
+  // none: no network; allowlist: only egressAllowlist hosts through the
+  // egress proxy; bridge: the shared worker network
+  network: 'none' | 'allowlist' | 'bridge';
+  egressAllowlist: string[]; // "api.example.com", "*.example.com" or "host:port"
+}
+
+// When the worker manager pulls a worker image
+export type ImagePullPolicy = 'always' | 'if-not-present' | 'never';
+
+// Credentials for pulling from a private registry
+export interface RegistryAuth {
+  serverAddress: string; // e.g. "ghcr.io" or "registry.example.com:5000"
+  username: string;
+  password: string;
+}
+
+// A registered worker image that tasks can run on
+export interface WorkerType {
+  id: string;
+  name: string; // the task type, e.g. "image-resize"; a user's own start with their ID
+  image: string;
+  description?: string;
+  enabled: boolean;
+  cpuLimit: number; // default when the task doesn't ask
+  memoryLimit: string; // Docker format, e.g. "512m"
+  minCpu?: number; // the worker doesn't run with less
+  minMemory?: string;
+  timeoutSeconds: number; // capped by the plan's maxDurationSeconds
+  allowedPlans: PlanType[]; // empty = every plan
+  pricePerTaskCents: number; // charged on top of resource usage
+  inputSchema?: JsonSchema; // checked before a task is queued
+  outputSchema?: JsonSchema; // violations are flagged on the task
+  security?: Partial<WorkerSecurityProfile>;
+  ownerId?: string; // set for a user's own image; only they can run it
+  imageDigest?: string; // "sha256:..."; the image is pulled and run by digest
+  pullPolicy: ImagePullPolicy; // always "always" for a user's own image
+  hasRegistryAuth: boolean; // credentials are stored encrypted and never returned
+  signatureKey?: string; // cosign public key (PEM) the image must be signed with
+  maxImageMb?: number;
+  created: string;
+  updated: string;
+}
+
+export type WorkerTypeInput = Omit<WorkerType, 'id' | 'hasRegistryAuth' | 'created' | 'updated'> & {
+  registryAuth?: RegistryAuth | null; // null removes stored credentials
+};
+
+// A user registering their own worker image; the API fills in the rest.
+// The type is named "<user ID>-<name>", and its image is pulled for every
+// task with its own credentials, so it can't run another user's cached image.
+export interface CreateWorkerTypeRequest {
+  name: string;
+  image: string;
+  imageDigest: string;
+  description?: string;
+  registryAuth?: RegistryAuth;
+  signatureKey?: string;
+  cpuLimit?: number;
+  memoryLimit?: string;
+  timeoutSeconds?: number;
+  inputSchema?: JsonSchema;
+  outputSchema?: JsonSchema;
+  // Only the network settings and user can be changed on custom images
+  security?: Partial<Pick<WorkerSecurityProfile, 'user' | 'tmpfsSizeMb' | 'network' | 'egressAllowlist'>>;
+}
+
+// A file a worker wrote to /output
+export interface TaskArtifact {
+  id: string;
+  taskId: string;
+  name: string; // path relative to /output
+  size: number;
+  contentType: string;
+  downloadUrl?: string; // signed, expires at expiresAt
+  expiresAt?: string;
+  created: string;
+}
+
+// A byte range of a task's stored logs
+export interface TaskLogSlice {
+  content: string;
+  offset: number; // byte offset of the first byte of content
+  nextOffset: number; // pass as ?offset= to continue reading
+  totalBytes: number;
+  truncated: boolean; // the task hit the log size cap
+}
+
+// Log lines of a running task, published as the worker prints them
+export interface TaskLogEvent {
+  taskId: string;
+  lines: string[];
+  offset: number; // byte offset of the first line in the task's stored log
+  timestamp: string;
+}
+
+// Pushed to clients as tasks move through the queue and containers
+export type TaskEventType = 'status' | 'progress';
+
+export interface TaskProgress {
+  percent?: number;
+  message?: string;
+}
+
+// Line-delimited JSON frames a worker may print to stdout while it runs
+export interface WorkerProgressFrame {
+  type: 'progress';
+  percent?: number;
+  message?: string;
+}
+
+export interface WorkerLogFrame {
+  type: 'log';
+  level?: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+}
+
+// May be sent more than once; the last one is the task's output
+export interface WorkerResultFrame {
+  type: 'result';
+  output: TaskOutput;
+}
+
+export type WorkerFrame = WorkerProgressFrame | WorkerLogFrame | WorkerResultFrame;
+
+export interface TaskEvent {
+  type: TaskEventType;
+  taskId: string;
+  userId: string;
+  status?: TaskStatus;
+  progress?: TaskProgress;
+  output?: TaskOutput;
+  error?: string;
+  timestamp: string;
+}
+
 // ===========================================
 // Usage & Billing Types
 // ===========================================
@@ -142,6 +512,8 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  code?: string;
+  errors?: FieldError[]; // per-field validation errors
 }
 
 export interface PaginatedResponse<T> {
@@ -156,14 +528,49 @@ export interface PaginatedResponse<T> {
 // Webhook Types
 // ===========================================
 
+export type WebhookEventType = 'task.completed' | 'task.failed';
+
 export interface TaskWebhookPayload {
-  event: 'task.completed' | 'task.failed';
+  event: WebhookEventType;
   taskId: string;
   userId: string;
   result: TaskResult;
   timestamp: string;
 }
 
+export interface WebhookEndpoint {
+  id: string;
+  userId: string;
+  url: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  description?: string;
+  created: string;
+  updated: string;
+}
+
+export interface CreateWebhookEndpointRequest {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  taskId: string;
+  event: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  deliveredAt?: string;
+  created: string;
+  updated: string;
+}
+
 export interface StripeWebhookEvent {
   type: string;
   data: {
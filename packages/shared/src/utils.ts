@@ -1,5 +1,19 @@
-import { RESOURCE_PRICES, OVERAGE_PRICE_CENTS, PLAN_LIMITS } from './constants.js';
-import type { PlanType, ResourceUsage } from './types.js';
+import {
+  DEFAULT_SECURITY_PROFILE,
+  RESOURCE_PRICES,
+  OVERAGE_PRICE_CENTS,
+  PLAN_LIMITS,
+  TASK_TIMING_LIMITS,
+} from './constants.js';
+import type {
+  FieldError,
+  PlanType,
+  ResourceUsage,
+  TaskResourceRequest,
+  TaskResources,
+  WorkerSecurityProfile,
+  WorkerType,
+} from './types.js';
 
 // ===========================================
 // ID Generation
@@ -42,27 +56,148 @@ export function calculateOverageCost(
 // Plan Validation
 // ===========================================
 
+// Concurrency isn't checked here: tasks over the plan's maxConcurrent wait
+// in the worker manager's dispatcher until a slot frees up
 export function canCreateTask(
   plan: PlanType,
-  currentMonthTasks: number,
-  currentConcurrent: number
-): { allowed: boolean; reason?: string } {
+  currentMonthTasks: number
+): { allowed: boolean; reason?: string; code?: ErrorCode } {
   const limits = PLAN_LIMITS[plan];
 
   // Check monthly limit (unlimited if -1)
   if (limits.tasksPerMonth !== -1 && currentMonthTasks >= limits.tasksPerMonth) {
     // Allow overage for paid plans
     if (plan === 'free') {
-      return { allowed: false, reason: 'Monthly task limit reached. Upgrade to continue.' };
+      return {
+        allowed: false,
+        reason: 'Monthly task limit reached. Upgrade to continue.',
+        code: ErrorCodes.TASK_LIMIT_REACHED,
+      };
     }
   }
 
-  // Check concurrent limit
-  if (currentConcurrent >= limits.maxConcurrent) {
-    return { allowed: false, reason: `Maximum concurrent tasks (${limits.maxConcurrent}) reached.` };
+  return { allowed: true };
+}
+
+// Fit a task's resource request between the worker type's minimums and the
+// plan's ceiling. Tasks that don't ask get the worker type's defaults, capped
+// by the plan.
+export function resolveTaskResources(
+  plan: PlanType,
+  workerType: Pick<WorkerType, 'name' | 'cpuLimit' | 'memoryLimit' | 'minCpu' | 'minMemory'>,
+  request: TaskResourceRequest = {}
+): { allowed: boolean; resources?: TaskResources; reason?: string; code?: ErrorCode } {
+  const limits = PLAN_LIMITS[plan];
+
+  if (request.cpu !== undefined && !(typeof request.cpu === 'number' && request.cpu > 0)) {
+    return { allowed: false, reason: 'resources.cpu must be a positive number', code: ErrorCodes.INVALID_INPUT };
+  }
+  const requestedMemoryMb = request.memory !== undefined ? parseMemoryMb(request.memory) : undefined;
+  if (requestedMemoryMb === null) {
+    return { allowed: false, reason: 'resources.memory must look like "512m" or "2g"', code: ErrorCodes.INVALID_INPUT };
   }
 
-  return { allowed: true };
+  const minCpu = workerType.minCpu || 0;
+  const minMemoryMb = (workerType.minMemory && parseMemoryMb(workerType.minMemory)) || 0;
+  if (minCpu > limits.maxCpu || minMemoryMb > limits.maxMemoryMb) {
+    return {
+      allowed: false,
+      reason: `${workerType.name} needs at least ${minCpu} CPU and ${minMemoryMb} MB of memory, more than the ${plan} plan allows.`,
+      code: ErrorCodes.FORBIDDEN,
+    };
+  }
+
+  const cpu = request.cpu ?? Math.max(minCpu, Math.min(workerType.cpuLimit, limits.maxCpu));
+  const defaultMemoryMb = parseMemoryMb(workerType.memoryLimit) ?? minMemoryMb;
+  const memoryMb = requestedMemoryMb ?? Math.max(minMemoryMb, Math.min(defaultMemoryMb, limits.maxMemoryMb));
+
+  if (cpu > limits.maxCpu || memoryMb > limits.maxMemoryMb) {
+    return {
+      allowed: false,
+      reason: `The ${plan} plan allows at most ${limits.maxCpu} CPU and ${limits.maxMemoryMb} MB of memory per task.`,
+      code: ErrorCodes.FORBIDDEN,
+    };
+  }
+  if (cpu < minCpu || memoryMb < minMemoryMb) {
+    return {
+      allowed: false,
+      reason: `${workerType.name} needs at least ${minCpu} CPU and ${minMemoryMb} MB of memory.`,
+      code: ErrorCodes.INVALID_INPUT,
+    };
+  }
+
+  return {
+    allowed: true,
+    resources: {
+      cpuLimit: cpu,
+      memoryLimit: `${Math.ceil(memoryMb)}m`,
+      pidsLimit: limits.maxPids,
+      diskLimitMb: limits.maxDiskMb,
+      egressLimitMb: limits.maxEgressMb,
+    },
+  };
+}
+
+// A task's queue priority: the plan's maxPriority unless the task asks for
+// less. Asking for more than the plan allows is refused.
+export function resolveTaskPriority(
+  plan: PlanType,
+  requested?: number
+): { allowed: boolean; priority?: number; reason?: string; code?: ErrorCode } {
+  const { maxPriority } = PLAN_LIMITS[plan];
+  if (requested === undefined) return { allowed: true, priority: maxPriority };
+
+  if (!Number.isInteger(requested) || requested < 1) {
+    return { allowed: false, reason: 'priority must be a whole number of at least 1', code: ErrorCodes.INVALID_INPUT };
+  }
+  if (requested > maxPriority) {
+    return {
+      allowed: false,
+      reason: `priority ${requested} is above the ${plan} plan's maximum of ${maxPriority}`,
+      code: ErrorCodes.FORBIDDEN,
+    };
+  }
+  return { allowed: true, priority: requested };
+}
+
+// A task's runAt and expiresAt as ISO strings. Both are optional; expiresAt
+// must be in the future and after runAt, and runAt within TASK_TIMING_LIMITS.
+export function resolveTaskTiming(
+  runAt?: string,
+  expiresAt?: string,
+  now = new Date()
+): { allowed: boolean; runAt?: string; expiresAt?: string; reason?: string; code?: ErrorCode } {
+  const start = runAt === undefined ? undefined : new Date(runAt);
+  const end = expiresAt === undefined ? undefined : new Date(expiresAt);
+
+  if (start && (typeof runAt !== 'string' || isNaN(start.getTime()))) {
+    return { allowed: false, reason: 'runAt must be an ISO 8601 date', code: ErrorCodes.INVALID_INPUT };
+  }
+  if (end && (typeof expiresAt !== 'string' || isNaN(end.getTime()))) {
+    return { allowed: false, reason: 'expiresAt must be an ISO 8601 date', code: ErrorCodes.INVALID_INPUT };
+  }
+  if (start && start.getTime() - now.getTime() > TASK_TIMING_LIMITS.maxDelaySeconds * 1000) {
+    return {
+      allowed: false,
+      reason: `runAt may be at most ${TASK_TIMING_LIMITS.maxDelaySeconds / 86400} days ahead`,
+      code: ErrorCodes.INVALID_INPUT,
+    };
+  }
+  if (end && end <= now) {
+    return { allowed: false, reason: 'expiresAt must be in the future', code: ErrorCodes.INVALID_INPUT };
+  }
+  if (start && end && end <= start) {
+    return { allowed: false, reason: 'expiresAt must be after runAt', code: ErrorCodes.INVALID_INPUT };
+  }
+
+  return { allowed: true, runAt: start?.toISOString(), expiresAt: end?.toISOString() };
+}
+
+// A worker type's sandbox: its overrides on top of DEFAULT_SECURITY_PROFILE
+export function resolveSecurityProfile(
+  overrides: Partial<WorkerSecurityProfile> = {}
+): WorkerSecurityProfile {
+  return { ...DEFAULT_SECURITY_PROFILE, ...overrides };
 }
 
 // ===========================================
@@ -95,6 +230,70 @@ export function isValidApiKey(key: string): boolean {
   return key.startsWith('sk_') && key.length === 35;
 }
 
+// Loopback, private, link-local, shared (CGNAT), multicast and reserved IP
+// addresses. Hostnames are not addresses and return false.
+export function isPrivateAddress(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+
+  const ipv4 = normalized.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (ipv4) {
+    const [a = 0, b = 0] = ipv4.slice(1).map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      a >= 224;
+  }
+
+  if (!normalized.includes(':')) return false;
+
+  // IPv4-mapped, written either way: "::ffff:127.0.0.1" or "::ffff:7f00:1"
+  const mapped = normalized.match(/^::ffff:(?:([\d.]+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const high = parseInt(mapped[2]!, 16);
+    const low = parseInt(mapped[3]!, 16);
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  return normalized === '::' || normalized === '::1' ||
+    normalized.startsWith('fc') || normalized.startsWith('fd') ||
+    /^fe[89ab]/.test(normalized) || normalized.startsWith('ff');
+}
+
+// Hostnames that only resolve inside a private network: localhost, names
+// without a dot such as the "pocketbase" and "redis" services, and
+// internal-only suffixes
+export function isInternalHostname(hostname: string): boolean {
+  const normalized = hostname.toLowerCase().replace(/\.$/, '');
+  if (!normalized.includes('.') && !normalized.includes(':')) return true;
+  return ['localhost', 'local', 'internal', 'localdomain', 'home.arpa'].some(
+    (suffix) => normalized === suffix || normalized.endsWith(`.${suffix}`)
+  );
+}
+
+// Docker memory size ("512m", "2g", "65536k") in MB, or null if malformed
+export function parseMemoryMb(limit: string): number | null {
+  const match = typeof limit === 'string' ? limit.match(/^(\d+)([kmg])?$/i) : null;
+  if (!match) return null;
+
+  const value = parseInt(match[1]!, 10);
+  switch ((match[2] || 'm').toLowerCase()) {
+    case 'k':
+      return value / 1024;
+    case 'g':
+      return value * 1024;
+    default:
+      return value;
+  }
+}
+
+// Name an uploaded input file is stored under in /input/files
+export function toInputFileName(name: string): string {
+  return name.replace(/^.*[\\/]/, '').replace(/[^\w.-]/g, '_').slice(0, 200) || 'file';
+}
+
 // ===========================================
 // Error Handling
 // ===========================================
@@ -103,7 +302,8 @@ export class SaasyError extends Error {
   constructor(
     message: string,
     public code: string,
-    public statusCode: number = 400
+    public statusCode: number = 400,
+    public errors?: FieldError[]
   ) {
     super(message);
     this.name = 'SaasyError';
@@ -121,3 +321,5 @@ export const ErrorCodes = {
   WORKER_ERROR: 'WORKER_ERROR',
   BILLING_ERROR: 'BILLING_ERROR',
 } as const;
+
+export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
@@ -0,0 +1,321 @@
+import { WORKFLOW_FAILURE_POLICIES, WORKFLOW_LIMITS } from './constants.js';
+import { formatFieldPath } from './schema.js';
+import type {
+  FieldError,
+  TaskInput,
+  TaskOutput,
+  TaskStatus,
+  WorkflowStatus,
+  WorkflowStep,
+  WorkflowStepDefinition,
+  WorkflowStepStatus,
+} from './types.js';
+
+// ===========================================
+// Workflows
+// ===========================================
+// Graph checks, output references and step states, shared by the API, which
+// checks workflows when they are submitted, and the worker manager, which
+// runs them, so both read a workflow the same way.
+
+const STEP_ID_REGEX = /^[A-Za-z][\w-]{0,63}$/;
+
+// "$.steps.<id>.output", then any number of ".key", "[0]" or "['key']" segments
+const REF_PREFIX_REGEX = /^\$\.steps\.([A-Za-z][\w-]{0,63})\.output/;
+const REF_SEGMENT_REGEX = /^(?:\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\])/;
+
+// Steps whose latest task ended in one of these won't complete
+const FAILED_STEP_STATUSES: WorkflowStepStatus[] = ['failed', 'canceled', 'expired'];
+
+export interface WorkflowRef {
+  stepId: string;
+  path: (string | number)[]; // within the step's output
+}
+
+// A task created for a step
+export interface WorkflowStepTask {
+  id: string;
+  step: string;
+  status: TaskStatus;
+  output?: TaskOutput;
+  error?: string;
+}
+
+export interface WorkflowState {
+  status: Exclude<WorkflowStatus, 'canceled'>;
+  steps: WorkflowStep[];
+  ready: string[]; // steps that need a task created now: first runs and retries
+  error?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isRef(value: unknown): value is { $ref: unknown } {
+  return isPlainObject(value) && Object.keys(value).length === 1 && '$ref' in value;
+}
+
+/**
+ * Parse a "$.steps.<id>.output.rows[0].name" expression; null if it isn't one.
+ */
+export function parseWorkflowRef(expression: unknown): WorkflowRef | null {
+  if (typeof expression !== 'string') return null;
+  const prefix = REF_PREFIX_REGEX.exec(expression);
+  if (!prefix) return null;
+
+  const path: (string | number)[] = [];
+  let rest = expression.slice(prefix[0].length);
+  while (rest) {
+    const segment = REF_SEGMENT_REGEX.exec(rest);
+    if (!segment) return null;
+    path.push(segment[1] ?? (segment[2] !== undefined ? Number(segment[2]) : segment[3]!));
+    rest = rest.slice(segment[0].length);
+  }
+  return { stepId: prefix[1]!, path };
+}
+
+/**
+ * Where a step's input refers to other steps' outputs, with the expressions
+ * as found; they aren't checked here.
+ */
+export function findWorkflowRefs(value: unknown, at: (string | number)[] = []): { at: (string | number)[]; expression: unknown }[] {
+  if (isRef(value)) return [{ at, expression: value.$ref }];
+  if (Array.isArray(value)) return value.flatMap((item, i) => findWorkflowRefs(item, [...at, i]));
+  if (isPlainObject(value)) return Object.entries(value).flatMap(([key, item]) => findWorkflowRefs(item, [...at, key]));
+  return [];
+}
+
+/**
+ * Step IDs in an order where every step comes after the steps it depends on,
+ * or null if they depend on each other in a cycle.
+ */
+export function sortWorkflowSteps(steps: Pick<WorkflowStepDefinition, 'id' | 'dependsOn'>[]): string[] | null {
+  const remaining = new Map(steps.map((step) => [step.id, new Set(step.dependsOn || [])]));
+  const order: string[] = [];
+
+  while (remaining.size > 0) {
+    const next = [...remaining].filter(([, dependsOn]) => dependsOn.size === 0).map(([id]) => id);
+    if (next.length === 0) return null;
+    for (const id of next) {
+      remaining.delete(id);
+      for (const dependsOn of remaining.values()) dependsOn.delete(id);
+      order.push(id);
+    }
+  }
+  return order;
+}
+
+/**
+ * Check a submitted workflow's steps: their fields, that dependencies form a
+ * graph without cycles, and that input references only point at steps
+ * upstream, whose output exists by the time the step starts. The worker
+ * types and inputs are checked like any other task's.
+ */
+export function validateWorkflowSteps(steps: unknown): FieldError[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return [{ path: 'steps', message: 'steps must be a non-empty array' }];
+  }
+  if (steps.length > WORKFLOW_LIMITS.maxSteps) {
+    return [{ path: 'steps', message: `A workflow may have at most ${WORKFLOW_LIMITS.maxSteps} steps` }];
+  }
+
+  const errors: FieldError[] = [];
+  const ids = new Set<string>();
+  steps.forEach((step, i) => {
+    const at = `steps[${i}]`;
+    if (!isPlainObject(step)) {
+      errors.push({ path: at, message: 'Step must be an object' });
+      return;
+    }
+    if (typeof step.id !== 'string' || !STEP_ID_REGEX.test(step.id)) {
+      errors.push({ path: `${at}.id`, message: 'id must start with a letter and use only letters, digits, _ and -' });
+    } else if (ids.has(step.id)) {
+      errors.push({ path: `${at}.id`, message: `Duplicate step id: ${step.id}` });
+    } else {
+      ids.add(step.id);
+    }
+    if (typeof step.type !== 'string' || !step.type) {
+      errors.push({ path: `${at}.type`, message: 'type is required' });
+    }
+    if (!isPlainObject(step.input)) {
+      errors.push({ path: `${at}.input`, message: 'input must be a JSON object' });
+    }
+    if (step.dependsOn !== undefined && !(Array.isArray(step.dependsOn) && step.dependsOn.every((id) => typeof id === 'string'))) {
+      errors.push({ path: `${at}.dependsOn`, message: 'dependsOn must be an array of step ids' });
+    }
+    if (step.onFailure !== undefined && !Object.keys(WORKFLOW_FAILURE_POLICIES).includes(step.onFailure as string)) {
+      errors.push({
+        path: `${at}.onFailure`,
+        message: `onFailure must be one of ${Object.keys(WORKFLOW_FAILURE_POLICIES).join(', ')}`,
+      });
+    }
+    if (
+      step.retries !== undefined &&
+      !(Number.isInteger(step.retries) && (step.retries as number) >= 0 && (step.retries as number) <= WORKFLOW_LIMITS.maxRetries)
+    ) {
+      errors.push({ path: `${at}.retries`, message: `retries must be a whole number from 0 to ${WORKFLOW_LIMITS.maxRetries}` });
+    }
+  });
+  if (errors.length > 0) return errors;
+
+  const definitions = steps as WorkflowStepDefinition[];
+  definitions.forEach((step, i) => {
+    (step.dependsOn || []).forEach((id, j) => {
+      if (id === step.id) {
+        errors.push({ path: `steps[${i}].dependsOn[${j}]`, message: 'A step cannot depend on itself' });
+      } else if (!ids.has(id)) {
+        errors.push({ path: `steps[${i}].dependsOn[${j}]`, message: `Unknown step: ${id}` });
+      }
+    });
+  });
+  if (errors.length > 0) return errors;
+
+  const order = sortWorkflowSteps(definitions);
+  if (!order) {
+    return [{ path: 'steps', message: 'Steps depend on each other in a cycle' }];
+  }
+
+  // Everything each step transitively depends on, filled in dependencies first
+  const upstream = new Map<string, Set<string>>();
+  const byId = new Map(definitions.map((step) => [step.id, step]));
+  for (const id of order) {
+    const ancestors = new Set<string>();
+    for (const dependency of byId.get(id)!.dependsOn || []) {
+      ancestors.add(dependency);
+      upstream.get(dependency)!.forEach((ancestor) => ancestors.add(ancestor));
+    }
+    upstream.set(id, ancestors);
+  }
+
+  definitions.forEach((step, i) => {
+    for (const { at, expression } of findWorkflowRefs(step.input)) {
+      const path = formatFieldPath(['steps', i, 'input', ...at]);
+      const ref = parseWorkflowRef(expression);
+      if (!ref) {
+        errors.push({ path, message: 'Expected a reference like "$.steps.<id>.output.<key>"' });
+      } else if (!upstream.get(step.id)!.has(ref.stepId)) {
+        errors.push({ path, message: `${ref.stepId} must be a step this one depends on` });
+      }
+    }
+  });
+  return errors;
+}
+
+/**
+ * Replace the references in a step's input with the outputs of the steps
+ * they point at. References that match nothing are reported and left null.
+ */
+export function resolveWorkflowInput(
+  input: TaskInput,
+  outputs: Record<string, TaskOutput | undefined>
+): { input: TaskInput; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+
+  function resolve(value: unknown, at: (string | number)[]): unknown {
+    if (isRef(value)) {
+      const ref = parseWorkflowRef(value.$ref);
+      let resolved: unknown = ref ? outputs[ref.stepId] : undefined;
+      for (const key of ref?.path || []) {
+        resolved = (Array.isArray(resolved) && typeof key === 'number') ||
+          (isPlainObject(resolved) && typeof key === 'string' && Object.prototype.hasOwnProperty.call(resolved, key))
+          ? (resolved as Record<string | number, unknown>)[key]
+          : undefined;
+      }
+      if (resolved === undefined) {
+        errors.push({ path: formatFieldPath(at), message: `${String(value.$ref)} matched nothing` });
+        return null;
+      }
+      return resolved;
+    }
+    if (Array.isArray(value)) return value.map((item, i) => resolve(item, [...at, i]));
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolve(item, [...at, key])]));
+    }
+    return value;
+  }
+
+  const resolved = resolve(input, []);
+  if (!isPlainObject(resolved)) {
+    return { input: {}, errors: [...errors, { path: '', message: 'Input must resolve to a JSON object' }] };
+  }
+  return { input: resolved, errors };
+}
+
+function describeFailure(step: WorkflowStep): string {
+  return `Step ${step.id} ${step.status}${step.error ? `: ${step.error}` : ''}`;
+}
+
+/**
+ * Work out each step's status from the tasks created for it so far (oldest
+ * first), the workflow's status from the steps and their failure policies,
+ * and which steps to create tasks for next.
+ */
+export function getWorkflowState(definitions: WorkflowStepDefinition[], tasks: WorkflowStepTask[]): WorkflowState {
+  const attemptsByStep = new Map<string, WorkflowStepTask[]>();
+  for (const task of tasks) {
+    attemptsByStep.set(task.step, [...(attemptsByStep.get(task.step) || []), task]);
+  }
+
+  const byId = new Map<string, WorkflowStep>();
+  const ready: string[] = [];
+  const definitionsById = new Map(definitions.map((definition) => [definition.id, definition]));
+  for (const id of sortWorkflowSteps(definitions) || []) {
+    const definition = definitionsById.get(id)!;
+    const attempts = attemptsByStep.get(id) || [];
+    const latest = attempts[attempts.length - 1];
+    const step: WorkflowStep = {
+      ...definition,
+      status: 'waiting',
+      taskId: latest?.id,
+      attempts: attempts.length,
+      output: latest?.output,
+      error: latest?.error,
+    };
+
+    if (latest) {
+      // Canceled steps were stopped on purpose and aren't retried
+      const maxAttempts = definition.onFailure === 'retry'
+        ? 1 + (definition.retries ?? WORKFLOW_LIMITS.defaultRetries)
+        : 1;
+      if ((latest.status === 'failed' || latest.status === 'expired') && attempts.length < maxAttempts) {
+        ready.push(id);
+      } else {
+        step.status = latest.status;
+      }
+    } else {
+      const dependencies = (definition.dependsOn || []).map((dependency) => byId.get(dependency)!);
+      if (dependencies.some((dependency) => dependency.status === 'skipped' || FAILED_STEP_STATUSES.includes(dependency.status))) {
+        step.status = 'skipped';
+      } else if (dependencies.every((dependency) => dependency.status === 'completed')) {
+        ready.push(id);
+      }
+    }
+    byId.set(id, step);
+  }
+
+  const steps = definitions.map((definition) => byId.get(definition.id)!);
+  const failed = steps.filter((step) => FAILED_STEP_STATUSES.includes(step.status));
+
+  // Retries are used up by now, so anything but "continue" fails fast;
+  // steps that hadn't started won't
+  const fatal = failed.find((step) => step.onFailure !== 'continue');
+  if (fatal) {
+    return {
+      status: 'failed',
+      steps: steps.map((step) => (step.status === 'waiting' ? { ...step, status: 'skipped' } : step)),
+      ready: [],
+      error: describeFailure(fatal),
+    };
+  }
+
+  const finished = steps.every((step) =>
+    step.status === 'completed' || step.status === 'skipped' || FAILED_STEP_STATUSES.includes(step.status)
+  );
+  if (finished) {
+    return failed.length > 0
+      ? { status: 'failed', steps, ready: [], error: describeFailure(failed[0]!) }
+      : { status: 'completed', steps, ready: [] };
+  }
+  return { status: 'running', steps, ready };
+}
@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { runInNewContext } from 'node:vm';
+
+const MIGRATIONS_DIR = join(__dirname, '../../../data/pocketbase/pb_migrations');
+
+// Fields PocketBase adds to every collection, and the ones the users auth
+// collection starts with
+const SYSTEM_FIELDS = ['id', 'created', 'updated'];
+const USERS_FIELDS = ['username', 'email', 'emailVisibility', 'verified', 'name', 'avatar'];
+
+// Fields the web app and the services read or write by name. Records are
+// stored snake_case; a camelCase name here is silently dropped on write and
+// undefined on read, so every one of these must exist in the migrations.
+const FIELDS_IN_USE: Record<string, string[]> = {
+  users: ['stripe_customer_id', 'organization'],
+  organizations: ['name', 'max_concurrent'],
+  subscriptions: ['user', 'plan', 'status', 'stripe_subscription_id', 'current_period_end'],
+  usage_records: ['user', 'period', 'task_count', 'cpu_seconds', 'memory_mb_seconds', 'cost_cents'],
+  tasks: [
+    'user', 'type', 'status', 'input', 'output', 'error', 'worker_id', 'started_at', 'completed_at',
+    'resource_usage', 'retry_of', 'resources', 'priority', 'output_errors', 'schedule', 'run_at',
+    'expires_at', 'workflow', 'workflow_step',
+  ],
+  worker_types: [
+    'name', 'image', 'enabled', 'cpu_limit', 'memory_limit', 'timeout_seconds', 'allowed_plans',
+    'price_per_task_cents', 'input_schema', 'output_schema', 'min_cpu', 'min_memory', 'security',
+    'owner', 'image_digest', 'pull_policy', 'registry_auth', 'signature_key', 'max_image_mb',
+  ],
+  schedules: [
+    'user', 'cron', 'timezone', 'type', 'input', 'enabled', 'overlap_policy', 'next_run_at',
+    'last_run_at', 'last_task',
+  ],
+  workflows: ['user', 'name', 'steps', 'status', 'error', 'usage'],
+};
+
+interface FakeCollection {
+  name: string;
+  fields: Set<string>;
+}
+
+// Runs every migration against a stand-in for PocketBase's migration API,
+// returning the fields of each collection once they have all been applied
+function loadCollections(): Map<string, FakeCollection> {
+  const collections = new Map<string, FakeCollection>([
+    ['users', { name: 'users', fields: new Set(USERS_FIELDS) }],
+  ]);
+
+  function find(name: string) {
+    const collection = collections.get(name);
+    if (!collection) throw new Error(`Unknown collection: ${name}`);
+    return {
+      ...collection,
+      indexes: [] as string[],
+      schema: {
+        addField: (field: { name: string }) => collection.fields.add(field.name),
+        getFieldByName: (fieldName: string) => {
+          if (!collection.fields.has(fieldName)) throw new Error(`Unknown field: ${name}.${fieldName}`);
+          return { id: fieldName, name: fieldName, options: {} };
+        },
+        removeField: (id: string) => collection.fields.delete(id),
+      },
+    };
+  }
+
+  const db = {
+    collection: find,
+    save: (value: unknown) => {
+      if (value instanceof Collection) collections.set(value.name, { name: value.name, fields: value.fields });
+    },
+    findFirstRecordByData: () => {
+      throw new Error('No records');
+    },
+  };
+
+  class Collection {
+    name: string;
+    fields: Set<string>;
+    constructor(options: { name: string; schema?: { name: string }[] }) {
+      this.name = options.name;
+      this.fields = new Set((options.schema ?? []).map((field) => field.name));
+    }
+  }
+
+  const files = readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith('.js'))
+    .sort((a, b) => parseInt(a, 10) - parseInt(b, 10));
+
+  for (const file of files) {
+    let up: ((db: unknown) => void) | undefined;
+    runInNewContext(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'), {
+      migrate: (fn: (db: unknown) => void) => {
+        up = fn;
+      },
+      Collection,
+      SchemaField: class {
+        name: string;
+        constructor(options: { name: string }) {
+          this.name = options.name;
+        }
+      },
+      Record: class {},
+      Dao: class {
+        findCollectionByNameOrId = find;
+        findRecordsByFilter = () => [];
+        saveRecord = () => {};
+      },
+    }, { filename: file });
+    assert.ok(up, `${file} doesn't call migrate`);
+    up(db);
+  }
+
+  return collections;
+}
+
+describe('PocketBase migrations', () => {
+  const collections = loadCollections();
+
+  for (const [name, fields] of Object.entries(FIELDS_IN_USE)) {
+    it(`define the ${name} fields in use`, () => {
+      const collection = collections.get(name);
+      assert.ok(collection, `No ${name} collection`);
+      const missing = fields.filter((field) => !SYSTEM_FIELDS.includes(field) && !collection.fields.has(field));
+      assert.deepEqual(missing, []);
+    });
+  }
+});
@@ -0,0 +1,189 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ErrorCodes,
+  PLAN_LIMITS,
+  calculateResourceCost,
+  canCreateTask,
+  isInternalHostname,
+  isPrivateAddress,
+  parseMemoryMb,
+  resolveTaskPriority,
+  resolveTaskResources,
+  resolveTaskTiming,
+} from '../src/index.js';
+
+const workerType = { name: 'resize', cpuLimit: 1, memoryLimit: '1g' };
+
+describe('parseMemoryMb', () => {
+  it('reads Docker memory sizes as MB', () => {
+    assert.equal(parseMemoryMb('512m'), 512);
+    assert.equal(parseMemoryMb('512'), 512);
+    assert.equal(parseMemoryMb('2g'), 2048);
+    assert.equal(parseMemoryMb('2G'), 2048);
+    assert.equal(parseMemoryMb('65536k'), 64);
+  });
+
+  it('returns null for anything else', () => {
+    assert.equal(parseMemoryMb(''), null);
+    assert.equal(parseMemoryMb('1.5g'), null);
+    assert.equal(parseMemoryMb('512mb'), null);
+    assert.equal(parseMemoryMb(512 as unknown as string), null);
+  });
+});
+
+describe('resolveTaskResources', () => {
+  it("gives tasks that don't ask the worker type's defaults, capped by the plan", () => {
+    assert.deepEqual(resolveTaskResources('pro', workerType), {
+      allowed: true,
+      resources: {
+        cpuLimit: 1,
+        memoryLimit: '1024m',
+        pidsLimit: PLAN_LIMITS.pro.maxPids,
+        diskLimitMb: PLAN_LIMITS.pro.maxDiskMb,
+        egressLimitMb: PLAN_LIMITS.pro.maxEgressMb,
+      },
+    });
+
+    const free = resolveTaskResources('free', workerType);
+    assert.equal(free.resources?.cpuLimit, PLAN_LIMITS.free.maxCpu);
+    assert.equal(free.resources?.memoryLimit, `${PLAN_LIMITS.free.maxMemoryMb}m`);
+  });
+
+  it('uses the requested resources within the plan', () => {
+    const result = resolveTaskResources('pro', workerType, { cpu: 2, memory: '4g' });
+    assert.equal(result.resources?.cpuLimit, 2);
+    assert.equal(result.resources?.memoryLimit, '4096m');
+  });
+
+  it('refuses requests above the plan', () => {
+    const result = resolveTaskResources('free', workerType, { cpu: 1 });
+    assert.equal(result.allowed, false);
+    assert.equal(result.code, ErrorCodes.FORBIDDEN);
+  });
+
+  it("refuses requests below the worker type's minimums", () => {
+    const result = resolveTaskResources('pro', { ...workerType, minCpu: 1, minMemory: '1g' }, { memory: '512m' });
+    assert.equal(result.allowed, false);
+    assert.equal(result.code, ErrorCodes.INVALID_INPUT);
+  });
+
+  it("refuses worker types whose minimums the plan can't meet", () => {
+    const result = resolveTaskResources('free', { ...workerType, minMemory: '2g' });
+    assert.equal(result.allowed, false);
+    assert.equal(result.code, ErrorCodes.FORBIDDEN);
+  });
+
+  it('refuses malformed requests', () => {
+    assert.equal(resolveTaskResources('pro', workerType, { cpu: 0 }).code, ErrorCodes.INVALID_INPUT);
+    assert.equal(resolveTaskResources('pro', workerType, { memory: 'lots' }).code, ErrorCodes.INVALID_INPUT);
+  });
+});
+
+describe('resolveTaskPriority', () => {
+  it("defaults to the plan's maximum", () => {
+    assert.deepEqual(resolveTaskPriority('pro'), { allowed: true, priority: PLAN_LIMITS.pro.maxPriority });
+  });
+
+  it('allows lower priorities', () => {
+    assert.deepEqual(resolveTaskPriority('pro', 1), { allowed: true, priority: 1 });
+  });
+
+  it("refuses priorities above the plan's maximum", () => {
+    const result = resolveTaskPriority('free', PLAN_LIMITS.free.maxPriority + 1);
+    assert.equal(result.allowed, false);
+    assert.equal(result.code, ErrorCodes.FORBIDDEN);
+  });
+
+  it('refuses priorities that are not whole numbers of at least 1', () => {
+    assert.equal(resolveTaskPriority('pro', 0).code, ErrorCodes.INVALID_INPUT);
+    assert.equal(resolveTaskPriority('pro', 1.5).code, ErrorCodes.INVALID_INPUT);
+  });
+});
+
+describe('resolveTaskTiming', () => {
+  const now = new Date('2024-01-01T00:00:00Z');
+
+  it('allows tasks without deadlines', () => {
+    assert.deepEqual(resolveTaskTiming(undefined, undefined, now), { allowed: true, runAt: undefined, expiresAt: undefined });
+  });
+
+  it('normalizes dates to ISO strings', () => {
+    assert.deepEqual(resolveTaskTiming('2024-01-02T01:00:00+01:00', '2024-01-03T00:00:00Z', now), {
+      allowed: true,
+      runAt: '2024-01-02T00:00:00.000Z',
+      expiresAt: '2024-01-03T00:00:00.000Z',
+    });
+  });
+
+  it('refuses malformed dates', () => {
+    assert.equal(resolveTaskTiming('tomorrow', undefined, now).allowed, false);
+    assert.equal(resolveTaskTiming(undefined, 'never', now).allowed, false);
+  });
+
+  it('refuses runAt too far ahead', () => {
+    assert.equal(resolveTaskTiming('2024-03-01T00:00:00Z', undefined, now).allowed, false);
+  });
+
+  it('refuses expiresAt in the past or before runAt', () => {
+    assert.equal(resolveTaskTiming(undefined, '2023-12-31T00:00:00Z', now).allowed, false);
+    assert.equal(resolveTaskTiming('2024-01-02T00:00:00Z', '2024-01-01T12:00:00Z', now).allowed, false);
+  });
+});
+
+describe('canCreateTask', () => {
+  it("stops free users at the plan's monthly limit", () => {
+    assert.equal(canCreateTask('free', PLAN_LIMITS.free.tasksPerMonth - 1).allowed, true);
+    assert.deepEqual(canCreateTask('free', PLAN_LIMITS.free.tasksPerMonth), {
+      allowed: false,
+      reason: 'Monthly task limit reached. Upgrade to continue.',
+      code: ErrorCodes.TASK_LIMIT_REACHED,
+    });
+  });
+
+  it('lets paid plans go over', () => {
+    assert.equal(canCreateTask('starter', PLAN_LIMITS.starter.tasksPerMonth + 1).allowed, true);
+  });
+});
+
+describe('calculateResourceCost', () => {
+  it('charges CPU and memory time, rounded up to whole cents', () => {
+    assert.equal(calculateResourceCost({ cpuSeconds: 0, memoryMbSeconds: 0, durationSeconds: 0 }), 0);
+    assert.equal(calculateResourceCost({ cpuSeconds: 1000, memoryMbSeconds: 10000, durationSeconds: 60 }), 2);
+    assert.equal(calculateResourceCost({ cpuSeconds: 1, memoryMbSeconds: 0, durationSeconds: 1 }), 1);
+  });
+});
+
+describe('isPrivateAddress', () => {
+  it('matches loopback, private, link-local and reserved IPv4 addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('matches private IPv6 addresses, bracketed or IPv4-mapped', () => {
+    for (const address of ['::1', '[::1]', '::', 'fd00::1', 'fe80::1', 'ff02::1', '::ffff:127.0.0.1', '::ffff:7f00:1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('leaves public addresses and hostnames alone', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '2001:4860::8888', '::ffff:8.8.8.8', 'example.com']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe('isInternalHostname', () => {
+  it('matches localhost, single-label names and internal suffixes', () => {
+    for (const hostname of ['localhost', 'pocketbase', 'redis', 'api.localhost', 'db.internal', 'printer.local', 'LOCALHOST.']) {
+      assert.equal(isInternalHostname(hostname), true, hostname);
+    }
+  });
+
+  it('leaves public names alone', () => {
+    for (const hostname of ['example.com', 'hooks.example.com.', 'internal.example.com']) {
+      assert.equal(isInternalHostname(hostname), false, hostname);
+    }
+  });
+});
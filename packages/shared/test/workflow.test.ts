@@ -0,0 +1,173 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  findWorkflowRefs,
+  getWorkflowState,
+  parseWorkflowRef,
+  resolveWorkflowInput,
+  sortWorkflowSteps,
+  validateWorkflowSteps,
+  type WorkflowStepDefinition,
+} from '../src/index.js';
+
+function step(id: string, dependsOn: string[] = [], extra: Partial<WorkflowStepDefinition> = {}): WorkflowStepDefinition {
+  return { id, type: 'example-worker', input: {}, dependsOn, onFailure: 'fail-fast', ...extra };
+}
+
+describe('parseWorkflowRef', () => {
+  it('reads the step and the path into its output', () => {
+    assert.deepEqual(parseWorkflowRef('$.steps.extract.output'), { stepId: 'extract', path: [] });
+    assert.deepEqual(parseWorkflowRef("$.steps.extract.output.rows[0]['first name'].length"), {
+      stepId: 'extract',
+      path: ['rows', 0, 'first name', 'length'],
+    });
+  });
+
+  it('returns null for anything else', () => {
+    assert.equal(parseWorkflowRef('$.steps.extract.input'), null);
+    assert.equal(parseWorkflowRef('$.steps.extract.output.rows[x]'), null);
+    assert.equal(parseWorkflowRef(42), null);
+  });
+});
+
+describe('findWorkflowRefs', () => {
+  it('finds references anywhere in the input', () => {
+    const input = {
+      rows: { $ref: '$.steps.extract.output.rows' },
+      options: { files: [{ $ref: '$.steps.upload.output.url' }, 'plain'] },
+      // Objects with other keys are plain values
+      literal: { $ref: 'x', other: 1 },
+    };
+    assert.deepEqual(findWorkflowRefs(input), [
+      { at: ['rows'], expression: '$.steps.extract.output.rows' },
+      { at: ['options', 'files', 0], expression: '$.steps.upload.output.url' },
+    ]);
+  });
+});
+
+describe('sortWorkflowSteps', () => {
+  it('puts every step after the steps it depends on', () => {
+    assert.deepEqual(sortWorkflowSteps([step('report', ['a', 'b']), step('b', ['a']), step('a')]), ['a', 'b', 'report']);
+  });
+
+  it('returns null for cycles', () => {
+    assert.equal(sortWorkflowSteps([step('a', ['b']), step('b', ['a'])]), null);
+  });
+});
+
+describe('validateWorkflowSteps', () => {
+  it('accepts references to upstream steps', () => {
+    assert.deepEqual(validateWorkflowSteps([
+      step('extract'),
+      step('clean', ['extract']),
+      step('report', ['clean'], { input: { rows: { $ref: '$.steps.extract.output.rows' } } }),
+    ]), []);
+  });
+
+  it('refuses references to steps that are not upstream', () => {
+    assert.deepEqual(validateWorkflowSteps([
+      step('extract'),
+      step('report', [], { input: { rows: { $ref: '$.steps.extract.output.rows' } } }),
+    ]), [{ path: 'steps[1].input.rows', message: 'extract must be a step this one depends on' }]);
+  });
+
+  it('refuses malformed references', () => {
+    const errors = validateWorkflowSteps([step('a'), step('b', ['a'], { input: { x: { $ref: '$.a' } } })]);
+    assert.deepEqual(errors.map((error) => error.path), ['steps[1].input.x']);
+  });
+
+  it('refuses unknown and circular dependencies', () => {
+    assert.deepEqual(validateWorkflowSteps([step('a', ['missing'])]), [
+      { path: 'steps[0].dependsOn[0]', message: 'Unknown step: missing' },
+    ]);
+    assert.deepEqual(validateWorkflowSteps([step('a', ['b']), step('b', ['a'])]), [
+      { path: 'steps', message: 'Steps depend on each other in a cycle' },
+    ]);
+  });
+
+  it('refuses duplicate ids and bad fields', () => {
+    const errors = validateWorkflowSteps([step('a'), step('a', [], { onFailure: 'ignore' as never, retries: -1 })]);
+    assert.deepEqual(errors.map((error) => error.path), ['steps[1].id', 'steps[1].onFailure', 'steps[1].retries']);
+  });
+
+  it('refuses empty workflows', () => {
+    assert.deepEqual(validateWorkflowSteps([]), [{ path: 'steps', message: 'steps must be a non-empty array' }]);
+  });
+});
+
+describe('resolveWorkflowInput', () => {
+  it('fills in references from the outputs', () => {
+    const input = { rows: { $ref: '$.steps.extract.output.rows' }, first: { $ref: '$.steps.extract.output.rows[0]' }, n: 3 };
+    assert.deepEqual(resolveWorkflowInput(input, { extract: { rows: ['a', 'b'] } }), {
+      input: { rows: ['a', 'b'], first: 'a', n: 3 },
+      errors: [],
+    });
+  });
+
+  it('reports references that match nothing and leaves them null', () => {
+    const input = { rows: { $ref: '$.steps.extract.output.missing' } };
+    assert.deepEqual(resolveWorkflowInput(input, { extract: {} }), {
+      input: { rows: null },
+      errors: [{ path: 'rows', message: '$.steps.extract.output.missing matched nothing' }],
+    });
+  });
+
+  it("doesn't read inherited properties", () => {
+    const input = { x: { $ref: '$.steps.extract.output.constructor' } };
+    assert.equal(resolveWorkflowInput(input, { extract: {} }).errors.length, 1);
+  });
+});
+
+describe('getWorkflowState', () => {
+  const steps = [step('extract'), step('report', ['extract'])];
+
+  it('starts the steps without dependencies', () => {
+    const state = getWorkflowState(steps, []);
+    assert.equal(state.status, 'running');
+    assert.deepEqual(state.ready, ['extract']);
+    assert.deepEqual(state.steps.map((s) => s.status), ['waiting', 'waiting']);
+  });
+
+  it('starts steps once their dependencies complete', () => {
+    const state = getWorkflowState(steps, [{ id: 't1', step: 'extract', status: 'completed', output: { rows: [] } }]);
+    assert.deepEqual(state.ready, ['report']);
+    assert.equal(state.steps[0]!.status, 'completed');
+  });
+
+  it('completes once every step has', () => {
+    const state = getWorkflowState(steps, [
+      { id: 't1', step: 'extract', status: 'completed' },
+      { id: 't2', step: 'report', status: 'completed' },
+    ]);
+    assert.equal(state.status, 'completed');
+  });
+
+  it('fails fast, skipping steps that had not started', () => {
+    const state = getWorkflowState(steps, [{ id: 't1', step: 'extract', status: 'failed', error: 'boom' }]);
+    assert.equal(state.status, 'failed');
+    assert.equal(state.error, 'Step extract failed: boom');
+    assert.deepEqual(state.steps.map((s) => s.status), ['failed', 'skipped']);
+  });
+
+  it('retries failed steps up to their retries', () => {
+    const retrying = [step('extract', [], { onFailure: 'retry', retries: 1 }), step('report', ['extract'])];
+    const first = getWorkflowState(retrying, [{ id: 't1', step: 'extract', status: 'failed' }]);
+    assert.equal(first.status, 'running');
+    assert.deepEqual(first.ready, ['extract']);
+
+    const second = getWorkflowState(retrying, [
+      { id: 't1', step: 'extract', status: 'failed' },
+      { id: 't2', step: 'extract', status: 'failed' },
+    ]);
+    assert.equal(second.status, 'failed');
+    assert.equal(second.steps[0]!.attempts, 2);
+  });
+
+  it('carries on past steps that may fail, skipping what depends on them', () => {
+    const continuing = [step('extract', [], { onFailure: 'continue' }), step('report', ['extract']), step('other')];
+    const state = getWorkflowState(continuing, [{ id: 't1', step: 'extract', status: 'failed' }]);
+    assert.equal(state.status, 'running');
+    assert.deepEqual(state.ready, ['other']);
+    assert.equal(state.steps[1]!.status, 'skipped');
+  });
+});
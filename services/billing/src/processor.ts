@@ -52,7 +52,7 @@ export function createBillingProcessor(
       if (existingRecords.items.length > 0) {
         const record = existingRecords.items[0]!;
         await pb.collection('usage_records').update(record.id, {
-          costCents: (record.costCents || 0) + costCents,
+          cost_cents: (record.cost_cents || 0) + costCents,
         });
       }
 
@@ -77,20 +77,20 @@ export function createRoutes(stripeService: StripeService, pocketbaseUrl: string
       if (existing.items.length > 0) {
         const record = existing.items[0]!;
         await pb.collection('usage_records').update(record.id, {
-          cpuSeconds: (record.cpuSeconds || 0) + resourceUsage.cpuSeconds,
-          memoryMbSeconds:
-            (record.memoryMbSeconds || 0) + resourceUsage.memoryMbSeconds,
-          taskCount: (record.taskCount || 0) + 1,
+          cpu_seconds: (record.cpu_seconds || 0) + resourceUsage.cpuSeconds,
+          memory_mb_seconds:
+            (record.memory_mb_seconds || 0) + resourceUsage.memoryMbSeconds,
+          task_count: (record.task_count || 0) + 1,
         });
       } else {
         await pb.collection('usage_records').create({
           user: userId,
           task: taskId,
           period,
-          cpuSeconds: resourceUsage.cpuSeconds,
-          memoryMbSeconds: resourceUsage.memoryMbSeconds,
-          taskCount: 1,
-          costCents: 0,
+          cpu_seconds: resourceUsage.cpuSeconds,
+          memory_mb_seconds: resourceUsage.memoryMbSeconds,
+          task_count: 1,
+          cost_cents: 0,
         });
       }
 
@@ -131,9 +131,9 @@ export function createRoutes(stripeService: StripeService, pocketbaseUrl: string
       const summary = calculateUsageSummary(
         plan,
         usageRecords.items.map((r) => ({
-          cpuSeconds: r.cpuSeconds || 0,
-          memoryMbSeconds: r.memoryMbSeconds || 0,
-          taskCount: r.taskCount || 0,
+          cpuSeconds: r.cpu_seconds || 0,
+          memoryMbSeconds: r.memory_mb_seconds || 0,
+          taskCount: r.task_count || 0,
         }))
       );
 
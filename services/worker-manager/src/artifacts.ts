@@ -0,0 +1,130 @@
+import path from 'path';
+import tar from 'tar-stream';
+import type PocketBase from 'pocketbase';
+import { ARTIFACT_LIMITS } from '@saassy/shared';
+
+export interface Artifact {
+  name: string; // path relative to /output
+  size: number;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ArtifactSummary {
+  stored: number;
+  storedBytes: number;
+  skipped: string[]; // "<name>: <reason>"
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.md': 'text/markdown',
+  '.xml': 'application/xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4',
+  '.mp3': 'audio/mpeg',
+};
+
+export function guessContentType(name: string): string {
+  return CONTENT_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Read regular files out of a tar archive of the output directory, one at a
+ * time, within the task's byte quota. Files over a limit are skipped and
+ * reported rather than failing the task.
+ */
+export async function extractArtifacts(
+  archive: NodeJS.ReadableStream,
+  maxBytes: number,
+  onArtifact: (artifact: Artifact) => Promise<void>
+): Promise<ArtifactSummary> {
+  const summary: ArtifactSummary = { stored: 0, storedBytes: 0, skipped: [] };
+  const extract = tar.extract();
+
+  await new Promise<void>((resolve, reject) => {
+    extract.on('entry', (header, stream, next) => {
+      // Entries are prefixed with the archived directory: "output/report.pdf"
+      const name = header.name.split('/').slice(1).join('/');
+      const size = header.size || 0;
+
+      const skip = (reason?: string) => {
+        if (reason) summary.skipped.push(`${name}: ${reason}`);
+        stream.on('end', () => next());
+        stream.resume();
+      };
+
+      if (header.type !== 'file' || !name) return skip();
+      if (summary.stored >= ARTIFACT_LIMITS.maxFiles) {
+        return skip(`more than ${ARTIFACT_LIMITS.maxFiles} files`);
+      }
+      if (size > ARTIFACT_LIMITS.maxFileBytes) {
+        return skip(`larger than ${ARTIFACT_LIMITS.maxFileBytes} bytes`);
+      }
+      if (summary.storedBytes + size > maxBytes) {
+        return skip(`plan artifact quota of ${maxBytes} bytes exceeded`);
+      }
+
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => {
+        const artifact = {
+          name,
+          size,
+          contentType: guessContentType(name),
+          data: Buffer.concat(chunks),
+        };
+        onArtifact(artifact)
+          .then(() => {
+            summary.stored++;
+            summary.storedBytes += size;
+          })
+          .catch((error) => {
+            summary.skipped.push(`${name}: ${error instanceof Error ? error.message : 'upload failed'}`);
+          })
+          .finally(() => next());
+      });
+    });
+
+    extract.on('finish', resolve);
+    extract.on('error', reject);
+    archive.on('error', reject);
+    archive.pipe(extract);
+  });
+
+  return summary;
+}
+
+// Store an artifact in PocketBase as a task_artifacts file record
+export async function uploadArtifact(
+  pb: PocketBase,
+  taskId: string,
+  userId: string,
+  artifact: Artifact
+): Promise<void> {
+  const form = new FormData();
+  form.append('task', taskId);
+  form.append('user', userId);
+  form.append('name', artifact.name);
+  form.append('size', String(artifact.size));
+  form.append('content_type', artifact.contentType);
+  form.append(
+    'file',
+    new Blob([artifact.data], { type: artifact.contentType }),
+    path.basename(artifact.name)
+  );
+
+  await pb.collection('task_artifacts').create(form);
+}
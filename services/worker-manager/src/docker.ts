@@ -1,21 +1,73 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import os from 'os';
+import { Writable } from 'stream';
 import Docker from 'dockerode';
-import { WORKER_DEFAULTS } from '@saassy/shared';
-import type { ResourceUsage } from '@saassy/shared';
+import { ARTIFACT_LIMITS, DEFAULT_SECURITY_PROFILE, INPUT_LIMITS, WORKER_DEFAULTS } from '@saassy/shared';
+import type { RegistryAuth, ResourceUsage, TaskOutput, WorkerFrame, WorkerSecurityProfile } from '@saassy/shared';
+import { extractArtifacts, type Artifact, type ArtifactSummary } from './artifacts.js';
+import { createEgressProxy, type EgressGrant, type EgressProxy } from './egress.js';
+import {
+  DEFAULT_IMAGE_POLICY,
+  decryptRegistryAuth,
+  pinnedReference,
+  verifyImageSignature,
+  type ImagePolicy,
+} from './images.js';
+import { packInput, type InputFile } from './inputs.js';
+import { WorkerOutputParser } from './protocol.js';
+import { ResourceMonitor } from './stats.js';
+
+// How long to wait for buffered output once the container has exited
+const OUTPUT_DRAIN_TIMEOUT_MS = 5000;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Name workers on the egress network reach the proxy by
+const EGRESS_PROXY_ALIAS = 'saassy-egress-proxy';
+
+const NO_RESOURCE_USAGE: ResourceUsage = { cpuSeconds: 0, memoryMbSeconds: 0, durationSeconds: 0 };
+
+// A worker container found by its saassy.task.id label
+export interface TaskContainer {
+  id: string;
+  taskId: string;
+  state: string; // created, running, exited, ...
+}
 
 export interface ContainerConfig {
   image: string;
+  // Pinning, pull policy, credentials and checks for the image
+  imagePolicy?: ImagePolicy;
   taskId: string;
   input: Record<string, unknown>;
+  // Uploaded with the task; mounted under /input/files
+  inputFiles?: InputFile[];
   cpuLimit?: number;
   memoryLimit?: string;
+  pidsLimit?: number;
+  // Writable layer size; only applied when disk quotas are enabled
+  diskLimitMb?: number;
+  // Bytes the container may send before it is stopped; -1 = unlimited
+  egressLimitMb?: number;
   timeoutSeconds?: number;
+  // How the container is sandboxed; defaults to DEFAULT_SECURITY_PROFILE
+  security?: WorkerSecurityProfile;
   environment?: Record<string, string>;
+  // Called for each progress, log and result frame as the worker prints it
+  onFrame?: (frame: WorkerFrame) => void;
+  // Called for each stderr line and log frame
+  onLog?: (line: string) => void;
+  // Called for each file left in /output, within maxArtifactBytes in total
+  onArtifact?: (artifact: Artifact) => Promise<void>;
+  maxArtifactBytes?: number;
 }
 
 export interface ContainerResult {
   containerId: string;
   exitCode: number;
-  output: string;
+  output: TaskOutput;
+  artifacts?: ArtifactSummary;
   error?: string;
   resourceUsage: ResourceUsage;
 }
@@ -23,12 +75,27 @@ export interface ContainerResult {
 export class DockerManager {
   private docker: Docker;
   private network: string;
+  private diskQuotas: boolean;
+  // Internal network for workers whose egress goes through the allowlist proxy
+  private egressNetwork: string;
+  private egressProxyPort: number;
+  private egressProxy: EgressProxy | null = null;
+  // The "strict" seccomp profile, passed inline to Docker
+  private strictSeccomp: string;
+  // Image digest + key fingerprint pairs whose signature has been verified
+  private verifiedSignatures = new Set<string>();
 
   constructor() {
     this.docker = new Docker({
       socketPath: process.env.DOCKER_HOST || '/var/run/docker.sock',
     });
     this.network = process.env.WORKER_NETWORK || WORKER_DEFAULTS.network;
+    this.diskQuotas = process.env.WORKER_DISK_QUOTAS === 'true';
+    this.egressNetwork = `${this.network}-egress`;
+    this.egressProxyPort = parseInt(process.env.EGRESS_PROXY_PORT || '3128', 10);
+    this.strictSeccomp = JSON.stringify(
+      JSON.parse(readFileSync(new URL('../seccomp/strict.json', import.meta.url), 'utf8'))
+    );
   }
 
   async init() {
@@ -36,102 +103,287 @@ export class DockerManager {
     const info = await this.docker.info();
     console.log(`Connected to Docker: ${info.Name}`);
 
-    // Ensure worker network exists
-    await this.ensureNetwork();
+    // Disk limits use --storage-opt size, which needs overlay2 on XFS mounted
+    // with pquota; Docker refuses to create containers with it elsewhere
+    if (!this.diskQuotas) {
+      console.warn('Task disk limits are not enforced; set WORKER_DISK_QUOTAS=true on overlay2/xfs with pquota');
+    } else if (info.Driver !== 'overlay2') {
+      console.warn(`WORKER_DISK_QUOTAS is set but the storage driver is ${info.Driver}; disk limits disabled`);
+      this.diskQuotas = false;
+    }
+
+    // Ensure worker networks exist
+    await this.ensureNetwork(this.network, false);
+    await this.ensureNetwork(this.egressNetwork, true);
+    await this.startEgressProxy();
   }
 
-  private async ensureNetwork() {
+  async close() {
+    await this.egressProxy?.stop();
+  }
+
+  private async ensureNetwork(name: string, internal: boolean) {
+    // The name filter matches substrings
     const networks = await this.docker.listNetworks({
-      filters: { name: [this.network] },
+      filters: { name: [name] },
     });
 
-    if (networks.length === 0) {
+    if (!networks.some((network) => network.Name === name)) {
       await this.docker.createNetwork({
-        Name: this.network,
+        Name: name,
         Driver: 'bridge',
+        Internal: internal, // no route out; egress only through the proxy
       });
-      console.log(`Created network: ${this.network}`);
+      console.log(`Created network: ${name}`);
+    }
+  }
+
+  /**
+   * Join the egress network and serve the allowlist proxy on it. Only works
+   * when the worker manager itself runs in a container; otherwise worker
+   * types with network "allowlist" fail to start.
+   */
+  private async startEgressProxy() {
+    try {
+      const self = await this.docker.getContainer(os.hostname()).inspect();
+      if (!self.NetworkSettings.Networks[this.egressNetwork]) {
+        await this.docker.getNetwork(this.egressNetwork).connect({
+          Container: self.Id,
+          EndpointConfig: { Aliases: [EGRESS_PROXY_ALIAS] },
+        });
+      }
+
+      const proxy = createEgressProxy(this.egressProxyPort, EGRESS_PROXY_ALIAS);
+      await proxy.start();
+      this.egressProxy = proxy;
+    } catch (error) {
+      console.warn(
+        'Egress proxy not started; worker types with network "allowlist" will fail:',
+        error instanceof Error ? error.message : error
+      );
     }
   }
 
   async runContainer(config: ContainerConfig): Promise<ContainerResult> {
     const {
       image,
+      imagePolicy = DEFAULT_IMAGE_POLICY,
       taskId,
       input,
+      inputFiles = [],
       cpuLimit = WORKER_DEFAULTS.cpuLimit,
       memoryLimit = WORKER_DEFAULTS.memoryLimit,
+      pidsLimit = WORKER_DEFAULTS.pidsLimit,
+      diskLimitMb,
+      egressLimitMb = -1,
       timeoutSeconds = WORKER_DEFAULTS.timeoutSeconds,
+      security = DEFAULT_SECURITY_PROFILE,
       environment = {},
+      onFrame,
+      onLog: writeLog = () => undefined,
+      onArtifact,
+      maxArtifactBytes = 0,
     } = config;
 
-    const startTime = Date.now();
+    // A container left by an interrupted attempt, e.g. when the worker
+    // manager restarted mid-task, is picked up instead of run a second time
+    const existing = await this.inspectTaskContainer(taskId);
+    if (existing?.State.Status === 'created') {
+      await this.removeContainer(existing.Id);
+    }
+    const resumed = existing && existing.State.Status !== 'created' ? existing : null;
+
+    let reference = image;
+    if (!resumed) {
+      // Pull the image as the worker type's policy says and check it
+      const prepared = await this.prepareImage(image, imagePolicy);
+      if (prepared.rejection) {
+        return {
+          containerId: '',
+          exitCode: -1,
+          output: {},
+          error: `Image rejected: ${prepared.rejection}`,
+          resourceUsage: NO_RESOURCE_USAGE,
+        };
+      }
+      reference = prepared.reference;
+
+      // Refuse to start containers the profile doesn't allow
+      const violation = await this.checkSecurityProfile(reference, security);
+      if (violation) {
+        return {
+          containerId: '',
+          exitCode: -1,
+          output: {},
+          error: `Security profile violation: ${violation}`,
+          resourceUsage: NO_RESOURCE_USAGE,
+        };
+      }
+    }
+
+    // Things the sandbox stopped the worker from doing, reported with a failure
+    const violations = new Set<string>();
+    const onLog = (line: string) => {
+      if (security.readOnlyRootfs && /read-only file system|EROFS/i.test(line)) {
+        violations.add('wrote to the read-only root filesystem (use /tmp or /output)');
+      }
+      writeLog(line);
+    };
+
+    let egressGrant: EgressGrant | null = null;
+    if (security.network === 'allowlist' && this.egressProxy) {
+      // A resumed container keeps the proxy credentials it was started with
+      const token = resumed ? this.proxyToken(resumed) : undefined;
+      egressGrant = this.egressProxy.grant(taskId, security.egressAllowlist, (target) => {
+        const message = `egress to ${target} blocked`;
+        if (!violations.has(message)) writeLog(`[saassy] Blocked egress to ${target}`);
+        violations.add(message);
+      }, token);
+    }
+    const proxyEnv = egressGrant
+      ? ['HTTP_PROXY', 'HTTPS_PROXY', 'http_proxy', 'https_proxy'].map((name) => `${name}=${egressGrant!.proxyUrl}`)
+      : [];
 
-    // Pull image if not present
-    await this.pullImageIfNeeded(image);
+    // Small inputs are also passed inline for workers that predate the input
+    // file; large ones would exceed argument limits and show in `docker inspect`
+    const inputJson = JSON.stringify(input);
+    const inlineInput = Buffer.byteLength(inputJson) <= INPUT_LIMITS.maxEnvBytes
+      ? [`TASK_INPUT=${inputJson}`]
+      : [];
 
     // Create container
-    const container = await this.docker.createContainer({
-      Image: image,
+    const container = resumed ? this.docker.getContainer(resumed.Id) : await this.docker.createContainer({
+      Image: reference,
       name: `saassy-task-${taskId}`,
+      ...(security.user && { User: security.user }),
       Env: [
         `TASK_ID=${taskId}`,
-        `TASK_INPUT=${JSON.stringify(input)}`,
+        `TASK_INPUT_FILE=${INPUT_LIMITS.mountPath}/task.json`,
+        `TASK_INPUT_FILES_DIR=${INPUT_LIMITS.mountPath}/files`,
+        ...inlineInput,
+        ...proxyEnv,
         ...Object.entries(environment).map(([k, v]) => `${k}=${v}`),
       ],
+      // Anonymous volume so files survive until they're collected after exit;
+      // it takes the ownership of the image's /output directory, if any
+      Volumes: {
+        [INPUT_LIMITS.mountPath]: {},
+        [ARTIFACT_LIMITS.outputPath]: {},
+      },
       HostConfig: {
-        NetworkMode: this.network,
+        NetworkMode: this.networkMode(security),
         Memory: this.parseMemoryLimit(memoryLimit),
-        NanoCpus: cpuLimit * 1e9,
+        MemorySwap: this.parseMemoryLimit(memoryLimit), // no swap beyond the memory limit
+        NanoCpus: Math.round(cpuLimit * 1e9),
+        PidsLimit: Math.min(pidsLimit, security.pidsLimit ?? pidsLimit),
+        ...(this.diskQuotas && diskLimitMb && { StorageOpt: { size: `${diskLimitMb}M` } }),
         AutoRemove: false, // We'll remove after getting logs
-        ReadonlyRootfs: false, // Some workers need write access
+        ...(security.dropAllCapabilities && { CapDrop: ['ALL'] }),
+        CapAdd: security.addCapabilities,
+        SecurityOpt: this.securityOpts(security),
+        // /input and /output are volumes, so they stay writable
+        ReadonlyRootfs: security.readOnlyRootfs,
+        ...(security.readOnlyRootfs && {
+          Tmpfs: { '/tmp': `rw,noexec,nosuid,nodev,size=${security.tmpfsSizeMb}m` },
+        }),
+        Ulimits: [
+          { Name: 'nofile', Soft: security.nofileLimit, Hard: security.nofileLimit },
+          { Name: 'core', Soft: 0, Hard: 0 },
+        ],
       },
       Labels: {
         'saassy.task.id': taskId,
         'saassy.managed': 'true',
       },
+    }).catch((error) => {
+      egressGrant?.revoke();
+      throw error;
     });
 
     const containerId = container.id;
-    console.log(`Created container ${containerId} for task ${taskId}`);
+    console.log(`${resumed ? 'Resumed' : 'Created'} container ${containerId} for task ${taskId}`);
+
+    let onEgressExceeded = () => {};
+    const egressExceeded = new Promise<'egress'>((resolve) => {
+      onEgressExceeded = () => resolve('egress');
+    });
+    const monitor = new ResourceMonitor(
+      container,
+      egressLimitMb >= 0 ? egressLimitMb * BYTES_PER_MB : -1,
+      () => onEgressExceeded()
+    );
+    const parser = new WorkerOutputParser((frame) => {
+      if (frame.type === 'log') {
+        onLog(`[${frame.level}] ${frame.message}`);
+      }
+      onFrame?.(frame);
+    });
 
     try {
-      // Start container
-      await container.start();
+      let outputDone: Promise<void>;
+      let startedAt = Date.now();
+      if (resumed) {
+        // Replay the output from the start; the earlier attempt's logs are gone
+        startedAt = Date.parse(resumed.State.StartedAt);
+        const stream = await container.logs({ follow: true, stdout: true, stderr: true });
+        outputDone = this.followOutput(stream, parser, onLog);
+        writeLog('[saassy] Reattached to the container after a worker manager restart');
+      } else {
+        // Written before start; the files are root-owned and read-only
+        await container.putArchive(packInput(input, inputFiles), { path: INPUT_LIMITS.mountPath });
+
+        // Attach before starting so no early output or stats are missed
+        const stream = await container.attach({ stream: true, stdout: true, stderr: true });
+        outputDone = this.followOutput(stream, parser, onLog);
+        await monitor.start();
+
+        await container.start();
+        startedAt = Date.now();
+      }
 
-      // Wait for completion with timeout
+      // Sample its stats until it exits, counting from when it started
+      await monitor.start(startedAt);
+
+      // Wait for completion with timeout, or until the egress limit is hit.
+      // The timeout counts from when the container first started.
+      const remainingMs = Math.max(0, timeoutSeconds * 1000 - (Date.now() - startedAt));
+      const deadline = resumed?.State.Running === false ? null : this.timeout(remainingMs);
       const result = await Promise.race([
         container.wait(),
-        this.timeout(timeoutSeconds * 1000),
-      ]);
+        ...(deadline ? [deadline.done] : []),
+        egressExceeded,
+      ]).finally(() => deadline?.cancel());
 
-      const endTime = Date.now();
-      const durationSeconds = (endTime - startTime) / 1000;
+      // Stop the container first so timed-out tasks stop accruing usage
+      if (result === 'timeout' || result === 'egress') {
+        await container.stop({ t: 5 }).catch(() => undefined);
+      }
 
-      // Get logs
-      const logs = await container.logs({
-        stdout: true,
-        stderr: true,
-        follow: false,
-      });
-      const output = logs.toString('utf8');
+      const resourceUsage = await monitor.stop();
 
-      // Get resource stats (simplified - in production use cAdvisor or similar)
-      const resourceUsage: ResourceUsage = {
-        cpuSeconds: durationSeconds * cpuLimit,
-        memoryMbSeconds: durationSeconds * (this.parseMemoryLimit(memoryLimit) / 1024 / 1024),
-        durationSeconds,
-      };
+      const drainDeadline = this.timeout(OUTPUT_DRAIN_TIMEOUT_MS);
+      await Promise.race([outputDone, drainDeadline.done]).finally(drainDeadline.cancel);
+      const output = parser.end();
 
-      // Cleanup
-      await container.remove({ force: true });
+      const artifacts = onArtifact
+        ? await this.collectArtifacts(container, maxArtifactBytes, onArtifact, onLog)
+        : undefined;
 
-      if (result === 'timeout') {
+      // Cleanup, including the output volume
+      await container.remove({ force: true, v: true });
+
+      if (result === 'timeout' || result === 'egress') {
         return {
           containerId,
           exitCode: -1,
           output,
-          error: `Task timed out after ${timeoutSeconds} seconds`,
+          artifacts,
+          error: this.describeFailure(
+            result === 'timeout'
+              ? `Task timed out after ${timeoutSeconds} seconds`
+              : `Task exceeded its network egress limit of ${egressLimitMb} MB`,
+            violations
+          ),
           resourceUsage,
         };
       }
@@ -140,34 +392,139 @@ export class DockerManager {
         containerId,
         exitCode: result.StatusCode,
         output,
-        error: result.StatusCode !== 0 ? `Exit code: ${result.StatusCode}` : undefined,
+        artifacts,
+        error: result.StatusCode !== 0
+          ? this.describeFailure(`Exit code: ${result.StatusCode}`, violations)
+          : undefined,
         resourceUsage,
       };
     } catch (error) {
+      const resourceUsage: ResourceUsage = await monitor.stop();
+
       // Cleanup on error
       try {
-        await container.remove({ force: true });
+        await container.remove({ force: true, v: true });
       } catch {
         // Ignore cleanup errors
       }
 
-      const endTime = Date.now();
-      const durationSeconds = (endTime - startTime) / 1000;
-
       return {
         containerId,
         exitCode: -1,
-        output: '',
+        output: {},
         error: error instanceof Error ? error.message : 'Unknown error',
-        resourceUsage: {
-          cpuSeconds: durationSeconds * cpuLimit,
-          memoryMbSeconds: 0,
-          durationSeconds,
-        },
+        resourceUsage,
       };
+    } finally {
+      egressGrant?.revoke();
     }
   }
 
+  /**
+   * Check an image against the security profile before creating its
+   * container. Returns the violation, or null if the task may run.
+   */
+  private async checkSecurityProfile(image: string, security: WorkerSecurityProfile): Promise<string | null> {
+    if (security.runAsNonRoot) {
+      const info = await this.docker.getImage(image).inspect();
+      const user = security.user || info.Config?.User || '';
+      if (user === '' || /^(0|root)(:|$)/.test(user)) {
+        return 'the image runs as root; set a non-root USER in its Dockerfile or security.user on the worker type';
+      }
+    }
+    if (security.network === 'allowlist' && !this.egressProxy) {
+      return 'network "allowlist" needs the egress proxy, which is not running';
+    }
+    return null;
+  }
+
+  private networkMode(security: WorkerSecurityProfile): string {
+    switch (security.network) {
+      case 'none':
+        return 'none';
+      case 'allowlist':
+        return this.egressNetwork;
+      default:
+        return this.network;
+    }
+  }
+
+  private securityOpts(security: WorkerSecurityProfile): string[] {
+    const opts = security.noNewPrivileges ? ['no-new-privileges:true'] : [];
+    if (security.seccomp === 'strict') {
+      opts.push(`seccomp=${this.strictSeccomp}`);
+    } else if (security.seccomp === 'unconfined') {
+      opts.push('seccomp=unconfined');
+    }
+    return opts;
+  }
+
+  // Add what the sandbox blocked to a failed task's error
+  private describeFailure(error: string, violations: Set<string>): string {
+    if (violations.size === 0) return error;
+    return `${error} (security profile: ${[...violations].join('; ')})`;
+  }
+
+  private async collectArtifacts(
+    container: Docker.Container,
+    maxBytes: number,
+    onArtifact: (artifact: Artifact) => Promise<void>,
+    onLog: (line: string) => void
+  ): Promise<ArtifactSummary | undefined> {
+    try {
+      const archive = await container.getArchive({ path: ARTIFACT_LIMITS.outputPath });
+      const summary = await extractArtifacts(archive, maxBytes, onArtifact);
+      for (const skipped of summary.skipped) {
+        onLog(`[saassy] Artifact not stored: ${skipped}`);
+      }
+      return summary;
+    } catch (error) {
+      console.error(`Failed to collect artifacts from ${container.id}:`, error);
+      onLog('[saassy] Failed to collect output files');
+      return undefined;
+    }
+  }
+
+  /**
+   * Feed a container's multiplexed stdout to the frame parser and stderr lines
+   * to `onLog`. Resolves once the stream ends, i.e. after the container exits.
+   */
+  private followOutput(
+    stream: NodeJS.ReadableStream,
+    parser: WorkerOutputParser,
+    onLog: (line: string) => void
+  ): Promise<void> {
+    const stdout = new Writable({
+      write(chunk, _encoding, callback) {
+        parser.write(chunk);
+        callback();
+      },
+    });
+    let stderrBuffer = '';
+    const stderr = new Writable({
+      write(chunk, _encoding, callback) {
+        stderrBuffer += chunk.toString();
+        const lines = stderrBuffer.split('\n');
+        stderrBuffer = lines.pop() || '';
+        lines.forEach(onLog);
+        callback();
+      },
+    });
+
+    this.docker.modem.demuxStream(stream, stdout, stderr);
+
+    return new Promise((resolve) => {
+      const done = () => {
+        if (stderrBuffer) onLog(stderrBuffer);
+        stderrBuffer = '';
+        resolve();
+      };
+      stream.on('end', done);
+      stream.on('close', done);
+      stream.on('error', done);
+    });
+  }
+
   async stopContainer(taskId: string): Promise<void> {
     const containers = await this.docker.listContainers({
       all: true,
@@ -177,11 +534,47 @@ export class DockerManager {
     for (const containerInfo of containers) {
       const container = this.docker.getContainer(containerInfo.Id);
       await container.stop({ t: 10 });
-      await container.remove({ force: true });
+      await container.remove({ force: true, v: true });
       console.log(`Stopped and removed container for task ${taskId}`);
     }
   }
 
+  // Every worker container, running or not, with the task it belongs to
+  async listTaskContainers(): Promise<TaskContainer[]> {
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { label: ['saassy.managed=true'] },
+    });
+
+    return containers
+      .filter((c) => c.Labels['saassy.task.id'])
+      .map((c) => ({ id: c.Id, taskId: c.Labels['saassy.task.id']!, state: c.State }));
+  }
+
+  async removeContainer(id: string): Promise<void> {
+    await this.docker.getContainer(id).remove({ force: true, v: true });
+  }
+
+  private async inspectTaskContainer(taskId: string): Promise<Docker.ContainerInspectInfo | null> {
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { label: [`saassy.task.id=${taskId}`] },
+    });
+    if (containers.length === 0) return null;
+    return this.docker.getContainer(containers[0]!.Id).inspect();
+  }
+
+  // The egress proxy token a container was started with
+  private proxyToken(info: Docker.ContainerInspectInfo): string | undefined {
+    const proxyUrl = info.Config.Env?.find((env) => env.startsWith('HTTP_PROXY='))?.slice('HTTP_PROXY='.length);
+    if (!proxyUrl) return undefined;
+    try {
+      return new URL(proxyUrl).password || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   async getRunningTasks(): Promise<string[]> {
     const containers = await this.docker.listContainers({
       filters: { label: ['saassy.managed=true'] },
@@ -192,21 +585,79 @@ export class DockerManager {
       .filter((id): id is string => Boolean(id));
   }
 
-  private async pullImageIfNeeded(image: string): Promise<void> {
+  /**
+   * Make the image available locally according to the pull policy, then
+   * check its digest, size and signature. Returns the reference to run, or
+   * why the image may not be used.
+   */
+  private async prepareImage(
+    image: string,
+    policy: ImagePolicy
+  ): Promise<{ reference: string; rejection?: string }> {
+    const reference = policy.digest ? pinnedReference(image, policy.digest) : image;
+    const auth = policy.registryAuth ? decryptRegistryAuth(policy.registryAuth) : undefined;
+
+    let info = await this.inspectImage(reference);
+    if (!info && policy.pullPolicy === 'never') {
+      return { reference, rejection: `${reference} is not present and the pull policy is "never"` };
+    }
+    if (!info || policy.pullPolicy === 'always') {
+      await this.pullImage(reference, auth);
+      info = await this.inspectImage(reference);
+      if (!info) return { reference, rejection: `${reference} could not be found after pulling` };
+    }
+
+    // Docker checks the content of images pulled by digest; this catches
+    // local images that were tagged rather than pulled
+    if (policy.digest && !info.RepoDigests?.some((repoDigest) => repoDigest.endsWith(`@${policy.digest}`))) {
+      return { reference, rejection: `${reference} does not match the pinned digest` };
+    }
+
+    const sizeMb = info.Size / BYTES_PER_MB;
+    if (policy.maxSizeMb !== undefined && sizeMb > policy.maxSizeMb) {
+      return {
+        reference,
+        rejection: `the image is ${Math.ceil(sizeMb)} MB, more than the ${policy.maxSizeMb} MB limit`,
+      };
+    }
+
+    if (policy.signatureKey) {
+      if (!policy.digest) return { reference, rejection: 'signature verification needs a pinned digest' };
+
+      const keyFingerprint = createHash('sha256').update(policy.signatureKey).digest('hex');
+      const verified = `${policy.digest}:${keyFingerprint}`;
+      if (!this.verifiedSignatures.has(verified)) {
+        const failure = await verifyImageSignature(reference, policy.signatureKey, auth);
+        if (failure) return { reference, rejection: failure };
+        this.verifiedSignatures.add(verified);
+      }
+    }
+
+    return { reference };
+  }
+
+  private async inspectImage(reference: string): Promise<Docker.ImageInspectInfo | null> {
     try {
-      await this.docker.getImage(image).inspect();
+      return await this.docker.getImage(reference).inspect();
     } catch {
-      console.log(`Pulling image: ${image}`);
-      await new Promise((resolve, reject) => {
-        this.docker.pull(image, (err: Error | null, stream: NodeJS.ReadableStream) => {
-          if (err) return reject(err);
-          this.docker.modem.followProgress(stream, (err) => {
-            if (err) reject(err);
-            else resolve(undefined);
-          });
+      return null;
+    }
+  }
+
+  private async pullImage(reference: string, auth?: RegistryAuth): Promise<void> {
+    console.log(`Pulling image: ${reference}`);
+    const options = auth
+      ? { authconfig: { username: auth.username, password: auth.password, serveraddress: auth.serverAddress } }
+      : {};
+    await new Promise((resolve, reject) => {
+      this.docker.pull(reference, options, (err: Error | null, stream?: NodeJS.ReadableStream) => {
+        if (err) return reject(err);
+        this.docker.modem.followProgress(stream!, (err) => {
+          if (err) reject(err);
+          else resolve(undefined);
         });
       });
-    }
+    });
   }
 
   private parseMemoryLimit(limit: string): number {
@@ -228,7 +679,13 @@ export class DockerManager {
     }
   }
 
-  private timeout(ms: number): Promise<'timeout'> {
-    return new Promise((resolve) => setTimeout(() => resolve('timeout'), ms));
+  // Resolves with 'timeout' after ms; cancel once the race it's in settles so
+  // the timer doesn't outlive the task
+  private timeout(ms: number): { done: Promise<'timeout'>; cancel: () => void } {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const done = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), ms);
+    });
+    return { done, cancel: () => clearTimeout(timer) };
   }
 }
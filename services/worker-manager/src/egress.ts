@@ -0,0 +1,189 @@
+import http from 'http';
+import net from 'net';
+import dns from 'dns/promises';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { isPrivateAddress } from '@saassy/shared';
+
+// Ports allowlist entries without an explicit port may reach
+const DEFAULT_PORTS = [80, 443];
+
+interface Grant {
+  taskId: string;
+  token: string;
+  allowlist: string[];
+  onDenied: (target: string) => void;
+}
+
+export interface EgressGrant {
+  // Proxy URL with the task's credentials, for HTTP_PROXY/HTTPS_PROXY
+  proxyUrl: string;
+  revoke(): void;
+}
+
+/**
+ * Forward proxy for workers whose security profile allows egress only to
+ * listed hosts. Workers sit on an internal Docker network and reach the
+ * internet through this proxy, authenticating with per-task credentials.
+ * Handles CONNECT tunnels (HTTPS) and plain HTTP requests; targets that
+ * resolve to private addresses are refused so an allowlisted name can't be
+ * pointed at internal services.
+ */
+export function createEgressProxy(port: number, host: string) {
+  const grants = new Map<string, Grant>();
+
+  function authenticate(req: http.IncomingMessage): Grant | null {
+    const header = req.headers['proxy-authorization'];
+    if (!header?.startsWith('Basic ')) return null;
+
+    const [taskId, token] = Buffer.from(header.slice(6), 'base64').toString().split(':');
+    const grant = taskId ? grants.get(taskId) : undefined;
+    if (!grant || !token || token.length !== grant.token.length) return null;
+    return timingSafeEqual(Buffer.from(token), Buffer.from(grant.token)) ? grant : null;
+  }
+
+  // Resolve the target and check it against the grant; returns the address to connect to
+  async function authorize(grant: Grant, hostname: string, targetPort: number): Promise<string | null> {
+    const target = `${hostname}:${targetPort}`;
+    if (!isAllowed(grant.allowlist, hostname.toLowerCase(), targetPort)) {
+      grant.onDenied(target);
+      return null;
+    }
+
+    try {
+      const { address } = await dns.lookup(hostname);
+      if (isPrivateAddress(address)) {
+        grant.onDenied(`${target} (resolves to private address ${address})`);
+        return null;
+      }
+      return address;
+    } catch {
+      return null;
+    }
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const grant = authenticate(req);
+    if (!grant) {
+      res.writeHead(407, { 'Proxy-Authenticate': 'Basic realm="saassy-egress"' }).end();
+      return;
+    }
+
+    let url: URL;
+    try {
+      url = new URL(req.url || '');
+    } catch {
+      res.writeHead(400).end('Absolute URL required');
+      return;
+    }
+    if (url.protocol !== 'http:') {
+      res.writeHead(400).end('Use CONNECT for HTTPS');
+      return;
+    }
+
+    const targetPort = Number(url.port) || 80;
+    const address = await authorize(grant, url.hostname, targetPort);
+    if (!address) {
+      res.writeHead(403).end('Blocked by the worker security profile');
+      return;
+    }
+
+    const headers = { ...req.headers };
+    delete headers['proxy-authorization'];
+    delete headers['proxy-connection'];
+
+    const upstream = http.request(
+      {
+        host: address,
+        port: targetPort,
+        method: req.method,
+        path: `${url.pathname}${url.search}`,
+        headers: { ...headers, host: url.host },
+      },
+      (upstreamRes) => {
+        res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+        upstreamRes.pipe(res);
+      }
+    );
+    upstream.on('error', () => {
+      if (!res.headersSent) res.writeHead(502);
+      res.end();
+    });
+    req.pipe(upstream);
+  });
+
+  server.on('connect', async (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    socket.on('error', () => socket.destroy());
+
+    const grant = authenticate(req);
+    if (!grant) {
+      socket.end('HTTP/1.1 407 Proxy Authentication Required\r\nProxy-Authenticate: Basic realm="saassy-egress"\r\n\r\n');
+      return;
+    }
+
+    const match = (req.url || '').match(/^\[?([^\]]+?)\]?:(\d+)$/);
+    const address = match ? await authorize(grant, match[1]!, Number(match[2])) : null;
+    if (!match || !address) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    const upstream = net.connect(Number(match[2]), address, () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', () => socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n'));
+    socket.on('close', () => upstream.destroy());
+  });
+
+  return {
+    start(): Promise<void> {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+          console.log(`Egress proxy listening on port ${port}`);
+          resolve();
+        });
+      });
+    },
+
+    async stop(): Promise<void> {
+      await new Promise((resolve) => server.close(resolve));
+    },
+
+    /**
+     * Let a task reach the listed hosts for as long as the grant is held.
+     * `onDenied` is called with each refused target. Pass the token of an
+     * earlier grant to honour a running container's existing credentials.
+     */
+    grant(
+      taskId: string,
+      allowlist: string[],
+      onDenied: (target: string) => void,
+      token = randomBytes(24).toString('hex')
+    ): EgressGrant {
+      grants.set(taskId, { taskId, token, allowlist, onDenied });
+      return {
+        proxyUrl: `http://${taskId}:${token}@${host}:${port}`,
+        revoke: () => {
+          if (grants.get(taskId)?.token === token) grants.delete(taskId);
+        },
+      };
+    },
+  };
+}
+
+export type EgressProxy = ReturnType<typeof createEgressProxy>;
+
+// "api.example.com", "*.example.com" (subdomains only), optionally with ":port"
+function isAllowed(allowlist: string[], hostname: string, port: number): boolean {
+  return allowlist.some((entry) => {
+    const [pattern = '', entryPort] = entry.toLowerCase().split(':');
+    const portAllowed = entryPort ? Number(entryPort) === port : DEFAULT_PORTS.includes(port);
+    if (!portAllowed) return false;
+    return pattern.startsWith('*.')
+      ? hostname.endsWith(pattern.slice(1))
+      : hostname === pattern;
+  });
+}
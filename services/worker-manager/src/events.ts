@@ -0,0 +1,45 @@
+import { Redis } from 'ioredis';
+import { EVENT_CHANNELS, type TaskEvent, type TaskLogEvent } from '@saassy/shared';
+
+export type TaskEventInput = Omit<TaskEvent, 'timestamp'>;
+
+export interface EventPublisher {
+  publish(event: TaskEventInput): Promise<void>;
+  publishLogs(taskId: string, lines: string[], offset: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Publishes task events on a per-user Redis channel for the web app's SSE streams
+export function createEventPublisher(redisUrl: string): EventPublisher {
+  const redis = new Redis(redisUrl, { maxRetriesPerRequest: null });
+
+  redis.on('error', (error) => {
+    console.error('Event publisher Redis error:', error.message);
+  });
+
+  return {
+    async publish(event) {
+      const payload: TaskEvent = { ...event, timestamp: new Date().toISOString() };
+      try {
+        await redis.publish(`${EVENT_CHANNELS.taskEvents}:${event.userId}`, JSON.stringify(payload));
+      } catch (error) {
+        // Events are best-effort; the task record stays the source of truth
+        console.error(`Failed to publish event for task ${event.taskId}:`, error);
+      }
+    },
+
+    // Followers subscribe per task, so log lines go to a task channel
+    async publishLogs(taskId, lines, offset) {
+      const payload: TaskLogEvent = { taskId, lines, offset, timestamp: new Date().toISOString() };
+      try {
+        await redis.publish(`${EVENT_CHANNELS.taskLogs}:${taskId}`, JSON.stringify(payload));
+      } catch (error) {
+        console.error(`Failed to publish logs for task ${taskId}:`, error);
+      }
+    },
+
+    async close() {
+      await redis.quit();
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { execFile } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { ImagePullPolicy, RegistryAuth } from '@saassy/shared';
+import { decryptSecret } from './secrets.js';
+
+const execFileAsync = promisify(execFile);
+
+const COSIGN_PATH = process.env.COSIGN_PATH || 'cosign';
+const COSIGN_TIMEOUT_MS = 120_000;
+
+// How a task's image is pulled and checked, taken from its worker type
+export interface ImagePolicy {
+  digest?: string;
+  pullPolicy: ImagePullPolicy;
+  registryAuth?: string; // encrypted RegistryAuth JSON
+  signatureKey?: string;
+  maxSizeMb?: number;
+}
+
+export const DEFAULT_IMAGE_POLICY: ImagePolicy = { pullPolicy: 'if-not-present' };
+
+/**
+ * "registry:5000/team/worker:1.2" + digest -> "registry:5000/team/worker@sha256:...",
+ * so the tag can't be moved to a different image.
+ */
+export function pinnedReference(image: string, digest: string): string {
+  const withoutDigest = image.split('@')[0]!;
+  const lastSlash = withoutDigest.lastIndexOf('/');
+  const lastColon = withoutDigest.lastIndexOf(':');
+  const repository = lastColon > lastSlash ? withoutDigest.slice(0, lastColon) : withoutDigest;
+  return `${repository}@${digest}`;
+}
+
+export function decryptRegistryAuth(encrypted: string): RegistryAuth {
+  return JSON.parse(decryptSecret(encrypted)) as RegistryAuth;
+}
+
+/**
+ * Check the image's cosign signature against the worker type's public key.
+ * Returns why verification failed, or null if the signature is valid.
+ */
+export async function verifyImageSignature(
+  reference: string,
+  publicKey: string,
+  auth?: RegistryAuth
+): Promise<string | null> {
+  // cosign reads registry credentials from a Docker config
+  const dockerConfig = await mkdtemp(join(tmpdir(), 'saassy-cosign-'));
+  try {
+    if (auth) {
+      const token = Buffer.from(`${auth.username}:${auth.password}`).toString('base64');
+      await writeFile(
+        join(dockerConfig, 'config.json'),
+        JSON.stringify({ auths: { [auth.serverAddress]: { auth: token } } }),
+        { mode: 0o600 }
+      );
+    }
+
+    await execFileAsync(COSIGN_PATH, ['verify', '--key', 'env://SAASSY_COSIGN_PUBLIC_KEY', reference], {
+      env: { ...process.env, SAASSY_COSIGN_PUBLIC_KEY: publicKey, DOCKER_CONFIG: dockerConfig },
+      timeout: COSIGN_TIMEOUT_MS,
+    });
+    return null;
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & { stderr?: string; killed?: boolean };
+    if (failure.code === 'ENOENT') {
+      return 'signature verification needs cosign, which is not installed on the worker manager';
+    }
+    if (failure.killed) return 'signature verification timed out';
+    const reason = failure.stderr?.trim().split('\n').pop();
+    return `signature verification failed${reason ? `: ${reason}` : ''}`;
+  } finally {
+    await rm(dockerConfig, { recursive: true, force: true });
+  }
+}
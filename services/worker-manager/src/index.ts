@@ -1,13 +1,34 @@
 import express from 'express';
 import rateLimit from 'express-rate-limit';
-import { createQueue } from './queue.js';
+import { createQueue, createTaskDispatcher, type SchedulingMode } from './queue.js';
 import { createWorkerProcessor } from './processor.js';
 import { DockerManager } from './docker.js';
 import { createRoutes } from './routes.js';
+import { createEventPublisher } from './events.js';
+import { createWebhookDispatcher } from './webhooks.js';
+import { createWorkerRegistry } from './registry.js';
+import { createReconciler } from './reconcile.js';
+import { createTaskLauncher } from './launcher.js';
+import { createScheduler } from './scheduler.js';
+import { createWorkflowRunner } from './workflows.js';
 
 // Environment validation
 const requiredEnvVars = ['INTERNAL_API_KEY'] as const;
-const optionalEnvVars = ['PORT', 'REDIS_URL', 'POCKETBASE_URL', 'WORKER_NETWORK', 'MAX_CONCURRENT_WORKERS'] as const;
+const optionalEnvVars = [
+  'PORT',
+  'REDIS_URL',
+  'POCKETBASE_URL',
+  'WORKER_NETWORK',
+  'MAX_CONCURRENT_WORKERS',
+  'WORKER_DISK_QUOTAS',
+  'EGRESS_PROXY_PORT',
+  'REGISTRY_CREDENTIALS_KEY',
+  'COSIGN_PATH',
+  'RECONCILE_INTERVAL_MS',
+  'DRAIN_TIMEOUT_SECONDS',
+  'SCHEDULING_MODE',
+  'PRIORITY_AGING_SECONDS',
+] as const;
 
 function validateEnvironment(): void {
   const missing: string[] = [];
@@ -44,6 +65,10 @@ function validateEnvironment(): void {
 const PORT = process.env.PORT || 3001;
 const REDIS_URL = process.env.REDIS_URL || 'redis://localhost:6379';
 const POCKETBASE_URL = process.env.POCKETBASE_URL || 'http://localhost:8090';
+const RECONCILE_INTERVAL_MS = parseInt(process.env.RECONCILE_INTERVAL_MS || '60000', 10);
+const DRAIN_TIMEOUT_SECONDS = parseInt(process.env.DRAIN_TIMEOUT_SECONDS || '120', 10);
+const SCHEDULING_MODE: SchedulingMode = process.env.SCHEDULING_MODE === 'fair-share' ? 'fair-share' : 'priority';
+const PRIORITY_AGING_SECONDS = parseInt(process.env.PRIORITY_AGING_SECONDS || '60', 10);
 
 // Rate limiting configuration
 const apiLimiter = rateLimit({
@@ -65,12 +90,32 @@ async function main() {
   const docker = new DockerManager();
   await docker.init();
 
-  // Initialize queue and processor
+  // Initialize queue, event publisher and processor
   const taskQueue = createQueue('tasks', REDIS_URL);
-  const processor = createWorkerProcessor(docker, POCKETBASE_URL);
-
-  // Start processing tasks
-  processor.start(taskQueue);
+  const dispatcher = createTaskDispatcher(taskQueue, REDIS_URL, {
+    mode: SCHEDULING_MODE,
+    agingSeconds: PRIORITY_AGING_SECONDS,
+  });
+  const events = createEventPublisher(REDIS_URL);
+  const webhooks = createWebhookDispatcher(POCKETBASE_URL, REDIS_URL);
+  const registry = createWorkerRegistry(POCKETBASE_URL);
+  const processor = createWorkerProcessor(docker, POCKETBASE_URL, events, webhooks, dispatcher);
+  const reconciler = createReconciler(docker, taskQueue, POCKETBASE_URL, processor, events, webhooks, dispatcher);
+  const launcher = createTaskLauncher(taskQueue, docker, registry, dispatcher, events, webhooks, POCKETBASE_URL);
+  const scheduler = createScheduler(launcher, REDIS_URL, POCKETBASE_URL);
+  const workflows = createWorkflowRunner(launcher, registry, events, REDIS_URL, POCKETBASE_URL);
+
+  // Clean up after a crash before taking new jobs, then keep checking
+  await reconciler.run();
+  reconciler.start(RECONCILE_INTERVAL_MS);
+
+  // Start dispatching and processing tasks, delivering webhooks and running
+  // schedules and workflows
+  dispatcher.start((taskId) => launcher.expire(taskId));
+  await processor.start(taskQueue);
+  webhooks.start();
+  scheduler.start();
+  await workflows.start();
 
   // Create Express app for internal API
   const app = express();
@@ -79,11 +124,16 @@ async function main() {
 
   // Health check
   app.get('/health', (req, res) => {
-    res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+    const drain = processor.getDrainStatus();
+    res.json({
+      status: drain.draining ? 'draining' : 'healthy',
+      ...(drain.draining && { drainDeadline: drain.deadline, runningTasks: drain.runningTasks.length }),
+      timestamp: new Date().toISOString(),
+    });
   });
 
   // Internal routes
-  const routes = createRoutes(taskQueue, docker);
+  const routes = createRoutes(taskQueue, docker, webhooks, registry, processor, dispatcher, launcher, workflows);
   app.use('/internal', routes);
 
   // Start server
@@ -93,11 +143,19 @@ async function main() {
     console.log(`PocketBase: ${POCKETBASE_URL}`);
   });
 
-  // Graceful shutdown
+  // Graceful shutdown: let running tasks finish or requeue them first
   process.on('SIGTERM', async () => {
     console.log('Shutting down...');
+    await scheduler.stop();
+    await workflows.stop();
+    await processor.drain(DRAIN_TIMEOUT_SECONDS * 1000);
+    await reconciler.stop();
     await processor.stop();
+    await dispatcher.stop();
+    await webhooks.stop();
     await taskQueue.close();
+    await events.close();
+    await docker.close();
     process.exit(0);
   });
 }
@@ -0,0 +1,49 @@
+import path from 'path';
+import tar from 'tar-stream';
+import type PocketBase from 'pocketbase';
+
+export interface InputFile {
+  name: string;
+  data: Buffer;
+}
+
+function escapeFilterValue(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+/**
+ * Build the archive extracted into the input volume: task.json plus any
+ * uploaded files under files/, all read-only for the worker.
+ */
+export function packInput(input: Record<string, unknown>, files: InputFile[]): NodeJS.ReadableStream {
+  const pack = tar.pack();
+  const mtime = new Date();
+
+  pack.entry({ name: 'task.json', mode: 0o444, mtime }, JSON.stringify(input));
+  pack.entry({ name: 'files', type: 'directory', mode: 0o555, mtime });
+  for (const file of files) {
+    pack.entry({ name: `files/${path.posix.basename(file.name)}`, mode: 0o444, mtime }, file.data);
+  }
+  pack.finalize();
+
+  return pack;
+}
+
+// Download the files uploaded with a task from task_input_files
+export async function fetchInputFiles(pb: PocketBase, taskId: string): Promise<InputFile[]> {
+  const records = await pb.collection('task_input_files').getFullList({
+    filter: `task = "${escapeFilterValue(taskId)}"`,
+  });
+  if (records.length === 0) return [];
+
+  const token = await pb.files.getToken();
+  return Promise.all(
+    records.map(async (record) => {
+      const response = await fetch(pb.files.getUrl(record, record.file, { token }));
+      if (!response.ok) {
+        throw new Error(`Failed to download input file ${record.name}: ${response.status}`);
+      }
+      return { name: record.name, data: Buffer.from(await response.arrayBuffer()) };
+    })
+  );
+}
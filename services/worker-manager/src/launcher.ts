@@ -0,0 +1,314 @@
+import type { Queue } from 'bullmq';
+import PocketBase from 'pocketbase';
+import {
+  ErrorCodes,
+  PLAN_LIMITS,
+  canCreateTask,
+  resolveSecurityProfile,
+  resolveTaskPriority,
+  resolveTaskResources,
+  resolveTaskTiming,
+  validateJsonSchema,
+  type FieldError,
+  type PlanType,
+  type TaskResourceRequest,
+  type TaskStatus,
+} from '@saassy/shared';
+import type { DockerManager } from './docker.js';
+import type { EventPublisher } from './events.js';
+import type { ConcurrencyGroup, TaskDispatcher, TaskJobData } from './queue.js';
+import { isPlanAllowed, type WorkerRegistry } from './registry.js';
+import type { WebhookDispatcher } from './webhooks.js';
+
+const VALID_PLANS: PlanType[] = ['free', 'starter', 'pro', 'enterprise'];
+
+export const TASK_EXPIRED_ERROR = 'Task expired before it started';
+
+function escapeFilterValue(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+// A task that can't be queued as asked; status is the HTTP status to answer with
+export class TaskRejectedError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 403,
+    readonly errors?: FieldError[]
+  ) {
+    super(message);
+  }
+}
+
+export interface StartTaskParams {
+  taskId: string;
+  userId: string;
+  type: string;
+  input: Record<string, unknown>;
+  resources?: TaskResourceRequest;
+  priority?: number;
+  runAt?: string;
+  expiresAt?: string;
+}
+
+export interface CreateTaskParams extends Omit<StartTaskParams, 'taskId'> {
+  // Extra task record fields, e.g. the schedule that created it
+  fields?: Record<string, unknown>;
+}
+
+// No taskId if the quota stopped the task; an error too if it couldn't be queued
+export interface CreateTaskOutcome {
+  taskId?: string;
+  error?: string;
+}
+
+/**
+ * Queues task records for execution and takes them back out, checking the
+ * worker type and the user's plan on the way in. Used by the internal API,
+ * the scheduler, the workflow runner and the dispatcher's expiry timers.
+ */
+export function createTaskLauncher(
+  queue: Queue<TaskJobData>,
+  docker: DockerManager,
+  registry: WorkerRegistry,
+  dispatcher: TaskDispatcher,
+  events: EventPublisher,
+  webhooks: WebhookDispatcher,
+  pocketbaseUrl: string
+) {
+  const pb = new PocketBase(pocketbaseUrl);
+
+  // Look up the user's plan from the database; callers' claims aren't trusted
+  async function getUserPlan(userId: string): Promise<PlanType> {
+    try {
+      const subscriptions = await pb.collection('subscriptions').getList(1, 1, {
+        filter: `user = "${escapeFilterValue(userId)}" && status = "active"`,
+        sort: '-created',
+      });
+      const subscription = subscriptions.items[0];
+      if (subscription?.plan && VALID_PLANS.includes(subscription.plan)) {
+        return subscription.plan as PlanType;
+      }
+    } catch (error) {
+      console.warn('Could not fetch user subscription, using free plan limits:', error);
+    }
+    return 'free';
+  }
+
+  // The user's plan limit, and their organization's limit if they're in one
+  async function getConcurrencyGroups(userId: string, userLimit: number): Promise<ConcurrencyGroup[]> {
+    const groups: ConcurrencyGroup[] = [{ key: `user:${userId}`, limit: userLimit }];
+    try {
+      const user = await pb.collection('users').getOne(userId, { expand: 'organization' });
+      const limit = user.expand?.organization?.max_concurrent;
+      if (user.organization && limit > 0) {
+        groups.push({ key: `org:${user.organization}`, limit });
+      }
+    } catch (error) {
+      console.warn('Could not fetch user organization, using plan limits only:', error);
+    }
+    return groups;
+  }
+
+  // Remove the task from the queue and stop its container; the caller marks it canceled
+  async function cancel(taskId: string): Promise<void> {
+    // Active jobs are locked by the processor and finish on their own once
+    // the container is stopped
+    await dispatcher.cancel(taskId);
+    const job = await queue.getJob(taskId);
+    if (job && !(await job.isActive())) {
+      await job.remove();
+    }
+
+    await docker.stopContainer(taskId);
+  }
+
+  // Mark the task queued and hand it to the dispatcher
+  async function start({ taskId, userId, type, input, resources, priority, runAt, expiresAt }: StartTaskParams): Promise<void> {
+    // Validate task type against the worker registry
+    const workerType = typeof type === 'string' ? await registry.get(type) : null;
+    // Users' own images are invisible to everyone else
+    if (!workerType || !workerType.enabled || (workerType.ownerId && workerType.ownerId !== userId)) {
+      throw new TaskRejectedError(`Unknown task type: ${type}`, 400);
+    }
+
+    const plan = await getUserPlan(userId);
+
+    if (!isPlanAllowed(workerType, plan)) {
+      throw new TaskRejectedError(`Task type ${type} is not available on the ${plan} plan`, 403);
+    }
+    // e.g. after a downgrade
+    if (workerType.ownerId && PLAN_LIMITS[plan].maxCustomWorkerTypes === 0) {
+      throw new TaskRejectedError(`Custom worker images are not available on the ${plan} plan`, 403);
+    }
+
+    // Reject input that breaks the worker's contract before starting a container
+    if (workerType.inputSchema) {
+      const errors = validateJsonSchema(workerType.inputSchema, input);
+      if (errors.length > 0) {
+        throw new TaskRejectedError('Input does not match the task type schema', 400, errors);
+      }
+    }
+
+    // Get limits based on verified plan
+    const limits = PLAN_LIMITS[plan] || PLAN_LIMITS.free;
+
+    // Fit the requested resources between the worker's minimums and the plan's ceiling
+    const resolved = resolveTaskResources(plan, workerType, resources || {});
+    if (!resolved.allowed) {
+      throw new TaskRejectedError(resolved.reason!, resolved.code === ErrorCodes.FORBIDDEN ? 403 : 400);
+    }
+    const queuePriority = resolveTaskPriority(plan, priority ?? undefined);
+    if (!queuePriority.allowed) {
+      throw new TaskRejectedError(queuePriority.reason!, queuePriority.code === ErrorCodes.FORBIDDEN ? 403 : 400);
+    }
+    const timing = resolveTaskTiming(runAt ?? undefined, expiresAt ?? undefined);
+    if (!timing.allowed) {
+      throw new TaskRejectedError(timing.reason!, 400);
+    }
+
+    // Mark as queued before the job is visible so the processor's
+    // "running" update can't be overwritten
+    await pb.collection('tasks').update(taskId, { status: 'queued' });
+
+    // Queued at runAt once the user has a free slot under their plan's
+    // concurrency, and their organization under its own, ahead of
+    // lower-priority tasks
+    await dispatcher.submit(
+      {
+        taskId,
+        userId,
+        type,
+        input,
+        workerImage: workerType.image,
+        limits: {
+          ...resolved.resources!,
+          timeoutSeconds: Math.min(workerType.timeoutSeconds, limits.maxDurationSeconds),
+          maxArtifactBytes: limits.maxArtifactBytes,
+        },
+        pricePerTaskCents: workerType.pricePerTaskCents,
+        outputSchema: workerType.outputSchema,
+        security: resolveSecurityProfile(workerType.security),
+        image: {
+          digest: workerType.imageDigest,
+          pullPolicy: workerType.pullPolicy,
+          registryAuth: await registry.getRegistryAuth(workerType.name),
+          signatureKey: workerType.signatureKey,
+          // Users' own images are also held to their plan's limit
+          maxSizeMb: workerType.ownerId
+            ? Math.min(workerType.maxImageMb ?? Infinity, limits.maxImageMb)
+            : workerType.maxImageMb,
+        },
+        runAt: timing.runAt,
+        expiresAt: timing.expiresAt,
+      },
+      await getConcurrencyGroups(userId, limits.maxConcurrent),
+      { priority: queuePriority.priority!, weight: limits.fairShareWeight }
+    );
+    await events.publish({ type: 'status', taskId, userId, status: 'queued' });
+  }
+
+  return {
+    getUserPlan,
+    cancel,
+    start,
+
+    /**
+     * Create a task record and queue it, for tasks the worker manager creates
+     * itself. The monthly quota is checked as for tasks created over the API;
+     * a task that can't be queued is kept as failed.
+     */
+    async create({ fields = {}, ...params }: CreateTaskParams): Promise<CreateTaskOutcome> {
+      const plan = await getUserPlan(params.userId);
+      const now = new Date();
+      const period = now.toISOString().slice(0, 7); // "2024-01"
+      const usage = await pb.collection('usage_records').getList(1, 1, {
+        filter: `user = "${escapeFilterValue(params.userId)}" && period = "${escapeFilterValue(period)}"`,
+      });
+      // Unfinished tasks are only in usage once they finish
+      const periodStart = `${period}-01 00:00:00.000Z`;
+      const unfinished = await pb.collection('tasks').getList(1, 1, {
+        filter: `user = "${escapeFilterValue(params.userId)}" && created >= "${periodStart}"`
+          + ' && (status = "pending" || status = "queued" || status = "running")',
+      });
+      const quota = canCreateTask(plan, (usage.items[0]?.task_count || 0) + unfinished.totalItems);
+      if (!quota.allowed) {
+        return { error: quota.reason || 'Task limit reached' };
+      }
+
+      const task = await pb.collection('tasks').create({
+        ...fields,
+        user: params.userId,
+        type: params.type,
+        status: 'pending',
+        input: params.input,
+        resources: params.resources || null,
+        priority: params.priority || null,
+      });
+
+      try {
+        await start({ ...params, taskId: task.id });
+        return { taskId: task.id };
+      } catch (error) {
+        // e.g. the task type was disabled or the plan was downgraded since
+        const message = error instanceof TaskRejectedError ? error.message : 'Failed to queue task';
+        if (!(error instanceof TaskRejectedError)) {
+          console.error(`Failed to queue task ${task.id}:`, error);
+        }
+        await pb.collection('tasks').update(task.id, {
+          status: 'failed',
+          error: message,
+          completed_at: new Date().toISOString(),
+        });
+        await events.publish({ type: 'status', taskId: task.id, userId: params.userId, status: 'failed', error: message });
+        return { taskId: task.id, error: message };
+      }
+    },
+
+    // Same order as canceling over the API: marked canceled first so the
+    // processor doesn't record the stopped container as a failure
+    async abort(taskId: string, userId: string): Promise<void> {
+      await pb.collection('tasks').update(taskId, {
+        status: 'canceled',
+        completed_at: new Date().toISOString(),
+      });
+      await events.publish({ type: 'status', taskId, userId, status: 'canceled' });
+      await cancel(taskId);
+    },
+
+    /**
+     * Expire a task whose expiresAt has passed if it hasn't started. Tasks
+     * the processor already picked up are left to it; it checks the deadline
+     * before starting the container.
+     */
+    async expire(taskId: string): Promise<void> {
+      let task: { id: string; user: string; status: TaskStatus };
+      try {
+        task = await pb.collection('tasks').getOne(taskId);
+      } catch (error) {
+        if ((error as { status?: number }).status === 404) return;
+        throw error;
+      }
+      if (task.status !== 'pending' && task.status !== 'queued') return;
+      if (await (await queue.getJob(taskId))?.isActive()) return;
+
+      // Marked first so a processor picking the job up now skips it
+      await pb.collection('tasks').update(taskId, {
+        status: 'expired',
+        error: TASK_EXPIRED_ERROR,
+        completed_at: new Date().toISOString(),
+      });
+      await cancel(taskId);
+      await events.publish({ type: 'status', taskId, userId: task.user, status: 'expired', error: TASK_EXPIRED_ERROR });
+      await webhooks.enqueue({
+        event: 'task.failed',
+        taskId,
+        userId: task.user,
+        result: { taskId, status: 'expired', output: {}, error: TASK_EXPIRED_ERROR },
+        timestamp: new Date().toISOString(),
+      });
+      console.log(`Task ${taskId} expired before it started`);
+    },
+  };
+}
+
+export type TaskLauncher = ReturnType<typeof createTaskLauncher>;
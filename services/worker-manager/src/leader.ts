@@ -0,0 +1,41 @@
+import os from 'os';
+import type { Redis } from 'ioredis';
+
+// Take or renew the lock; returns 1 when this node holds it
+const ACQUIRE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+if redis.call('SET', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return 1
+end
+return 0
+`;
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+/**
+ * A Redis lock for work only one worker manager should do at a time. The
+ * holder keeps it by calling acquire() again well within the TTL; if it dies,
+ * another node takes over once the lock expires.
+ */
+export function createLeaderLock(redis: Redis, key: string, ttlMs: number) {
+  const nodeId = `${os.hostname()}:${process.pid}`;
+
+  return {
+    async acquire(): Promise<boolean> {
+      return (await redis.eval(ACQUIRE_SCRIPT, 1, key, nodeId, ttlMs)) === 1;
+    },
+
+    async release(): Promise<void> {
+      await redis.eval(RELEASE_SCRIPT, 1, key, nodeId);
+    },
+  };
+}
+
+export type LeaderLock = ReturnType<typeof createLeaderLock>;
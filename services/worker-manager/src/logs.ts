@@ -0,0 +1,168 @@
+import type PocketBase from 'pocketbase';
+import { TASK_LOG_LIMITS } from '@saassy/shared';
+import type { EventPublisher } from './events.js';
+
+// Live log lines are batched for this long before publishing
+const LIVE_LOG_INTERVAL_MS = 250;
+
+function escapeFilterValue(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+// Where a task's stored log ends, so a rerun can continue it
+export interface TaskLogEnd {
+  offset: number;
+  truncated: boolean;
+}
+
+/**
+ * Buffers a task's log lines and appends them to task_logs in chunks, so
+ * logs of running tasks can be read before the container exits. Lines past
+ * TASK_LOG_LIMITS.maxBytes are dropped and the last chunk is marked truncated.
+ */
+export function createTaskLogWriter(
+  pb: PocketBase,
+  taskId: string,
+  start: TaskLogEnd = { offset: 0, truncated: false }
+) {
+  let lines: string[] = [];
+  let bufferedBytes = 0;
+  let offset = start.offset;
+  let truncated = start.truncated;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  function flush(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (lines.length === 0) return writing;
+
+    const content = lines.join('\n') + '\n';
+    const chunk = {
+      task: taskId,
+      offset,
+      end_offset: offset + bufferedBytes,
+      content,
+      truncated,
+    };
+    offset += bufferedBytes;
+    lines = [];
+    bufferedBytes = 0;
+
+    writing = writing.then(async () => {
+      try {
+        await pb.collection('task_logs').create(chunk);
+      } catch (error) {
+        console.error(`Failed to save logs for task ${taskId}:`, error);
+      }
+    });
+    return writing;
+  }
+
+  // Returns the line's byte offset in the log
+  function append(line: string): number {
+    const lineOffset = offset + bufferedBytes;
+    lines.push(line);
+    bufferedBytes += Buffer.byteLength(line) + 1;
+    return lineOffset;
+  }
+
+  return {
+    /**
+     * Buffer a line for storage. Returns the stored line and its byte offset,
+     * or null once the log has been truncated.
+     */
+    write(rawLine: string): { line: string; offset: number } | null {
+      if (truncated) return null;
+
+      const line = rawLine.length > TASK_LOG_LIMITS.maxLineLength
+        ? `${rawLine.slice(0, TASK_LOG_LIMITS.maxLineLength)}...`
+        : rawLine;
+
+      if (offset + bufferedBytes + Buffer.byteLength(line) + 1 > TASK_LOG_LIMITS.maxBytes) {
+        truncated = true;
+        const marker = `[log truncated at ${TASK_LOG_LIMITS.maxBytes} bytes]`;
+        const markerOffset = append(marker);
+        flush();
+        return { line: marker, offset: markerOffset };
+      }
+
+      const lineOffset = append(line);
+      if (bufferedBytes >= TASK_LOG_LIMITS.chunkBytes) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, TASK_LOG_LIMITS.flushIntervalMs);
+      }
+      return { line, offset: lineOffset };
+    },
+
+    // Write out buffered lines and wait for pending chunks
+    async close() {
+      await flush();
+    },
+  };
+}
+
+export type TaskLogWriter = ReturnType<typeof createTaskLogWriter>;
+
+/**
+ * Publishes a running task's log lines for live followers, batched so a
+ * chatty worker costs a few Redis messages per second.
+ */
+export function createLiveLogPublisher(events: EventPublisher, taskId: string) {
+  let lines: string[] = [];
+  let batchOffset = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let publishing: Promise<void> = Promise.resolve();
+
+  function publish(): Promise<void> {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (lines.length === 0) return publishing;
+
+    const batch = lines;
+    const offset = batchOffset;
+    lines = [];
+    publishing = publishing.then(() => events.publishLogs(taskId, batch, offset));
+    return publishing;
+  }
+
+  return {
+    push(line: string, offset: number) {
+      if (lines.length === 0) batchOffset = offset;
+      lines.push(line);
+      if (!timer) timer = setTimeout(publish, LIVE_LOG_INTERVAL_MS);
+    },
+
+    async flush() {
+      await publish();
+    },
+  };
+}
+
+export async function getTaskLogEnd(pb: PocketBase, taskId: string): Promise<TaskLogEnd> {
+  const { items } = await pb.collection('task_logs').getList(1, 1, {
+    filter: `task = "${escapeFilterValue(taskId)}"`,
+    sort: '-offset',
+  });
+  const last = items[0];
+  return { offset: last?.end_offset || 0, truncated: Boolean(last?.truncated) };
+}
+
+/**
+ * Delete the log chunks of an interrupted attempt, so a rerun that replays
+ * the container's output from the start doesn't store it twice.
+ */
+export async function clearTaskLogs(pb: PocketBase, taskId: string): Promise<void> {
+  const chunks = await pb.collection('task_logs').getFullList({
+    filter: `task = "${escapeFilterValue(taskId)}"`,
+    fields: 'id',
+  });
+  for (const chunk of chunks) {
+    await pb.collection('task_logs').delete(chunk.id);
+  }
+}
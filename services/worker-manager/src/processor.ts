@@ -1,7 +1,21 @@
-import { Worker, Queue } from 'bullmq';
+import { UnrecoverableError, WaitingError, Worker, Queue, type Job } from 'bullmq';
 import PocketBase from 'pocketbase';
+import {
+  PLAN_LIMITS,
+  resolveSecurityProfile,
+  validateJsonSchema,
+  type FieldError,
+  type TaskOutput,
+  type TaskProgress,
+} from '@saassy/shared';
+import { uploadArtifact } from './artifacts.js';
+import { fetchInputFiles } from './inputs.js';
 import { DockerManager, type ContainerResult } from './docker.js';
-import type { TaskJobData } from './queue.js';
+import type { EventPublisher } from './events.js';
+import { TASK_EXPIRED_ERROR } from './launcher.js';
+import { clearTaskLogs, createLiveLogPublisher, createTaskLogWriter, getTaskLogEnd } from './logs.js';
+import type { WebhookDispatcher } from './webhooks.js';
+import type { TaskDispatcher, TaskJobData } from './queue.js';
 
 // Validation helpers for defense-in-depth
 const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
@@ -14,42 +28,189 @@ function escapeFilterValue(value: string): string {
   return value.replace(/["\\]/g, '\\$&');
 }
 
-export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: string) {
+// Progress is written to the task record at most this often
+const PROGRESS_INTERVAL_MS = 1000;
+
+// How often a drain checks whether running tasks have finished
+const DRAIN_POLL_INTERVAL_MS = 1000;
+
+// Error for tasks a shutting-down node could not hand back to the queue
+const NODE_SHUTDOWN_ERROR = 'Task interrupted: node shutdown';
+
+export interface DrainStatus {
+  draining: boolean;
+  deadline?: string;
+  runningTasks: string[];
+}
+
+export function createWorkerProcessor(
+  docker: DockerManager,
+  pocketbaseUrl: string,
+  events: EventPublisher,
+  webhooks: WebhookDispatcher,
+  dispatcher: TaskDispatcher
+) {
   let worker: Worker<TaskJobData> | null = null;
+  // Tasks whose job is being processed by this worker manager
+  const processing = new Set<string>();
+  // Set once draining; tasks still running at the deadline go back to the queue
+  let drain: { deadline: number; done: Promise<void> } | null = null;
+  const interrupted = new Set<string>();
 
   const pb = new PocketBase(pocketbaseUrl);
 
-  async function processTask(job: { data: TaskJobData }): Promise<ContainerResult> {
-    const { taskId, type, input, workerImage, limits } = job.data;
+  async function processTask(job: Job<TaskJobData>, token?: string): Promise<ContainerResult> {
+    const { taskId, userId, type, input, workerImage, limits, outputSchema, security, image, expiresAt } = job.data;
 
     console.log(`Processing task ${taskId} (${type})`);
 
+    // Canceled while waiting in the queue
+    const task = await pb.collection('tasks').getOne(taskId);
+    if (task.status === 'canceled') {
+      console.log(`Task ${taskId} was canceled before it started`);
+      return {
+        containerId: '',
+        exitCode: -1,
+        output: {},
+        error: 'Task canceled',
+        resourceUsage: { cpuSeconds: 0, memoryMbSeconds: 0, durationSeconds: 0 },
+      };
+    }
+
+    // Not started before its deadline; tasks that already started keep running
+    if (task.status === 'expired' || (expiresAt && task.status !== 'running' && Date.now() >= Date.parse(expiresAt))) {
+      if (task.status !== 'expired') {
+        await pb.collection('tasks').update(taskId, {
+          status: 'expired',
+          error: TASK_EXPIRED_ERROR,
+          completed_at: new Date().toISOString(),
+        });
+        await events.publish({ type: 'status', taskId, userId, status: 'expired', error: TASK_EXPIRED_ERROR });
+        await webhooks.enqueue({
+          event: 'task.failed',
+          taskId,
+          userId,
+          result: { taskId, status: 'expired', output: {}, error: TASK_EXPIRED_ERROR },
+          timestamp: new Date().toISOString(),
+        });
+      }
+      console.log(`Task ${taskId} expired before it started`);
+      return {
+        containerId: '',
+        exitCode: -1,
+        output: {},
+        error: TASK_EXPIRED_ERROR,
+        resourceUsage: { cpuSeconds: 0, memoryMbSeconds: 0, durationSeconds: 0 },
+      };
+    }
+
+    // Already running: an earlier attempt was interrupted, e.g. by a restart.
+    // Its container, if still there, is resumed and replays its logs.
+    if (task.status === 'running') {
+      console.log(`Task ${taskId} was interrupted; running it again`);
+      await clearTaskLogs(pb, taskId);
+    }
+    // Tasks requeued by a draining node continue the log of the earlier run
+    const logEnd = await getTaskLogEnd(pb, taskId);
+
+    const inputFiles = await fetchInputFiles(pb, taskId);
+
     // Update task status to running
     await pb.collection('tasks').update(taskId, {
       status: 'running',
-      startedAt: new Date().toISOString(),
+      started_at: task.started_at || new Date().toISOString(),
     });
+    await events.publish({ type: 'status', taskId, userId, status: 'running' });
+
+    const progress = createProgressReporter(taskId, userId);
+    const logs = createTaskLogWriter(pb, taskId, logEnd);
+    const liveLogs = createLiveLogPublisher(events, taskId);
+    const writeLog = (line: string) => {
+      const stored = logs.write(line);
+      if (stored) liveLogs.push(stored.line, stored.offset);
+    };
+
+    // Hand the task back before it started if the node began shutting down
+    if (interrupted.has(taskId)) {
+      return requeue(job, token, writeLog, () => Promise.all([progress.flush(), logs.close(), liveLogs.flush()]));
+    }
 
     // Run the container
     const result = await docker.runContainer({
       image: workerImage,
+      imagePolicy: image,
       taskId,
       input,
+      inputFiles,
       cpuLimit: limits.cpuLimit,
       memoryLimit: limits.memoryLimit,
+      pidsLimit: limits.pidsLimit,
+      diskLimitMb: limits.diskLimitMb,
+      egressLimitMb: limits.egressLimitMb,
       timeoutSeconds: limits.timeoutSeconds,
+      security: resolveSecurityProfile(security),
+      onFrame: (frame) => {
+        if (frame.type === 'progress') {
+          progress.report({ percent: frame.percent, message: frame.message });
+        } else if (frame.type === 'result') {
+          progress.reportPartialOutput(frame.output);
+        }
+      },
+      onLog: writeLog,
+      onArtifact: (artifact) => uploadArtifact(pb, taskId, userId, artifact),
+      // Jobs queued before artifact quotas existed get the free plan's
+      maxArtifactBytes: limits.maxArtifactBytes ?? PLAN_LIMITS.free.maxArtifactBytes,
     });
+    // Stopped by a drain: no result and no charge, another node runs it again
+    const current = await pb.collection('tasks').getOne(taskId);
+    if (interrupted.has(taskId) && current.status !== 'canceled') {
+      return requeue(job, token, writeLog, () => Promise.all([progress.flush(), logs.close(), liveLogs.flush()]));
+    }
+
+    if (result.error) {
+      writeLog(`[saassy] ${result.error}`);
+    }
+
+    // Flag successful outputs that break the worker type's output schema
+    let outputErrors: FieldError[] = [];
+    if (outputSchema && result.exitCode === 0) {
+      outputErrors = validateJsonSchema(outputSchema, result.output);
+      if (outputErrors.length > 0) {
+        const summary = outputErrors.map((e) => `${e.path || 'output'} ${e.message}`).join('; ');
+        writeLog(`[saassy] output does not match the output schema: ${summary}`);
+      }
+    }
+    await Promise.all([progress.flush(), logs.close(), liveLogs.flush()]);
+
+    // A canceled task's container was stopped on purpose; keep the status
+    const status = current.status === 'canceled'
+      ? 'canceled'
+      : result.exitCode === 0 ? 'completed' : 'failed';
 
     // Update task with result
-    const status = result.exitCode === 0 ? 'completed' : 'failed';
+    const output = result.output;
+    const error = status === 'canceled' ? undefined : result.error;
     await pb.collection('tasks').update(taskId, {
       status,
-      output: tryParseJson(result.output),
-      error: result.error,
-      workerId: result.containerId,
-      completedAt: new Date().toISOString(),
-      resourceUsage: result.resourceUsage,
+      output,
+      error,
+      output_errors: outputErrors.length > 0 ? outputErrors : null,
+      worker_id: result.containerId,
+      completed_at: current.completed_at || new Date().toISOString(),
+      resource_usage: result.resourceUsage,
     });
+    await events.publish({ type: 'status', taskId, userId, status, output, error });
+
+    // Notify the user's webhook endpoints
+    if (status === 'completed' || status === 'failed') {
+      await webhooks.enqueue({
+        event: status === 'completed' ? 'task.completed' : 'task.failed',
+        taskId,
+        userId,
+        result: { taskId, status, output, error, resourceUsage: result.resourceUsage },
+        timestamp: new Date().toISOString(),
+      });
+    }
 
     // Record usage for billing
     await recordUsage(pb, job.data, result);
@@ -58,6 +219,115 @@ export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: stri
     return result;
   }
 
+  async function processJob(job: Job<TaskJobData>, token?: string): Promise<ContainerResult> {
+    processing.add(job.data.taskId);
+    try {
+      return await processTask(job, token);
+    } finally {
+      processing.delete(job.data.taskId);
+      interrupted.delete(job.data.taskId);
+    }
+  }
+
+  /**
+   * Put a task interrupted by a drain back in the queue without using up one
+   * of its attempts. If that fails the task is failed, still without charge.
+   */
+  async function requeue(
+    job: Job<TaskJobData>,
+    token: string | undefined,
+    writeLog: (line: string) => void,
+    flush: () => Promise<unknown>
+  ): Promise<never> {
+    const { taskId, userId } = job.data;
+    try {
+      writeLog('[saassy] Node shutting down; task requeued and will run again from the start');
+      await flush();
+      await pb.collection('tasks').update(taskId, { status: 'queued', progress: null, output: null });
+      await events.publish({ type: 'status', taskId, userId, status: 'queued' });
+      await job.moveToWait(token);
+    } catch (error) {
+      console.error(`Failed to requeue task ${taskId}:`, error);
+      await pb.collection('tasks').update(taskId, {
+        status: 'failed',
+        error: NODE_SHUTDOWN_ERROR,
+        completed_at: new Date().toISOString(),
+      });
+      await events.publish({ type: 'status', taskId, userId, status: 'failed', error: NODE_SHUTDOWN_ERROR });
+      await webhooks.enqueue({
+        event: 'task.failed',
+        taskId,
+        userId,
+        result: { taskId, status: 'failed', output: {}, error: NODE_SHUTDOWN_ERROR },
+        timestamp: new Date().toISOString(),
+      });
+      // The task is already failed; don't let BullMQ retry the job
+      throw new UnrecoverableError(NODE_SHUTDOWN_ERROR);
+    }
+    console.log(`Task ${taskId} requeued by node shutdown`);
+    throw new WaitingError();
+  }
+
+  /**
+   * Persists and publishes worker progress, throttled so chatty workers
+   * don't flood PocketBase. Partial results ride along with progress events.
+   */
+  function createProgressReporter(taskId: string, userId: string) {
+    let pending: { progress?: TaskProgress; output?: TaskOutput } | null = null;
+    let lastWrite = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let writing: Promise<void> = Promise.resolve();
+
+    function write() {
+      timer = null;
+      if (!pending) return writing;
+
+      const { progress, output } = pending;
+      pending = null;
+      lastWrite = Date.now();
+
+      writing = writing.then(async () => {
+        try {
+          await pb.collection('tasks').update(taskId, {
+            ...(progress && { progress }),
+            ...(output && { output }),
+          });
+        } catch (error) {
+          console.error(`Failed to save progress for task ${taskId}:`, error);
+        }
+        await events.publish({ type: 'progress', taskId, userId, progress, output });
+      });
+      return writing;
+    }
+
+    function schedule(update: { progress?: TaskProgress; output?: TaskOutput }) {
+      pending = { ...pending, ...update };
+      if (timer) return;
+
+      const wait = Math.max(0, lastWrite + PROGRESS_INTERVAL_MS - Date.now());
+      timer = setTimeout(write, wait);
+    }
+
+    return {
+      report(progress: TaskProgress) {
+        schedule({ progress });
+      },
+
+      reportPartialOutput(output: TaskOutput) {
+        schedule({ output });
+      },
+
+      // Write anything still pending before the final status update
+      async flush() {
+        if (timer) {
+          clearTimeout(timer);
+          await write();
+        }
+        await writing;
+      },
+    };
+  }
+
   async function recordUsage(
     pb: PocketBase,
     jobData: TaskJobData,
@@ -81,10 +351,11 @@ export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: stri
       if (existing.items.length > 0) {
         const record = existing.items[0]!;
         await pb.collection('usage_records').update(record.id, {
-          cpuSeconds: (record.cpuSeconds || 0) + result.resourceUsage.cpuSeconds,
-          memoryMbSeconds:
-            (record.memoryMbSeconds || 0) + result.resourceUsage.memoryMbSeconds,
-          taskCount: (record.taskCount || 0) + 1,
+          cpu_seconds: (record.cpu_seconds || 0) + result.resourceUsage.cpuSeconds,
+          memory_mb_seconds:
+            (record.memory_mb_seconds || 0) + result.resourceUsage.memoryMbSeconds,
+          task_count: (record.task_count || 0) + 1,
+          cost_cents: (record.cost_cents || 0) + (jobData.pricePerTaskCents || 0),
         });
       } else {
         // Create new usage record
@@ -92,10 +363,11 @@ export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: stri
           user: jobData.userId,
           task: jobData.taskId,
           period,
-          cpuSeconds: result.resourceUsage.cpuSeconds,
-          memoryMbSeconds: result.resourceUsage.memoryMbSeconds,
-          taskCount: 1,
-          costCents: 0, // Calculated by billing service
+          cpu_seconds: result.resourceUsage.cpuSeconds,
+          memory_mb_seconds: result.resourceUsage.memoryMbSeconds,
+          task_count: 1,
+          // Per-task worker type fees; resource costs are added by the billing service
+          cost_cents: jobData.pricePerTaskCents || 0,
         });
       }
     } catch (error) {
@@ -103,16 +375,42 @@ export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: stri
     }
   }
 
+  /**
+   * Stop taking jobs and give running tasks until the deadline to finish.
+   * Containers still running then are stopped and their tasks requeued.
+   */
+  async function drainTasks(deadline: number) {
+    await dispatcher.unregister();
+    await worker?.pause(true);
+    console.log(`Draining ${processing.size} running task(s) until ${new Date(deadline).toISOString()}`);
+
+    while (processing.size > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, DRAIN_POLL_INTERVAL_MS));
+    }
+
+    const unfinished = [...processing];
+    console.log(unfinished.length > 0
+      ? `Drain deadline reached; requeueing ${unfinished.length} task(s)`
+      : 'Drain complete');
+    for (const taskId of unfinished) {
+      interrupted.add(taskId);
+      try {
+        await docker.stopContainer(taskId);
+      } catch (error) {
+        console.error(`Failed to stop container for task ${taskId}:`, error);
+      }
+    }
+  }
+
   return {
-    start(queue: Queue<TaskJobData>) {
+    async start(queue: Queue<TaskJobData>) {
+      const concurrency = parseInt(process.env.MAX_CONCURRENT_WORKERS || '5', 10);
       worker = new Worker<TaskJobData>(
         queue.name,
-        async (job) => {
-          return processTask(job);
-        },
+        processJob,
         {
           connection: { url: process.env.REDIS_URL || 'redis://localhost:6379' },
-          concurrency: parseInt(process.env.MAX_CONCURRENT_WORKERS || '5', 10),
+          concurrency,
         }
       );
 
@@ -124,10 +422,39 @@ export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: stri
         console.error(`Job ${job?.id} failed:`, err.message);
       });
 
+      // Let the dispatcher hand this node as many tasks as it runs at once
+      await dispatcher.register(concurrency);
+
       console.log('Worker processor started');
     },
 
+    // Run a job as the queue worker does; token is its lock on the job
+    processJob,
+
+    // Whether this worker manager is running the task right now
+    isProcessing(taskId: string): boolean {
+      return processing.has(taskId);
+    },
+
+    // Start draining, or join the drain in progress and its deadline
+    drain(timeoutMs: number): Promise<void> {
+      if (!drain) {
+        const deadline = Date.now() + timeoutMs;
+        drain = { deadline, done: drainTasks(deadline) };
+      }
+      return drain.done;
+    },
+
+    getDrainStatus(): DrainStatus {
+      return {
+        draining: drain !== null,
+        ...(drain && { deadline: new Date(drain.deadline).toISOString() }),
+        runningTasks: [...processing],
+      };
+    },
+
     async stop() {
+      await dispatcher.unregister();
       if (worker) {
         await worker.close();
         worker = null;
@@ -137,10 +464,4 @@ export function createWorkerProcessor(docker: DockerManager, pocketbaseUrl: stri
   };
 }
 
-function tryParseJson(str: string): unknown {
-  try {
-    return JSON.parse(str);
-  } catch {
-    return { raw: str };
-  }
-}
+export type WorkerProcessor = ReturnType<typeof createWorkerProcessor>;
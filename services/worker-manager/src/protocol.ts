@@ -0,0 +1,165 @@
+import { StringDecoder } from 'node:string_decoder';
+import { TASK_LOG_LIMITS, type TaskOutput, type WorkerFrame } from '@saassy/shared';
+
+// Longer lines are treated as plain text rather than frames, and cut there
+const MAX_FRAME_LENGTH = 1024 * 1024;
+const MAX_MESSAGE_LENGTH = 500;
+// Plain text kept for the raw output, cut per line like task logs; later
+// lines are dropped
+const MAX_TEXT_BYTES = 1024 * 1024;
+
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Parses a worker's stdout as line-delimited JSON frames while it runs.
+ *
+ * Workers written before the frame protocol print a single JSON object at
+ * exit; the last JSON line that isn't a frame is used as the output in that
+ * case. Anything else on stdout is kept as plain text, up to
+ * MAX_TEXT_BYTES.
+ */
+export class WorkerOutputParser {
+  private decoder = new StringDecoder('utf8');
+  private buffer = '';
+  // Set while skipping the rest of a line longer than MAX_FRAME_LENGTH
+  private skippingLine = false;
+  private result: TaskOutput | null = null;
+  private lastJsonLine: TaskOutput | null = null;
+  private text: string[] = [];
+  private textBytes = 0;
+  private textTruncated = false;
+
+  constructor(private onFrame: (frame: WorkerFrame) => void = () => undefined) {}
+
+  write(chunk: Buffer | string) {
+    // The decoder holds back characters split across chunks
+    const data = typeof chunk === 'string' ? chunk : this.decoder.write(chunk);
+
+    let start = 0;
+    let newline = data.indexOf('\n');
+    while (newline !== -1) {
+      this.appendToLine(data.slice(start, newline));
+      this.endLine();
+      start = newline + 1;
+      newline = data.indexOf('\n', start);
+    }
+    this.appendToLine(data.slice(start));
+  }
+
+  /**
+   * Flush any unterminated last line and return the task output.
+   */
+  end(): TaskOutput {
+    this.appendToLine(this.decoder.end());
+    this.endLine();
+
+    if (this.result) return this.result;
+    if (this.lastJsonLine) return this.lastJsonLine;
+    return this.text.length > 0 ? { raw: this.text.join('\n') } : {};
+  }
+
+  private appendToLine(data: string) {
+    if (this.skippingLine || !data) return;
+
+    if (this.buffer.length + data.length > MAX_FRAME_LENGTH) {
+      // Too long for a frame: keep the start as text and skip the rest
+      this.addText(this.buffer + data.slice(0, MAX_FRAME_LENGTH - this.buffer.length));
+      this.buffer = '';
+      this.skippingLine = true;
+      return;
+    }
+    this.buffer += data;
+  }
+
+  private endLine() {
+    if (!this.skippingLine) this.handleLine(this.buffer);
+    this.buffer = '';
+    this.skippingLine = false;
+  }
+
+  private handleLine(rawLine: string) {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const parsed = tryParseObject(line);
+    if (!parsed) {
+      this.addText(line);
+      return;
+    }
+
+    const frame = toFrame(parsed);
+    if (!frame) {
+      this.lastJsonLine = parsed;
+      return;
+    }
+
+    if (frame.type === 'result') {
+      this.result = frame.output;
+    }
+    this.onFrame(frame);
+  }
+
+  private addText(rawLine: string) {
+    if (this.textTruncated) return;
+
+    const trimmed = rawLine.trim();
+    if (!trimmed) return;
+    const line = trimmed.length > TASK_LOG_LIMITS.maxLineLength
+      ? `${trimmed.slice(0, TASK_LOG_LIMITS.maxLineLength)}...`
+      : trimmed;
+
+    const bytes = Buffer.byteLength(line) + 1;
+    if (this.textBytes + bytes > MAX_TEXT_BYTES) {
+      this.textTruncated = true;
+      this.text.push(`[output truncated at ${MAX_TEXT_BYTES} bytes]`);
+      return;
+    }
+    this.text.push(line);
+    this.textBytes += bytes;
+  }
+}
+
+function toFrame(value: Record<string, unknown>): WorkerFrame | null {
+  switch (value.type) {
+    case 'progress': {
+      const percent = typeof value.percent === 'number' && Number.isFinite(value.percent)
+        ? Math.min(100, Math.max(0, value.percent))
+        : undefined;
+      const message = typeof value.message === 'string'
+        ? value.message.slice(0, MAX_MESSAGE_LENGTH)
+        : undefined;
+      return { type: 'progress', percent, message };
+    }
+
+    case 'log':
+      if (typeof value.message !== 'string') return null;
+      return {
+        type: 'log',
+        level: LOG_LEVELS.includes(value.level as string)
+          ? (value.level as 'debug' | 'info' | 'warn' | 'error')
+          : 'info',
+        message: value.message,
+      };
+
+    case 'result':
+      if (!isObject(value.output)) return null;
+      return { type: 'result', output: value.output };
+
+    default:
+      return null;
+  }
+}
+
+function tryParseObject(line: string): Record<string, unknown> | null {
+  if (!line.startsWith('{')) return null;
+  try {
+    const value = JSON.parse(line);
+    return isObject(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,5 +1,8 @@
-import { Queue, QueueEvents } from 'bullmq';
-import type { Task } from '@saassy/shared';
+import os from 'os';
+import { Queue, QueueEvents, Worker, type Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import type { JsonSchema, TaskResources, WorkerSecurityProfile } from '@saassy/shared';
+import type { ImagePolicy } from './images.js';
 
 export interface TaskJobData {
   taskId: string;
@@ -7,13 +10,499 @@ export interface TaskJobData {
   type: string;
   input: Record<string, unknown>;
   workerImage: string;
-  limits: {
-    cpuLimit: number;
-    memoryLimit: string;
+  // Resource fields are optional for jobs queued before plans had resource profiles
+  limits: Pick<TaskResources, 'cpuLimit' | 'memoryLimit'> & Partial<TaskResources> & {
     timeoutSeconds: number;
+    maxArtifactBytes: number;
   };
+  // Flat fee from the worker type, added to the user's usage cost
+  pricePerTaskCents?: number;
+  // The worker type's output contract; violations are flagged on the task
+  outputSchema?: JsonSchema;
+  // The worker type's resolved sandbox; jobs queued before profiles existed get the defaults
+  security?: WorkerSecurityProfile;
+  // How workerImage is pulled and checked; older jobs pull it by tag if missing
+  image?: ImagePolicy;
+  // ISO dates: held back until runAt; expired if it hasn't started by expiresAt
+  runAt?: string;
+  expiresAt?: string;
 }
 
+// A concurrency limit a task counts against while it is queued or running
+export interface ConcurrencyGroup {
+  key: string; // "user:<id>", or "org:<id>" for an organization's members' tasks
+  limit: number;
+}
+
+// How the dispatcher picks the next user to serve
+export type SchedulingMode = 'priority' | 'fair-share';
+
+export interface DispatchOptions {
+  // 1 and up; higher-priority tasks are dispatched first
+  priority: number;
+  // The user's share of capacity relative to others in fair-share mode
+  weight: number;
+}
+
+export interface DispatcherStatus {
+  mode: SchedulingMode;
+  // Seconds of waiting that count as one priority level
+  agingSeconds: number;
+  // Slots offered by worker managers with a recent heartbeat
+  capacity: number;
+  // Tasks handed to the queue that haven't finished
+  inFlight: number;
+  // Tasks waiting for a free slot
+  pending: number;
+  // Users with tasks in flight or pending, busiest first
+  users: Array<{
+    userId: string;
+    weight: number;
+    inFlight: number;
+    pending: number;
+    // Fraction of capacity the user is entitled to under fair share
+    share: number;
+  }>;
+}
+
+const DISPATCH_PREFIX = 'saassy:dispatch';
+
+// Worker managers re-announce their capacity this often; it lapses after the TTL
+const NODE_HEARTBEAT_MS = 10_000;
+const NODE_TTL_MS = 30_000;
+
+// Dispatch also runs on this interval, e.g. to pick up capacity of new nodes
+const DISPATCH_INTERVAL_MS = 5_000;
+
+// Slots this young may belong to a job that is still being added to the queue
+const SLOT_GRACE_MS = 60_000;
+
+// Users listed in the dispatcher status
+const STATUS_USER_LIMIT = 100;
+
+// Delayed jobs on the timers queue, by job name: "release" submits a task
+// whose runAt has come, "expire" hands a task past its expiresAt to onExpired
+interface ReleaseTimer {
+  data: TaskJobData;
+  groups: ConcurrencyGroup[];
+  options: DispatchOptions;
+}
+
+interface ExpireTimer {
+  taskId: string;
+}
+
+/**
+ * Hand the next task with free slots to the queue and return its job data,
+ * or nil when nothing may be dispatched.
+ *
+ * Pending tasks are scored by their enqueue time minus priority x aging
+ * interval, lowest first: a task waiting one aging interval catches up with
+ * one a level higher, so low priorities can't starve. Each user's best score
+ * is kept in the users set. In "priority" mode users are taken in that order;
+ * in "fair-share" mode the user furthest below their weighted share of the
+ * tasks in flight goes first.
+ */
+const DISPATCH_SCRIPT = `
+local prefix, now, mode = ARGV[1], tonumber(ARGV[2]), ARGV[3]
+
+local expired = redis.call('ZRANGEBYSCORE', prefix .. ':nodes', '-inf', now)
+for _, node in ipairs(expired) do
+  redis.call('HDEL', prefix .. ':capacity', node)
+end
+redis.call('ZREMRANGEBYSCORE', prefix .. ':nodes', '-inf', now)
+
+local capacity = 0
+for _, slots in ipairs(redis.call('HVALS', prefix .. ':capacity')) do
+  capacity = capacity + tonumber(slots)
+end
+if redis.call('SCARD', prefix .. ':inflight') >= capacity then
+  return nil
+end
+
+local users = redis.call('ZRANGE', prefix .. ':users', 0, -1)
+if mode == 'fair-share' then
+  local rank = {}
+  for i, user in ipairs(users) do
+    local inFlight = tonumber(redis.call('HGET', prefix .. ':user-inflight', user) or '0')
+    local weight = tonumber(redis.call('HGET', prefix .. ':weights', user) or '1')
+    rank[user] = { usage = inFlight / weight, order = i }
+  end
+  table.sort(users, function(a, b)
+    if rank[a].usage ~= rank[b].usage then
+      return rank[a].usage < rank[b].usage
+    end
+    return rank[a].order < rank[b].order
+  end)
+end
+
+for _, user in ipairs(users) do
+  local pendingKey = prefix .. ':pending:' .. user
+  local taskId = redis.call('ZRANGE', pendingKey, 0, 0)[1]
+  local raw = taskId and redis.call('HGET', prefix .. ':jobs', taskId)
+  if not taskId then
+    redis.call('ZREM', prefix .. ':users', user)
+  elseif not raw then
+    redis.call('ZREM', pendingKey, taskId)
+  else
+    local entry = cjson.decode(raw)
+    local free = true
+    for _, group in ipairs(entry.groups) do
+      if redis.call('SCARD', prefix .. ':active:' .. group.key) >= group.limit then
+        free = false
+      end
+    end
+
+    if free then
+      redis.call('ZREM', pendingKey, taskId)
+      for _, group in ipairs(entry.groups) do
+        redis.call('SADD', prefix .. ':active:' .. group.key, taskId)
+      end
+      redis.call('SADD', prefix .. ':inflight', taskId)
+      redis.call('HINCRBY', prefix .. ':user-inflight', user, 1)
+      redis.call('HSET', prefix .. ':slots', taskId, cjson.encode({
+        groups = entry.groups, userId = user, score = entry.score, weight = entry.weight, at = now,
+      }))
+
+      local nextTask = redis.call('ZRANGE', pendingKey, 0, 0, 'WITHSCORES')
+      if nextTask[1] then
+        redis.call('ZADD', prefix .. ':users', nextTask[2], user)
+      else
+        redis.call('ZREM', prefix .. ':users', user)
+      end
+
+      local data = redis.call('HGET', prefix .. ':data', taskId)
+      redis.call('HDEL', prefix .. ':jobs', taskId)
+      redis.call('HDEL', prefix .. ':data', taskId)
+      return data
+    end
+  end
+end
+return nil
+`;
+
+// Free the slots a dispatched task holds; returns its slot record, if any
+const RELEASE_SCRIPT = `
+local prefix, taskId = ARGV[1], ARGV[2]
+local raw = redis.call('HGET', prefix .. ':slots', taskId)
+if not raw then
+  return nil
+end
+local slot = cjson.decode(raw)
+for _, group in ipairs(slot.groups) do
+  redis.call('SREM', prefix .. ':active:' .. group.key, taskId)
+end
+redis.call('SREM', prefix .. ':inflight', taskId)
+redis.call('HDEL', prefix .. ':slots', taskId)
+
+if slot.userId and redis.call('HINCRBY', prefix .. ':user-inflight', slot.userId, -1) <= 0 then
+  redis.call('HDEL', prefix .. ':user-inflight', slot.userId)
+  if not redis.call('ZSCORE', prefix .. ':users', slot.userId) then
+    redis.call('HDEL', prefix .. ':weights', slot.userId)
+  end
+end
+return raw
+`;
+
+// Drop a task that is still waiting for a slot
+const CANCEL_SCRIPT = `
+local prefix, taskId = ARGV[1], ARGV[2]
+local raw = redis.call('HGET', prefix .. ':jobs', taskId)
+if not raw then
+  return 0
+end
+local userId = cjson.decode(raw).userId
+local pendingKey = prefix .. ':pending:' .. userId
+redis.call('ZREM', pendingKey, taskId)
+redis.call('HDEL', prefix .. ':jobs', taskId)
+redis.call('HDEL', prefix .. ':data', taskId)
+
+local nextTask = redis.call('ZRANGE', pendingKey, 0, 0, 'WITHSCORES')
+if nextTask[1] then
+  redis.call('ZADD', prefix .. ':users', nextTask[2], userId)
+else
+  redis.call('ZREM', prefix .. ':users', userId)
+  if redis.call('HEXISTS', prefix .. ':user-inflight', userId) == 0 then
+    redis.call('HDEL', prefix .. ':weights', userId)
+  end
+end
+return 1
+`;
+
+interface PendingEntry {
+  groups: ConcurrencyGroup[];
+  // Enqueue time minus priority x aging interval; lower is dispatched first
+  score: number;
+  weight: number;
+}
+
+/**
+ * Holds tasks back until their user (and their organization, if any) has a
+ * free slot and a worker manager has capacity, then adds them to the queue
+ * in priority or fair-share order. Tasks over their limit wait rather than
+ * being rejected. State lives in Redis, so every worker manager shares the
+ * same limits.
+ */
+export function createTaskDispatcher(
+  queue: Queue<TaskJobData>,
+  redisUrl: string,
+  { mode = 'priority', agingSeconds = 60 }: { mode?: SchedulingMode; agingSeconds?: number } = {}
+) {
+  const redis = new Redis(redisUrl, { maxRetriesPerRequest: null });
+  const events = new QueueEvents(queue.name, { connection: { url: redisUrl } });
+  const timers = new Queue<ReleaseTimer | ExpireTimer>(`${queue.name}-timers`, {
+    connection: { url: redisUrl },
+    defaultJobOptions: { removeOnComplete: true, removeOnFail: { age: 86400 } },
+  });
+  let timerWorker: Worker<ReleaseTimer | ExpireTimer> | null = null;
+  const nodeId = `${os.hostname()}:${process.pid}`;
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let heartbeat: ReturnType<typeof setInterval> | null = null;
+  let dispatching: Promise<void> | null = null;
+  let dispatchAgain = false;
+
+  redis.on('error', (error) => {
+    console.error('Dispatcher Redis error:', error.message);
+  });
+
+  async function dispatchNext(): Promise<boolean> {
+    const data = await redis.eval(DISPATCH_SCRIPT, 0, DISPATCH_PREFIX, Date.now(), mode) as string | null;
+    if (!data) return false;
+
+    const job = JSON.parse(data) as TaskJobData;
+    try {
+      await queue.add(`task-${job.taskId}`, job, { jobId: job.taskId });
+    } catch (error) {
+      // Back in line with the same limits and place
+      console.error(`Failed to dispatch task ${job.taskId}; putting it back:`, error);
+      const slot = await release(job.taskId);
+      if (slot) await submit(job, slot);
+      return false;
+    }
+    return true;
+  }
+
+  async function release(taskId: string): Promise<PendingEntry | null> {
+    const raw = await redis.eval(RELEASE_SCRIPT, 0, DISPATCH_PREFIX, taskId) as string | null;
+    if (!raw) return null;
+    const slot = JSON.parse(raw) as Omit<PendingEntry, 'groups'> & { groups: ConcurrencyGroup[] | object };
+    return {
+      // cjson writes empty arrays as {}
+      groups: Array.isArray(slot.groups) ? slot.groups : [],
+      score: slot.score ?? Date.now(),
+      weight: slot.weight ?? 1,
+    };
+  }
+
+  async function submit(data: TaskJobData, entry: PendingEntry) {
+    await redis
+      .multi()
+      .hset(`${DISPATCH_PREFIX}:jobs`, data.taskId, JSON.stringify({ userId: data.userId, ...entry }))
+      .hset(`${DISPATCH_PREFIX}:data`, data.taskId, JSON.stringify(data))
+      .zadd(`${DISPATCH_PREFIX}:pending:${data.userId}`, entry.score, data.taskId)
+      // LT keeps the user's best score; new users are still added
+      .zadd(`${DISPATCH_PREFIX}:users`, 'LT', entry.score, data.userId)
+      .hset(`${DISPATCH_PREFIX}:weights`, data.userId, entry.weight)
+      .exec();
+  }
+
+  async function announce(capacity: number) {
+    await redis
+      .multi()
+      .hset(`${DISPATCH_PREFIX}:capacity`, nodeId, capacity)
+      .zadd(`${DISPATCH_PREFIX}:nodes`, Date.now() + NODE_TTL_MS, nodeId)
+      .exec();
+  }
+
+  // Wait for a slot, ahead of tasks that are lower priority or have waited less
+  async function enqueue(data: TaskJobData, groups: ConcurrencyGroup[], { priority, weight }: DispatchOptions) {
+    await submit(data, { groups, score: Date.now() - priority * agingSeconds * 1000, weight });
+    await dispatcher.dispatch();
+  }
+
+  async function delay(name: 'release' | 'expire', taskId: string, at: string, data: ReleaseTimer | ExpireTimer) {
+    await timers.add(name, data, { jobId: `${name}-${taskId}`, delay: Math.max(0, Date.parse(at) - Date.now()) });
+  }
+
+  const dispatcher = {
+    /**
+     * Queue a task once every group it belongs to is under its limit, in
+     * order of priority (aged by how long it waited) or fair share. Tasks
+     * with a runAt in the future start waiting then.
+     */
+    async submit(data: TaskJobData, groups: ConcurrencyGroup[], options: DispatchOptions) {
+      if (data.expiresAt) {
+        await delay('expire', data.taskId, data.expiresAt, { taskId: data.taskId });
+      }
+      if (data.runAt && Date.parse(data.runAt) > Date.now()) {
+        await delay('release', data.taskId, data.runAt, { data, groups, options });
+        return;
+      }
+      await enqueue(data, groups, options);
+    },
+
+    // Remove a task that hasn't been dispatched yet; false if it already was
+    async cancel(taskId: string): Promise<boolean> {
+      // Removing a job reports success even if there was none, so look it up first
+      const delayed = await timers.getJob(`release-${taskId}`);
+      await Promise.all([delayed?.remove(), timers.remove(`expire-${taskId}`)]);
+      return Boolean(delayed) || (await redis.eval(CANCEL_SCRIPT, 0, DISPATCH_PREFIX, taskId)) === 1;
+    },
+
+    // Whether the task is waiting for its runAt or a slot, or holds one
+    async hasTask(taskId: string): Promise<boolean> {
+      const results = await redis
+        .multi()
+        .hexists(`${DISPATCH_PREFIX}:jobs`, taskId)
+        .hexists(`${DISPATCH_PREFIX}:slots`, taskId)
+        .exec();
+      return Boolean(results?.some(([, exists]) => exists === 1)) || Boolean(await timers.getJob(`release-${taskId}`));
+    },
+
+    // Dispatch until nothing else fits; calls while running trigger one more pass
+    dispatch(): Promise<void> {
+      if (dispatching) {
+        dispatchAgain = true;
+        return dispatching;
+      }
+      dispatching = (async () => {
+        do {
+          dispatchAgain = false;
+          try {
+            while (await dispatchNext());
+          } catch (error) {
+            console.error('Dispatch failed:', error);
+          }
+        } while (dispatchAgain);
+      })().finally(() => {
+        dispatching = null;
+      });
+      return dispatching;
+    },
+
+    // Offer this worker manager's slots until unregister() or the process dies
+    async register(capacity: number) {
+      await announce(capacity);
+      heartbeat ??= setInterval(() => {
+        announce(capacity).catch((error) => console.error('Dispatcher heartbeat failed:', error));
+      }, NODE_HEARTBEAT_MS);
+      await dispatcher.dispatch();
+    },
+
+    async unregister() {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        heartbeat = null;
+      }
+      await redis
+        .multi()
+        .hdel(`${DISPATCH_PREFIX}:capacity`, nodeId)
+        .zrem(`${DISPATCH_PREFIX}:nodes`, nodeId)
+        .exec();
+    },
+
+    /**
+     * Free slots of dispatched tasks whose job is gone without a completed,
+     * failed or removed event, e.g. after Redis lost events during a crash.
+     */
+    async releaseStaleSlots(isLive: (taskId: string) => Promise<boolean>) {
+      const slots = await redis.hgetall(`${DISPATCH_PREFIX}:slots`);
+      const cutoff = Date.now() - SLOT_GRACE_MS;
+      for (const [taskId, raw] of Object.entries(slots)) {
+        const { at } = JSON.parse(raw) as { at: number };
+        if (at < cutoff && !(await isLive(taskId))) {
+          await release(taskId);
+          console.warn(`Released the concurrency slots of task ${taskId}, whose job is gone`);
+        }
+      }
+      await dispatcher.dispatch();
+    },
+
+    async getStatus(): Promise<DispatcherStatus> {
+      const [capacities, inFlight, pending, weights, userInFlight] = await Promise.all([
+        redis.hvals(`${DISPATCH_PREFIX}:capacity`),
+        redis.scard(`${DISPATCH_PREFIX}:inflight`),
+        redis.hlen(`${DISPATCH_PREFIX}:jobs`),
+        // Kept for every user with tasks pending or in flight
+        redis.hgetall(`${DISPATCH_PREFIX}:weights`),
+        redis.hgetall(`${DISPATCH_PREFIX}:user-inflight`),
+      ]);
+
+      const userIds = Object.keys(weights);
+      const pipeline = redis.pipeline();
+      for (const userId of userIds) pipeline.zcard(`${DISPATCH_PREFIX}:pending:${userId}`);
+      const pendingCounts = (await pipeline.exec()) ?? [];
+      const totalWeight = userIds.reduce((sum, userId) => sum + Number(weights[userId]), 0);
+
+      const users = userIds
+        .map((userId, i) => ({
+          userId,
+          weight: Number(weights[userId]),
+          inFlight: Number(userInFlight[userId] || 0),
+          pending: Number(pendingCounts[i]?.[1] || 0),
+          share: totalWeight > 0 ? Number(weights[userId]) / totalWeight : 0,
+        }))
+        .sort((a, b) => b.inFlight - a.inFlight || b.pending - a.pending)
+        .slice(0, STATUS_USER_LIMIT);
+
+      return {
+        mode,
+        agingSeconds,
+        capacity: capacities.reduce((sum, slots) => sum + parseInt(slots, 10), 0),
+        inFlight,
+        pending,
+        users,
+      };
+    },
+
+    // onExpired is called for tasks whose expiresAt has passed, whatever their state
+    start(onExpired: (taskId: string) => Promise<void>) {
+      timerWorker = new Worker<ReleaseTimer | ExpireTimer>(
+        timers.name,
+        async (job: Job<ReleaseTimer | ExpireTimer>) => {
+          if (job.name === 'release') {
+            const { data, groups, options } = job.data as ReleaseTimer;
+            await enqueue(data, groups, options);
+          } else {
+            await onExpired((job.data as ExpireTimer).taskId);
+          }
+        },
+        { connection: { url: redisUrl } }
+      );
+
+      // A job holds its slots until it finishes for good; retries keep them
+      const onFinished = ({ jobId }: { jobId: string }) => {
+        release(jobId)
+          .then(() => dispatcher.dispatch())
+          .catch((error) => console.error(`Failed to release slots of task ${jobId}:`, error));
+      };
+      events.on('completed', onFinished);
+      events.on('failed', onFinished);
+      events.on('removed', onFinished);
+
+      interval = setInterval(() => void dispatcher.dispatch(), DISPATCH_INTERVAL_MS);
+      console.log('Task dispatcher started');
+    },
+
+    async stop() {
+      if (interval) {
+        clearInterval(interval);
+        interval = null;
+      }
+      await dispatcher.unregister();
+      await timerWorker?.close();
+      await dispatching;
+      await timers.close();
+      await events.close();
+      await redis.quit();
+    },
+  };
+
+  return dispatcher;
+}
+
+export type TaskDispatcher = ReturnType<typeof createTaskDispatcher>;
+
 export function createQueue(name: string, redisUrl: string) {
   const connection = { url: redisUrl };
 
@@ -48,28 +537,3 @@ export function createQueue(name: string, redisUrl: string) {
 
   return queue;
 }
-
-export async function addTaskToQueue(
-  queue: Queue<TaskJobData>,
-  task: Task,
-  workerImage: string,
-  limits: TaskJobData['limits']
-): Promise<string> {
-  const job = await queue.add(
-    `task-${task.id}`,
-    {
-      taskId: task.id,
-      userId: task.userId,
-      type: task.type,
-      input: task.input,
-      workerImage,
-      limits,
-    },
-    {
-      jobId: task.id,
-      priority: 1,
-    }
-  );
-
-  return job.id!;
-}
@@ -0,0 +1,165 @@
+import type { JobType, Queue } from 'bullmq';
+import PocketBase from 'pocketbase';
+import { TERMINAL_TASK_STATUSES, type TaskStatus } from '@saassy/shared';
+import type { DockerManager } from './docker.js';
+import type { EventPublisher } from './events.js';
+import type { WorkerProcessor } from './processor.js';
+import type { TaskDispatcher, TaskJobData } from './queue.js';
+import type { WebhookDispatcher } from './webhooks.js';
+
+// Job states in which the task will still be run by some worker manager
+const LIVE_JOB_STATES: string[] = ['active', 'waiting', 'delayed', 'prioritized', 'waiting-children'];
+
+// Tasks are left alone this long after their last update, so one that is
+// between being marked queued and its job being added isn't failed
+const STUCK_TASK_GRACE_MS = 2 * 60 * 1000;
+
+// Unfinished tasks checked per run, oldest first
+const STUCK_TASK_BATCH_SIZE = 100;
+
+interface TaskRecord {
+  id: string;
+  user: string;
+  status: TaskStatus;
+}
+
+/**
+ * Brings containers, jobs and task records back in line after the worker
+ * manager was killed mid-task. Containers whose task is still queued are
+ * left for the job to resume; the rest are removed. Unfinished tasks with
+ * neither a container nor a live job are failed.
+ */
+export function createReconciler(
+  docker: DockerManager,
+  queue: Queue<TaskJobData>,
+  pocketbaseUrl: string,
+  processor: WorkerProcessor,
+  events: EventPublisher,
+  webhooks: WebhookDispatcher,
+  dispatcher: TaskDispatcher
+) {
+  const pb = new PocketBase(pocketbaseUrl);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<void> | null = null;
+
+  async function getTask(taskId: string): Promise<TaskRecord | null> {
+    try {
+      return await pb.collection('tasks').getOne<TaskRecord>(taskId);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return null;
+      throw error;
+    }
+  }
+
+  async function getJobState(taskId: string): Promise<JobType | 'unknown' | 'missing'> {
+    const job = await queue.getJob(taskId);
+    return job ? job.getState() : 'missing';
+  }
+
+  async function failTask(task: TaskRecord, error: string) {
+    await pb.collection('tasks').update(task.id, {
+      status: 'failed',
+      error,
+      completed_at: new Date().toISOString(),
+    });
+    await events.publish({ type: 'status', taskId: task.id, userId: task.user, status: 'failed', error });
+    await webhooks.enqueue({
+      event: 'task.failed',
+      taskId: task.id,
+      userId: task.user,
+      result: { taskId: task.id, status: 'failed', output: {}, error },
+      timestamp: new Date().toISOString(),
+    });
+    console.warn(`Reconciler failed task ${task.id}: ${error}`);
+  }
+
+  // Remove containers no job is going to pick up again
+  async function reconcileContainers(): Promise<Set<string>> {
+    const containers = await docker.listTaskContainers();
+    const remaining = new Set<string>();
+
+    for (const container of containers) {
+      if (processor.isProcessing(container.taskId)) {
+        remaining.add(container.taskId);
+        continue;
+      }
+
+      const task = await getTask(container.taskId);
+      const unfinished = task !== null && !TERMINAL_TASK_STATUSES.includes(task.status);
+      const jobState = await getJobState(container.taskId);
+      if (unfinished && LIVE_JOB_STATES.includes(jobState)) {
+        // The job runs again and reattaches to the container
+        remaining.add(container.taskId);
+        continue;
+      }
+
+      await docker.removeContainer(container.id);
+      console.log(`Removed orphaned container ${container.id} (task ${container.taskId}, ${container.state})`);
+      if (unfinished) {
+        await failTask(task, 'Task was interrupted by a worker manager restart and could not be resumed');
+      }
+    }
+
+    return remaining;
+  }
+
+  // Fail unfinished tasks that nothing is going to run
+  async function reconcileTasks(withContainers: Set<string>) {
+    // PocketBase dates look like "2024-01-01 12:00:00.000Z"
+    const cutoff = new Date(Date.now() - STUCK_TASK_GRACE_MS).toISOString().replace('T', ' ');
+    const { items } = await pb.collection('tasks').getList<TaskRecord>(1, STUCK_TASK_BATCH_SIZE, {
+      filter: `(status = "running" || status = "queued") && updated < "${cutoff}"`,
+      sort: 'updated',
+    });
+
+    for (const task of items) {
+      if (withContainers.has(task.id) || processor.isProcessing(task.id)) continue;
+      // Waiting for a concurrency slot, or just given one; slots of lost jobs
+      // are released below and the task is failed on the next pass
+      if (await dispatcher.hasTask(task.id)) continue;
+      if (LIVE_JOB_STATES.includes(await getJobState(task.id))) continue;
+
+      await failTask(
+        task,
+        task.status === 'running'
+          ? 'Task was interrupted: its container and queue job were lost'
+          : 'Task was lost from the queue before it started'
+      );
+    }
+  }
+
+  async function reconcile() {
+    try {
+      const withContainers = await reconcileContainers();
+      await reconcileTasks(withContainers);
+      await dispatcher.releaseStaleSlots(async (taskId) => LIVE_JOB_STATES.includes(await getJobState(taskId)));
+    } catch (error) {
+      console.error('Reconciliation failed:', error);
+    }
+  }
+
+  return {
+    // Run one pass; concurrent calls share the pass in progress
+    run(): Promise<void> {
+      running ??= reconcile().finally(() => {
+        running = null;
+      });
+      return running;
+    },
+
+    start(intervalMs: number) {
+      timer = setInterval(() => void this.run(), intervalMs);
+      console.log(`Reconciler started (every ${intervalMs / 1000}s)`);
+    },
+
+    async stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      await running;
+    },
+  };
+}
+
+export type Reconciler = ReturnType<typeof createReconciler>;
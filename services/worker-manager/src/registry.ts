@@ -0,0 +1,361 @@
+import PocketBase, { type RecordModel } from 'pocketbase';
+import { createPublicKey } from 'crypto';
+import {
+  checkJsonSchema,
+  type ImagePullPolicy,
+  type PlanType,
+  type WorkerSecurityProfile,
+  type WorkerType,
+  type WorkerTypeInput,
+} from '@saassy/shared';
+import { canStoreSecrets, encryptSecret } from './secrets.js';
+
+// Worker types are re-read from PocketBase at most this often
+const CACHE_TTL_MS = 30_000;
+
+const NAME_REGEX = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const MEMORY_LIMIT_REGEX = /^\d+[kmg]?$/i;
+const VALID_PLANS: PlanType[] = ['free', 'starter', 'pro', 'enterprise'];
+const USER_REGEX = /^(\d+|[a-z_][a-z0-9_-]*)(:(\d+|[a-z_][a-z0-9_-]*))?$/;
+const CAPABILITY_REGEX = /^[A-Z][A-Z_]+$/;
+const EGRESS_HOST_REGEX = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:\d{1,5})?$/i;
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+const DIGEST_REGEX = /^sha256:[a-f0-9]{64}$/;
+const REGISTRY_HOST_REGEX = /^[a-z0-9.-]+(:\d{1,5})?$/i;
+const PULL_POLICIES: ImagePullPolicy[] = ['always', 'if-not-present', 'never'];
+
+export class WorkerTypeValidationError extends Error {}
+
+// Checks per security profile key; each returns a problem description or null
+const SECURITY_CHECKS: { [K in keyof WorkerSecurityProfile]-?: (value: unknown) => string | null } = {
+  user: (v) => (typeof v === 'string' && USER_REGEX.test(v) ? null : 'must look like "1000" or "1000:1000"'),
+  runAsNonRoot: (v) => (typeof v === 'boolean' ? null : 'must be a boolean'),
+  readOnlyRootfs: (v) => (typeof v === 'boolean' ? null : 'must be a boolean'),
+  tmpfsSizeMb: (v) => (Number.isInteger(v) && (v as number) > 0 ? null : 'must be a positive integer'),
+  dropAllCapabilities: (v) => (typeof v === 'boolean' ? null : 'must be a boolean'),
+  addCapabilities: (v) =>
+    Array.isArray(v) && v.every((cap) => typeof cap === 'string' && CAPABILITY_REGEX.test(cap))
+      ? null
+      : 'must be capability names like "NET_BIND_SERVICE"',
+  noNewPrivileges: (v) => (typeof v === 'boolean' ? null : 'must be a boolean'),
+  seccomp: (v) => (v === 'default' || v === 'strict' || v === 'unconfined' ? null : 'must be default, strict or unconfined'),
+  pidsLimit: (v) => (Number.isInteger(v) && (v as number) > 0 ? null : 'must be a positive integer'),
+  nofileLimit: (v) => (Number.isInteger(v) && (v as number) > 0 ? null : 'must be a positive integer'),
+  network: (v) => (v === 'none' || v === 'allowlist' || v === 'bridge' ? null : 'must be none, allowlist or bridge'),
+  egressAllowlist: (v) =>
+    Array.isArray(v) && v.every((host) => typeof host === 'string' && EGRESS_HOST_REGEX.test(host))
+      ? null
+      : 'must be host names like "api.example.com", "*.example.com" or "host:443"',
+};
+
+function checkSecurityProfile(security: unknown): string | null {
+  if (typeof security !== 'object' || security === null || Array.isArray(security)) {
+    return 'security must be an object';
+  }
+  for (const [key, value] of Object.entries(security)) {
+    if (!Object.hasOwn(SECURITY_CHECKS, key)) return `security.${key} is not a supported setting`;
+    const problem = SECURITY_CHECKS[key as keyof WorkerSecurityProfile](value);
+    if (problem) return `security.${key} ${problem}`;
+  }
+
+  const profile = security as Partial<WorkerSecurityProfile>;
+  if (profile.runAsNonRoot !== false && profile.user && /^(0|root)(:|$)/.test(profile.user)) {
+    return 'security.user must not be root unless runAsNonRoot is false';
+  }
+  return null;
+}
+
+function encryptRegistryAuth(auth: unknown): string {
+  const { serverAddress, username, password } = (auth || {}) as Record<string, unknown>;
+  if (typeof serverAddress !== 'string' || !REGISTRY_HOST_REGEX.test(serverAddress) ||
+      typeof username !== 'string' || !username ||
+      typeof password !== 'string' || !password) {
+    throw new WorkerTypeValidationError('registryAuth must have serverAddress, username and password');
+  }
+  if (!canStoreSecrets()) {
+    throw new WorkerTypeValidationError('Registry credentials need REGISTRY_CREDENTIALS_KEY to be set on the worker manager');
+  }
+  return encryptSecret(JSON.stringify({ serverAddress, username, password }));
+}
+
+// Users' own images must be pinned, and signatures are checked against a digest
+function checkImagePinning(fields: Record<string, unknown>): void {
+  if (fields.owner && !String(fields.name).startsWith(`${fields.owner}-`)) {
+    throw new WorkerTypeValidationError('Custom worker type names must start with the owner\'s ID');
+  }
+  if (fields.owner && !fields.image_digest) {
+    throw new WorkerTypeValidationError('imageDigest is required for custom worker images');
+  }
+  if (fields.signature_key && !fields.image_digest) {
+    throw new WorkerTypeValidationError('imageDigest is required to verify signatures');
+  }
+}
+
+function toWorkerType(record: RecordModel): WorkerType {
+  return {
+    id: record.id,
+    name: record.name,
+    image: record.image,
+    description: record.description || undefined,
+    enabled: Boolean(record.enabled),
+    cpuLimit: record.cpu_limit,
+    memoryLimit: record.memory_limit,
+    minCpu: record.min_cpu || undefined,
+    minMemory: record.min_memory || undefined,
+    timeoutSeconds: record.timeout_seconds,
+    allowedPlans: record.allowed_plans || [],
+    pricePerTaskCents: record.price_per_task_cents || 0,
+    inputSchema: record.input_schema || undefined,
+    outputSchema: record.output_schema || undefined,
+    security: record.security || undefined,
+    ownerId: record.owner || undefined,
+    imageDigest: record.image_digest || undefined,
+    pullPolicy: record.owner ? 'always' : record.pull_policy || 'if-not-present',
+    hasRegistryAuth: Boolean(record.registry_auth),
+    signatureKey: record.signature_key || undefined,
+    maxImageMb: record.max_image_mb || undefined,
+    created: record.created,
+    updated: record.updated,
+  };
+}
+
+/**
+ * Validate a create (or, with partial, update) body and map it to
+ * worker_types record fields.
+ */
+function toRecordFields(body: Partial<WorkerTypeInput>, partial: boolean): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  const has = (key: keyof WorkerTypeInput) => body[key] !== undefined;
+  const require = (key: keyof WorkerTypeInput) => {
+    if (!partial && !has(key)) throw new WorkerTypeValidationError(`${key} is required`);
+    return has(key);
+  };
+
+  if (require('name')) {
+    if (typeof body.name !== 'string' || !NAME_REGEX.test(body.name)) {
+      throw new WorkerTypeValidationError('name must be lowercase letters, digits and dashes');
+    }
+    fields.name = body.name;
+  }
+  if (require('image')) {
+    if (typeof body.image !== 'string' || !body.image.trim() || /\s/.test(body.image.trim())) {
+      throw new WorkerTypeValidationError('image must be a Docker image reference');
+    }
+    fields.image = body.image.trim();
+  }
+  if (has('description')) {
+    if (typeof body.description !== 'string') {
+      throw new WorkerTypeValidationError('description must be a string');
+    }
+    fields.description = body.description;
+  }
+  if (has('enabled')) {
+    if (typeof body.enabled !== 'boolean') throw new WorkerTypeValidationError('enabled must be a boolean');
+    fields.enabled = body.enabled;
+  } else if (!partial) {
+    fields.enabled = true;
+  }
+  if (require('cpuLimit')) {
+    if (typeof body.cpuLimit !== 'number' || !(body.cpuLimit >= 0.1)) {
+      throw new WorkerTypeValidationError('cpuLimit must be at least 0.1');
+    }
+    fields.cpu_limit = body.cpuLimit;
+  }
+  if (require('memoryLimit')) {
+    if (typeof body.memoryLimit !== 'string' || !MEMORY_LIMIT_REGEX.test(body.memoryLimit)) {
+      throw new WorkerTypeValidationError('memoryLimit must look like "512m" or "2g"');
+    }
+    fields.memory_limit = body.memoryLimit;
+  }
+  if (has('minCpu')) {
+    if (typeof body.minCpu !== 'number' || !(body.minCpu >= 0)) {
+      throw new WorkerTypeValidationError('minCpu must be zero or more');
+    }
+    fields.min_cpu = body.minCpu;
+  }
+  if (has('minMemory')) {
+    if (typeof body.minMemory !== 'string' || !MEMORY_LIMIT_REGEX.test(body.minMemory)) {
+      throw new WorkerTypeValidationError('minMemory must look like "512m" or "2g"');
+    }
+    fields.min_memory = body.minMemory;
+  }
+  if (require('timeoutSeconds')) {
+    if (!Number.isInteger(body.timeoutSeconds) || body.timeoutSeconds! < 1) {
+      throw new WorkerTypeValidationError('timeoutSeconds must be a positive integer');
+    }
+    fields.timeout_seconds = body.timeoutSeconds;
+  }
+  if (has('allowedPlans')) {
+    if (!Array.isArray(body.allowedPlans) || !body.allowedPlans.every((p) => VALID_PLANS.includes(p))) {
+      throw new WorkerTypeValidationError(`allowedPlans must only contain ${VALID_PLANS.join(', ')}`);
+    }
+    fields.allowed_plans = body.allowedPlans;
+  }
+  if (has('pricePerTaskCents')) {
+    if (typeof body.pricePerTaskCents !== 'number' || !(body.pricePerTaskCents >= 0)) {
+      throw new WorkerTypeValidationError('pricePerTaskCents must be zero or more');
+    }
+    fields.price_per_task_cents = body.pricePerTaskCents;
+  }
+  // null clears a schema
+  for (const [key, field] of [['inputSchema', 'input_schema'], ['outputSchema', 'output_schema']] as const) {
+    if (body[key] === undefined) continue;
+    if (body[key] !== null) {
+      const problem = checkJsonSchema(body[key], key);
+      if (problem) throw new WorkerTypeValidationError(problem);
+    }
+    fields[field] = body[key];
+  }
+  // null resets the profile to the defaults
+  if (body.security !== undefined) {
+    if (body.security !== null) {
+      const problem = checkSecurityProfile(body.security);
+      if (problem) throw new WorkerTypeValidationError(problem);
+    }
+    fields.security = body.security;
+  }
+  if (has('ownerId')) {
+    if (typeof body.ownerId !== 'string' || !POCKETBASE_ID_REGEX.test(body.ownerId)) {
+      throw new WorkerTypeValidationError('ownerId must be a user id');
+    }
+    fields.owner = body.ownerId;
+  }
+  // null clears the image settings below
+  if (body.imageDigest !== undefined) {
+    if (body.imageDigest !== null && (typeof body.imageDigest !== 'string' || !DIGEST_REGEX.test(body.imageDigest))) {
+      throw new WorkerTypeValidationError('imageDigest must look like "sha256:" followed by 64 hex digits');
+    }
+    fields.image_digest = body.imageDigest || '';
+  }
+  if (has('pullPolicy')) {
+    if (!PULL_POLICIES.includes(body.pullPolicy!)) {
+      throw new WorkerTypeValidationError(`pullPolicy must be one of ${PULL_POLICIES.join(', ')}`);
+    }
+    fields.pull_policy = body.pullPolicy;
+  } else if (!partial) {
+    fields.pull_policy = 'if-not-present';
+  }
+  // Pulled for every task with the type's own credentials: a cached image
+  // pulled for another user would otherwise run without them
+  if (fields.owner) {
+    fields.pull_policy = 'always';
+  }
+  if (body.registryAuth !== undefined) {
+    fields.registry_auth = body.registryAuth === null ? '' : encryptRegistryAuth(body.registryAuth);
+  }
+  if (body.signatureKey !== undefined) {
+    if (body.signatureKey !== null) {
+      try {
+        createPublicKey(body.signatureKey);
+      } catch {
+        throw new WorkerTypeValidationError('signatureKey must be a PEM public key');
+      }
+    }
+    fields.signature_key = body.signatureKey || '';
+  }
+  if (body.maxImageMb !== undefined) {
+    if (body.maxImageMb !== null && !(Number.isInteger(body.maxImageMb) && body.maxImageMb > 0)) {
+      throw new WorkerTypeValidationError('maxImageMb must be a positive integer');
+    }
+    fields.max_image_mb = body.maxImageMb || null;
+  }
+
+  return fields;
+}
+
+/**
+ * Worker types from the worker_types collection, cached in memory so queuing
+ * a task doesn't cost a PocketBase round trip. Changes made through this
+ * registry take effect immediately; edits made directly in PocketBase within
+ * CACHE_TTL_MS.
+ */
+export function createWorkerRegistry(pocketbaseUrl: string) {
+  const pb = new PocketBase(pocketbaseUrl);
+  pb.autoCancellation(false);
+
+  let cache: Map<string, WorkerType> | null = null;
+  // Encrypted registry credentials by worker type name; kept out of WorkerType
+  let registryAuths = new Map<string, string>();
+  let loadedAt = 0;
+  let loading: Promise<Map<string, WorkerType>> | null = null;
+
+  async function load(): Promise<Map<string, WorkerType>> {
+    if (cache && Date.now() - loadedAt < CACHE_TTL_MS) return cache;
+    if (!loading) {
+      loading = pb
+        .collection('worker_types')
+        .getFullList({ sort: 'name' })
+        .then((records) => {
+          cache = new Map(records.map((record) => [record.name, toWorkerType(record)]));
+          registryAuths = new Map(
+            records.filter((record) => record.registry_auth).map((record) => [record.name, record.registry_auth])
+          );
+          loadedAt = Date.now();
+          return cache;
+        })
+        .catch((error) => {
+          // Keep serving the last known types if PocketBase is briefly down
+          if (cache) {
+            console.error('Failed to refresh worker types, using cached list:', error);
+            return cache;
+          }
+          throw error;
+        })
+        .finally(() => {
+          loading = null;
+        });
+    }
+    return loading;
+  }
+
+  function invalidate() {
+    loadedAt = 0;
+  }
+
+  return {
+    async list(): Promise<WorkerType[]> {
+      return [...(await load()).values()];
+    },
+
+    async get(name: string): Promise<WorkerType | null> {
+      return (await load()).get(name) || null;
+    },
+
+    // Encrypted credentials for pulling a worker type's image, if any
+    async getRegistryAuth(name: string): Promise<string | undefined> {
+      await load();
+      return registryAuths.get(name);
+    },
+
+    async create(body: Partial<WorkerTypeInput>): Promise<WorkerType> {
+      const fields = toRecordFields(body, false);
+      checkImagePinning(fields);
+      const record = await pb.collection('worker_types').create(fields);
+      invalidate();
+      return toWorkerType(record);
+    },
+
+    async update(id: string, body: Partial<WorkerTypeInput>): Promise<WorkerType> {
+      const fields = toRecordFields(body, true);
+      const existing = await pb.collection('worker_types').getOne(id);
+      checkImagePinning({ ...existing, ...fields });
+      const record = await pb.collection('worker_types').update(id, fields);
+      invalidate();
+      return toWorkerType(record);
+    },
+
+    async remove(id: string): Promise<void> {
+      await pb.collection('worker_types').delete(id);
+      invalidate();
+    },
+
+    invalidate,
+  };
+}
+
+export type WorkerRegistry = ReturnType<typeof createWorkerRegistry>;
+
+// Whether users on a plan may run tasks of this type
+export function isPlanAllowed(workerType: WorkerType, plan: PlanType): boolean {
+  return workerType.allowedPlans.length === 0 || workerType.allowedPlans.includes(plan);
+}
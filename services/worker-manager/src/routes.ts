@@ -1,25 +1,23 @@
 import { Router, type Router as ExpressRouter } from 'express';
 import type { Queue } from 'bullmq';
-import PocketBase from 'pocketbase';
 import type { DockerManager } from './docker.js';
-import type { TaskJobData } from './queue.js';
-import { PLAN_LIMITS, type PlanType } from '@saassy/shared';
+import { TaskRejectedError, type TaskLauncher } from './launcher.js';
+import type { WorkerProcessor } from './processor.js';
+import { DeliveryPendingError, type WebhookDispatcher } from './webhooks.js';
+import type { TaskDispatcher, TaskJobData } from './queue.js';
+import { WorkerTypeValidationError, type WorkerRegistry } from './registry.js';
+import { getNextRunAt, ScheduleValidationError } from './scheduler.js';
+import type { WorkflowRunner } from './workflows.js';
 
 // Validation helpers
 const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
-const VALID_TASK_TYPES = ['example-worker', 'test-worker'];
-const VALID_PLANS: PlanType[] = ['free', 'starter', 'pro', 'enterprise'];
 
 function isValidPocketBaseId(id: string): boolean {
   return typeof id === 'string' && POCKETBASE_ID_REGEX.test(id);
 }
 
-function escapeFilterValue(value: string): string {
-  return value.replace(/["\\]/g, '\\$&');
-}
-
 const INTERNAL_API_KEY = process.env.INTERNAL_API_KEY;
-const POCKETBASE_URL = process.env.POCKETBASE_URL || 'http://localhost:8090';
+const DRAIN_TIMEOUT_SECONDS = parseInt(process.env.DRAIN_TIMEOUT_SECONDS || '120', 10);
 
 // Validate required environment variables at startup
 if (!INTERNAL_API_KEY || INTERNAL_API_KEY === 'dev-secret-key') {
@@ -29,9 +27,17 @@ if (!INTERNAL_API_KEY || INTERNAL_API_KEY === 'dev-secret-key') {
   console.warn('WARNING: INTERNAL_API_KEY is not set or using insecure default. Set a secure key for production.');
 }
 
-export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager): ExpressRouter {
+export function createRoutes(
+  queue: Queue<TaskJobData>,
+  docker: DockerManager,
+  webhooks: WebhookDispatcher,
+  registry: WorkerRegistry,
+  processor: WorkerProcessor,
+  dispatcher: TaskDispatcher,
+  launcher: TaskLauncher,
+  workflows: WorkflowRunner
+): ExpressRouter {
   const router = Router();
-  const pb = new PocketBase(POCKETBASE_URL);
 
   // Auth middleware for internal routes
   router.use((req, res, next) => {
@@ -49,7 +55,7 @@ export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager):
   // POST /internal/tasks/start - Queue a task for execution
   router.post('/tasks/start', async (req, res) => {
     try {
-      const { taskId, userId, type, input } = req.body;
+      const { taskId, userId, type, input, resources, priority, runAt, expiresAt } = req.body;
 
       if (!taskId || !userId || !type || !input) {
         return res.status(400).json({ error: 'Missing required fields' });
@@ -60,59 +66,17 @@ export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager):
         return res.status(400).json({ error: 'Invalid task or user ID format' });
       }
 
-      // Validate task type against whitelist
-      if (!VALID_TASK_TYPES.includes(type)) {
-        return res.status(400).json({ error: `Unknown task type: ${type}` });
-      }
-
-      // Get worker image for task type
-      const workerImage = getWorkerImage(type);
-      if (!workerImage) {
-        return res.status(400).json({ error: `Unknown task type: ${type}` });
-      }
-
-      // Look up user's plan from database (don't trust client-provided plan)
-      let plan: PlanType = 'free';
-      try {
-        const subscriptions = await pb.collection('subscriptions').getList(1, 1, {
-          filter: `user = "${escapeFilterValue(userId)}" && status = "active"`,
-          sort: '-created',
-        });
-        const subscription = subscriptions.items[0];
-        if (subscription?.plan && VALID_PLANS.includes(subscription.plan)) {
-          plan = subscription.plan as PlanType;
-        }
-      } catch (error) {
-        console.warn('Could not fetch user subscription, using free plan limits:', error);
-      }
-
-      // Get limits based on verified plan
-      const limits = PLAN_LIMITS[plan] || PLAN_LIMITS.free;
-
-      // Add to queue
-      const job = await queue.add(
-        `task-${taskId}`,
-        {
-          taskId,
-          userId,
-          type,
-          input,
-          workerImage,
-          limits: {
-            cpuLimit: 1,
-            memoryLimit: '512m',
-            timeoutSeconds: limits.maxDurationSeconds,
-          },
-        },
-        { jobId: taskId }
-      );
+      await launcher.start({ taskId, userId, type, input, resources, priority, runAt, expiresAt });
 
       res.json({
         success: true,
-        jobId: job.id,
+        jobId: taskId,
         message: 'Task queued for execution',
       });
     } catch (error) {
+      if (error instanceof TaskRejectedError) {
+        return res.status(error.status).json({ error: error.message, errors: error.errors });
+      }
       console.error('Failed to queue task:', error);
       res.status(500).json({ error: 'Failed to queue task' });
     }
@@ -128,14 +92,7 @@ export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager):
         return res.status(400).json({ error: 'Invalid task ID format' });
       }
 
-      // Remove from queue if pending
-      const job = await queue.getJob(id);
-      if (job) {
-        await job.remove();
-      }
-
-      // Stop container if running
-      await docker.stopContainer(id);
+      await launcher.cancel(id);
 
       res.json({ success: true, message: 'Task canceled' });
     } catch (error) {
@@ -144,13 +101,138 @@ export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager):
     }
   });
 
+  // POST /internal/schedules/next-run - Check a cron expression and timezone
+  // and return when they next match
+  router.post('/schedules/next-run', (req, res) => {
+    const { cron, timezone } = req.body ?? {};
+    try {
+      res.json({ nextRunAt: getNextRunAt(cron, timezone).toISOString() });
+    } catch (error) {
+      if (error instanceof ScheduleValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Failed to compute next schedule run:', error);
+      res.status(500).json({ error: 'Failed to compute next schedule run' });
+    }
+  });
+
+  // POST /internal/workflows/:id/start - Start a new workflow's first steps
+  router.post('/workflows/:id/start', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!isValidPocketBaseId(id)) {
+        return res.status(400).json({ error: 'Invalid workflow ID format' });
+      }
+
+      await workflows.submit(id);
+
+      res.json({ success: true, message: 'Workflow started' });
+    } catch (error) {
+      console.error('Failed to start workflow:', error);
+      res.status(500).json({ error: 'Failed to start workflow' });
+    }
+  });
+
+  // POST /internal/webhooks/deliveries/:id/redeliver - Send a webhook delivery again
+  router.post('/webhooks/deliveries/:id/redeliver', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!isValidPocketBaseId(id)) {
+        return res.status(400).json({ error: 'Invalid delivery ID format' });
+      }
+
+      await webhooks.redeliver(id);
+
+      res.json({ success: true, message: 'Webhook delivery queued' });
+    } catch (error) {
+      if (error instanceof DeliveryPendingError) {
+        return res.status(409).json({ error: error.message });
+      }
+      console.error('Failed to redeliver webhook:', error);
+      res.status(500).json({ error: 'Failed to redeliver webhook' });
+    }
+  });
+
+  // GET /internal/worker-types - List registered worker types
+  router.get('/worker-types', async (req, res) => {
+    try {
+      res.json({ items: await registry.list() });
+    } catch (error) {
+      console.error('Failed to list worker types:', error);
+      res.status(500).json({ error: 'Failed to list worker types' });
+    }
+  });
+
+  // POST /internal/worker-types - Register a worker type
+  router.post('/worker-types', async (req, res) => {
+    try {
+      if (req.body?.name && (await registry.get(req.body.name))) {
+        return res.status(409).json({ error: `Worker type ${req.body.name} already exists` });
+      }
+      const workerType = await registry.create(req.body || {});
+      res.status(201).json(workerType);
+    } catch (error) {
+      if (error instanceof WorkerTypeValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error('Failed to create worker type:', error);
+      res.status(500).json({ error: 'Failed to create worker type' });
+    }
+  });
+
+  // PATCH /internal/worker-types/:id - Update a worker type
+  router.patch('/worker-types/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!isValidPocketBaseId(id)) {
+        return res.status(400).json({ error: 'Invalid worker type ID format' });
+      }
+
+      res.json(await registry.update(id, req.body || {}));
+    } catch (error) {
+      if (error instanceof WorkerTypeValidationError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if ((error as { status?: number }).status === 404) {
+        return res.status(404).json({ error: 'Worker type not found' });
+      }
+      console.error('Failed to update worker type:', error);
+      res.status(500).json({ error: 'Failed to update worker type' });
+    }
+  });
+
+  // DELETE /internal/worker-types/:id - Remove a worker type
+  router.delete('/worker-types/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      if (!isValidPocketBaseId(id)) {
+        return res.status(400).json({ error: 'Invalid worker type ID format' });
+      }
+
+      await registry.remove(id);
+      res.json({ success: true, message: 'Worker type deleted' });
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return res.status(404).json({ error: 'Worker type not found' });
+      }
+      console.error('Failed to delete worker type:', error);
+      res.status(500).json({ error: 'Failed to delete worker type' });
+    }
+  });
+
   // GET /internal/workers/status - Get worker status
   router.get('/workers/status', async (req, res) => {
     try {
       const runningTasks = await docker.getRunningTasks();
       const queueCounts = await queue.getJobCounts();
+      const dispatch = await dispatcher.getStatus();
 
       res.json({
+        draining: processor.getDrainStatus().draining,
         running: runningTasks.length,
         runningTasks,
         queue: {
@@ -159,6 +241,8 @@ export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager):
           completed: queueCounts.completed,
           failed: queueCounts.failed,
         },
+        // Tasks waiting for a concurrency slot haven't reached the queue yet
+        dispatch,
       });
     } catch (error) {
       console.error('Failed to get worker status:', error);
@@ -166,15 +250,20 @@ export function createRoutes(queue: Queue<TaskJobData>, docker: DockerManager):
     }
   });
 
-  return router;
-}
+  // POST /internal/admin/drain - Stop taking jobs ahead of a deploy; tasks
+  // still running after timeoutSeconds are requeued
+  router.post('/admin/drain', (req, res) => {
+    const { timeoutSeconds = DRAIN_TIMEOUT_SECONDS } = req.body ?? {};
+    if (typeof timeoutSeconds !== 'number' || !Number.isFinite(timeoutSeconds) || timeoutSeconds < 0) {
+      return res.status(400).json({ error: 'timeoutSeconds must be a non-negative number' });
+    }
 
-// Map task types to Docker images
-function getWorkerImage(type: string): string | null {
-  const workerImages: Record<string, string> = {
-    'example-worker': 'saassy/example-worker:latest',
-    'test-worker': 'saassy/test-worker:latest',
-  };
+    processor.drain(timeoutSeconds * 1000).catch((error) => {
+      console.error('Drain failed:', error);
+    });
+    res.status(202).json(processor.getDrainStatus());
+  });
 
-  return workerImages[type] || null;
+  return router;
 }
+
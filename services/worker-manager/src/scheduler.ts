@@ -0,0 +1,197 @@
+import cronParser from 'cron-parser';
+import { Redis } from 'ioredis';
+import PocketBase from 'pocketbase';
+import {
+  TERMINAL_TASK_STATUSES,
+  type ScheduleOverlapPolicy,
+  type TaskResourceRequest,
+  type TaskStatus,
+} from '@saassy/shared';
+import type { CreateTaskOutcome, TaskLauncher } from './launcher.js';
+import { createLeaderLock } from './leader.js';
+
+// Due schedules are looked for this often; cron expressions have minute resolution
+const SCHEDULER_INTERVAL_MS = 15_000;
+
+// Only one worker manager runs schedules; it holds the lock while it keeps renewing it
+const LEADER_KEY = 'saassy:scheduler:leader';
+const LEADER_TTL_MS = 45_000;
+
+// Schedules run per pass, most overdue first
+const DUE_BATCH_SIZE = 100;
+
+export class ScheduleValidationError extends Error {}
+
+interface ScheduleRecord {
+  id: string;
+  user: string;
+  cron: string;
+  timezone: string;
+  type: string;
+  input: Record<string, unknown>;
+  resources: TaskResourceRequest | null;
+  priority: number | null;
+  overlap_policy: ScheduleOverlapPolicy;
+  last_task: string;
+}
+
+interface TaskRecord {
+  id: string;
+  user: string;
+  status: TaskStatus;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * When a five-field cron expression next matches after the given time,
+ * reading it in an IANA timezone.
+ */
+export function getNextRunAt(cron: unknown, timezone: unknown, after = new Date()): Date {
+  if (typeof cron !== 'string' || cron.trim().split(/\s+/).length !== 5) {
+    throw new ScheduleValidationError('cron must have five fields: minute hour day-of-month month day-of-week');
+  }
+  if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+    throw new ScheduleValidationError(`Unknown timezone: ${timezone}`);
+  }
+
+  try {
+    return cronParser.parseExpression(cron, { currentDate: after, tz: timezone }).next().toDate();
+  } catch (error) {
+    throw new ScheduleValidationError(`Invalid cron expression: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Creates tasks for schedules whose next run is due, through the same plan
+ * and quota checks as tasks created over the API. Runs missed while no worker
+ * manager was up are run once, not caught up.
+ */
+export function createScheduler(
+  launcher: TaskLauncher,
+  redisUrl: string,
+  pocketbaseUrl: string
+) {
+  const pb = new PocketBase(pocketbaseUrl);
+  const redis = new Redis(redisUrl, { maxRetriesPerRequest: null });
+  const leader = createLeaderLock(redis, LEADER_KEY, LEADER_TTL_MS);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<void> | null = null;
+
+  async function getTask(taskId: string): Promise<TaskRecord | null> {
+    try {
+      return await pb.collection('tasks').getOne<TaskRecord>(taskId);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return null;
+      throw error;
+    }
+  }
+
+  async function createTask(schedule: ScheduleRecord): Promise<CreateTaskOutcome> {
+    const previous = schedule.last_task ? await getTask(schedule.last_task) : null;
+    if (previous && !TERMINAL_TASK_STATUSES.includes(previous.status)) {
+      if (schedule.overlap_policy === 'skip') {
+        return { error: `Skipped: the previous task ${previous.id} is still ${previous.status}` };
+      }
+      if (schedule.overlap_policy === 'cancel') {
+        await launcher.abort(previous.id, previous.user);
+      }
+      // "queue" leaves it running; the new task waits for a concurrency slot
+    }
+
+    return launcher.create({
+      userId: schedule.user,
+      type: schedule.type,
+      input: schedule.input,
+      resources: schedule.resources || undefined,
+      priority: schedule.priority || undefined,
+      fields: { schedule: schedule.id },
+    });
+  }
+
+  async function runSchedule(schedule: ScheduleRecord, now: Date) {
+    let nextRunAt: Date;
+    try {
+      nextRunAt = getNextRunAt(schedule.cron, schedule.timezone, now);
+    } catch (error) {
+      // Only reachable if the record was edited outside the API
+      await pb.collection('schedules').update(schedule.id, {
+        enabled: false,
+        next_run_at: '',
+        last_error: (error as Error).message,
+      });
+      return;
+    }
+
+    // Move the schedule on before creating the task, so a run is never
+    // repeated if this node dies halfway
+    await pb.collection('schedules').update(schedule.id, {
+      next_run_at: nextRunAt.toISOString(),
+      last_run_at: now.toISOString(),
+    });
+
+    const outcome = await createTask(schedule);
+    await pb.collection('schedules').update(schedule.id, {
+      ...(outcome.taskId && { last_task: outcome.taskId }),
+      last_error: outcome.error || '',
+    });
+  }
+
+  async function runDue() {
+    try {
+      if (!(await leader.acquire())) return;
+
+      const now = new Date();
+      // PocketBase dates look like "2024-01-01 12:00:00.000Z"
+      const { items } = await pb.collection('schedules').getList<ScheduleRecord>(1, DUE_BATCH_SIZE, {
+        filter: `enabled = true && next_run_at != "" && next_run_at <= "${now.toISOString().replace('T', ' ')}"`,
+        sort: 'next_run_at',
+      });
+
+      for (const schedule of items) {
+        try {
+          await runSchedule(schedule, now);
+        } catch (error) {
+          console.error(`Failed to run schedule ${schedule.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Scheduler pass failed:', error);
+    }
+  }
+
+  function run(): Promise<void> {
+    running ??= runDue().finally(() => {
+      running = null;
+    });
+    return running;
+  }
+
+  return {
+    start() {
+      timer = setInterval(() => void run(), SCHEDULER_INTERVAL_MS);
+      void run();
+      console.log(`Scheduler started (every ${SCHEDULER_INTERVAL_MS / 1000}s)`);
+    },
+
+    // Finish the current pass and hand the lock to another worker manager
+    async stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      await running;
+      await leader.release();
+      await redis.quit();
+    },
+  };
+}
+
+export type Scheduler = ReturnType<typeof createScheduler>;
@@ -0,0 +1,46 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Stored secrets look like "v1:<iv>:<auth tag>:<ciphertext>", base64 parts
+const VERSION = 'v1';
+
+function getKey(): Buffer | null {
+  const secret = process.env.REGISTRY_CREDENTIALS_KEY;
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+// Whether REGISTRY_CREDENTIALS_KEY is set, so secrets can be stored
+export function canStoreSecrets(): boolean {
+  return getKey() !== null;
+}
+
+/**
+ * Encrypt a secret (e.g. registry credentials) with AES-256-GCM under
+ * REGISTRY_CREDENTIALS_KEY before it is written to PocketBase.
+ */
+export function encryptSecret(plaintext: string): string {
+  const key = getKey();
+  if (!key) throw new Error('REGISTRY_CREDENTIALS_KEY is not set');
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === 'string' ? part : part.toString('base64')))
+    .join(':');
+}
+
+export function decryptSecret(stored: string): string {
+  const key = getKey();
+  if (!key) throw new Error('REGISTRY_CREDENTIALS_KEY is not set');
+
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error('Unrecognized secret format');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
@@ -0,0 +1,184 @@
+import type Docker from 'dockerode';
+import type { ResourceUsage } from '@saassy/shared';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Samples the Docker stats stream of a container for its whole lifetime and
+ * turns the samples into measured resource usage.
+ *
+ * Docker emits roughly one sample per second. CPU time and I/O counters are
+ * cumulative, so the last sample wins; memory is integrated over time between
+ * samples to get MB-seconds, counting the first sample from container start.
+ * Usage after the last sample is extrapolated to the container's exit, so
+ * tasks that exit between samples are still charged.
+ *
+ * With an egress limit, `onEgressExceeded` is called once the container has
+ * sent more than that many bytes.
+ */
+export class ResourceMonitor {
+  private stream: NodeJS.ReadableStream | null = null;
+  private buffer = '';
+  private startedAt = Date.now();
+  private lastSampleAt: number | null = null;
+  private lastMemoryMb = 0;
+  // CPU seconds per second between the last two samples
+  private cpuRate = 0;
+
+  private cpuSeconds = 0;
+  private memoryMbSeconds = 0;
+  private peakMemoryMb = 0;
+  private networkRxBytes = 0;
+  private networkTxBytes = 0;
+  private blockReadBytes = 0;
+  private blockWriteBytes = 0;
+
+  private egressExceeded = false;
+
+  constructor(
+    private container: Docker.Container,
+    private egressLimitBytes = -1,
+    private onEgressExceeded?: () => void
+  ) {}
+
+  // `startedAt` is when the container started, if that was before now.
+  // Attach before starting the container so no samples are missed, then
+  // call again once it has started to set when it did.
+  async start(startedAt = Date.now()): Promise<void> {
+    this.startedAt = startedAt;
+    if (this.stream) return;
+
+    try {
+      this.stream = await this.container.stats({ stream: true });
+    } catch (error) {
+      // Usage stays at zero rather than failing the task
+      console.warn(`Could not attach stats stream to ${this.container.id}:`, error);
+      return;
+    }
+
+    this.stream.on('data', (chunk: Buffer) => this.onData(chunk));
+    this.stream.on('error', (error) => {
+      console.warn(`Stats stream error for ${this.container.id}:`, error);
+    });
+  }
+
+  /**
+   * Take a final reading, detach from the stats stream and return the
+   * measured usage up to `exitedAt`.
+   */
+  async stop(exitedAt = Date.now()): Promise<ResourceUsage> {
+    if (this.stream) {
+      this.stream.removeAllListeners('data');
+      (this.stream as NodeJS.ReadableStream & { destroy?: () => void }).destroy?.();
+      this.stream = null;
+
+      // Still running, e.g. when the task failed: sample it once more.
+      // Exited containers report an empty sample, which is ignored.
+      try {
+        this.record(await this.container.stats({ stream: false }), exitedAt);
+      } catch {
+        // Keep the usage measured so far
+      }
+    }
+
+    // Account for the tail between the last sample and container exit
+    if (this.lastSampleAt !== null && exitedAt > this.lastSampleAt) {
+      const tailSeconds = (exitedAt - this.lastSampleAt) / 1000;
+      this.memoryMbSeconds += this.lastMemoryMb * tailSeconds;
+      this.cpuSeconds += this.cpuRate * tailSeconds;
+      this.lastSampleAt = exitedAt;
+    }
+
+    return {
+      cpuSeconds: this.cpuSeconds,
+      memoryMbSeconds: this.memoryMbSeconds,
+      durationSeconds: Math.max(0, exitedAt - this.startedAt) / 1000,
+      peakMemoryMb: this.peakMemoryMb,
+      networkRxBytes: this.networkRxBytes,
+      networkTxBytes: this.networkTxBytes,
+      blockReadBytes: this.blockReadBytes,
+      blockWriteBytes: this.blockWriteBytes,
+    };
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer += chunk.toString('utf8');
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line) {
+        try {
+          this.record(JSON.parse(line) as Docker.ContainerStats);
+        } catch {
+          // Ignore partial or malformed samples
+        }
+      }
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  private record(stats: Docker.ContainerStats, now = Date.now()) {
+    // Stopped containers report an empty sample; keep the last real values
+    if (!stats.cpu_stats?.cpu_usage?.total_usage) return;
+
+    // The first sample counts from container start, at no usage
+    const since = this.lastSampleAt ?? this.startedAt;
+    const elapsedSeconds = Math.max(0, now - since) / 1000;
+
+    const cpuSeconds = stats.cpu_stats.cpu_usage.total_usage / 1e9;
+    if (elapsedSeconds > 0) {
+      this.cpuRate = Math.max(0, cpuSeconds - this.cpuSeconds) / elapsedSeconds;
+    }
+    this.cpuSeconds = cpuSeconds;
+
+    // Memory before the first sample is taken to be what it first reports
+    const memoryMb = getMemoryUsageBytes(stats) / BYTES_PER_MB;
+    this.memoryMbSeconds += (this.lastSampleAt === null ? memoryMb : this.lastMemoryMb) * elapsedSeconds;
+    this.lastMemoryMb = memoryMb;
+    this.lastSampleAt = now;
+    this.peakMemoryMb = Math.max(this.peakMemoryMb, memoryMb);
+
+    if (stats.networks) {
+      let rx = 0;
+      let tx = 0;
+      for (const iface of Object.values(stats.networks)) {
+        rx += iface.rx_bytes || 0;
+        tx += iface.tx_bytes || 0;
+      }
+      this.networkRxBytes = rx;
+      this.networkTxBytes = tx;
+
+      if (this.egressLimitBytes >= 0 && tx > this.egressLimitBytes && !this.egressExceeded) {
+        this.egressExceeded = true;
+        this.onEgressExceeded?.();
+      }
+    }
+
+    const blkio = stats.blkio_stats?.io_service_bytes_recursive;
+    if (blkio) {
+      let read = 0;
+      let write = 0;
+      for (const entry of blkio) {
+        const op = entry.op.toLowerCase();
+        if (op === 'read') read += entry.value;
+        else if (op === 'write') write += entry.value;
+      }
+      this.blockReadBytes = read;
+      this.blockWriteBytes = write;
+    }
+  }
+}
+
+// Working set as reported by `docker stats`: usage minus reclaimable page cache.
+// cgroup v2 exposes inactive_file, cgroup v1 exposes total_inactive_file.
+function getMemoryUsageBytes(stats: Docker.ContainerStats): number {
+  const memory = stats.memory_stats;
+  if (!memory?.usage) return 0;
+
+  const details = (memory.stats || {}) as Record<string, number | undefined>;
+  const inactiveFile = details.inactive_file ?? details.total_inactive_file ?? 0;
+
+  return Math.max(0, memory.usage - inactiveFile);
+}
@@ -0,0 +1,270 @@
+import { createHmac } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { isIP, type LookupFunction } from 'net';
+import { Queue, Worker, type Job } from 'bullmq';
+import PocketBase from 'pocketbase';
+import {
+  QUEUE_NAMES,
+  WEBHOOK_DEFAULTS,
+  isInternalHostname,
+  isPrivateAddress,
+  type TaskWebhookPayload,
+} from '@saassy/shared';
+
+// Response bodies are kept in the delivery log for debugging, truncated
+const MAX_RESPONSE_BODY_LENGTH = 2048;
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+
+function isValidPocketBaseId(id: string): boolean {
+  return typeof id === 'string' && POCKETBASE_ID_REGEX.test(id);
+}
+
+function escapeFilterValue(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+export interface WebhookJobData {
+  deliveryId: string;
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// A delivery already queued or being sent; it can't be sent again until done
+export class DeliveryPendingError extends Error {}
+
+interface WebhookResponse {
+  status: number;
+  body: string;
+}
+
+/**
+ * Resolve a webhook host like dns.lookup, refusing private addresses. URLs
+ * are checked when endpoints are registered, but their hosts may have been
+ * pointed at private addresses since. Requests connect to the address
+ * checked here rather than resolving the name again.
+ */
+export const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+    if (error) return callback(error, '');
+
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      return callback(new Error(`Endpoint host ${hostname} resolves to private address ${blocked.address}`), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+};
+
+/**
+ * POST a webhook to a public address. Redirects are not followed; a redirect
+ * could point anywhere, including our own network.
+ */
+export function postWebhook(url: string, headers: Record<string, string>, body: string): Promise<WebhookResponse> {
+  const target = new URL(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  // Addresses in the URL are connected to without a lookup
+  if (isInternalHostname(hostname) || (isIP(hostname) && isPrivateAddress(hostname))) {
+    return Promise.reject(new Error(`Endpoint host ${hostname} is internal`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = target.protocol === 'https:' ? https : http;
+    const request = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: lookupPublicAddress,
+      // A fresh connection per delivery, so every one goes through the lookup
+      agent: false,
+      signal: AbortSignal.timeout(WEBHOOK_DEFAULTS.timeoutMs),
+    }, (response) => {
+      let responseBody = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        if (responseBody.length < MAX_RESPONSE_BODY_LENGTH) responseBody += chunk;
+      });
+      response.on('end', () => {
+        resolve({ status: response.statusCode || 0, body: responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH) });
+      });
+      response.on('error', reject);
+    });
+
+    request.on('socket', (socket) => {
+      socket.on('connect', () => {
+        const address = socket.remoteAddress;
+        if (!address || isPrivateAddress(address)) {
+          request.destroy(new Error(`Endpoint connected to private address ${address}`));
+        }
+      });
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+export function createWebhookDispatcher(pocketbaseUrl: string, redisUrl: string) {
+  const connection = { url: redisUrl };
+  const pb = new PocketBase(pocketbaseUrl);
+  let worker: Worker<WebhookJobData> | null = null;
+
+  const queue = new Queue<WebhookJobData>(QUEUE_NAMES.webhooks, {
+    connection,
+    defaultJobOptions: {
+      attempts: WEBHOOK_DEFAULTS.maxAttempts,
+      backoff: {
+        type: 'exponential',
+        delay: WEBHOOK_DEFAULTS.retryDelayMs,
+      },
+      removeOnComplete: {
+        age: 86400, // 24 hours
+        count: 1000,
+      },
+      removeOnFail: {
+        age: 604800, // 7 days
+      },
+    },
+  });
+
+  async function deliver(job: Job<WebhookJobData>) {
+    const { deliveryId } = job.data;
+    const delivery = await pb.collection('webhook_deliveries').getOne(deliveryId, {
+      expand: 'endpoint',
+    });
+    const endpoint = delivery.expand?.endpoint;
+
+    if (!endpoint || !endpoint.enabled) {
+      await pb.collection('webhook_deliveries').update(deliveryId, {
+        status: 'failed',
+        error: 'Endpoint is disabled or was deleted',
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const attempts = (delivery.attempts || 0) + 1;
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    let responseStatus: number | undefined;
+    let responseBody = '';
+    let error: string | undefined;
+
+    try {
+      const response = await postWebhook(endpoint.url, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Saassy-Webhooks/1.0',
+        [WEBHOOK_DEFAULTS.signatureHeader]: signWebhookPayload(endpoint.secret, timestamp, body),
+        [WEBHOOK_DEFAULTS.eventHeader]: delivery.event,
+        [WEBHOOK_DEFAULTS.deliveryHeader]: deliveryId,
+      }, body);
+
+      responseStatus = response.status;
+      responseBody = response.body;
+      if (response.status >= 300 && response.status < 400) {
+        error = `Endpoint redirected with ${response.status}; redirects are not followed`;
+      } else if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint responded with ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Request failed';
+    }
+
+    await pb.collection('webhook_deliveries').update(deliveryId, {
+      status: error ? (isLastAttempt ? 'failed' : 'retrying') : 'succeeded',
+      attempts,
+      response_status: responseStatus,
+      response_body: responseBody,
+      error: error || '',
+      delivered_at: error ? undefined : new Date().toISOString(),
+    });
+
+    // Throwing hands the retry schedule to BullMQ's backoff
+    if (error) {
+      throw new Error(error);
+    }
+  }
+
+  return {
+    /**
+     * Create a delivery for each of the user's enabled endpoints subscribed
+     * to the payload's event and queue them for sending.
+     */
+    async enqueue(payload: TaskWebhookPayload) {
+      if (!isValidPocketBaseId(payload.userId)) {
+        console.error('Invalid user ID in webhook payload - skipping');
+        return;
+      }
+
+      try {
+        const endpoints = await pb.collection('webhook_endpoints').getFullList({
+          filter: `user = "${escapeFilterValue(payload.userId)}" && enabled = true && events ~ "${escapeFilterValue(payload.event)}"`,
+        });
+
+        for (const endpoint of endpoints) {
+          const delivery = await pb.collection('webhook_deliveries').create({
+            endpoint: endpoint.id,
+            task: payload.taskId,
+            event: payload.event,
+            payload,
+            status: 'pending',
+            attempts: 0,
+          });
+          await queue.add(`webhook-${delivery.id}`, { deliveryId: delivery.id }, { jobId: delivery.id });
+        }
+      } catch (error) {
+        console.error(`Failed to queue webhooks for task ${payload.taskId}:`, error);
+      }
+    },
+
+    /**
+     * Send an existing delivery again with a fresh retry budget. Throws
+     * DeliveryPendingError while the delivery is still queued or being sent.
+     */
+    async redeliver(deliveryId: string) {
+      const existing = await queue.getJob(deliveryId);
+      if (existing) {
+        const state = await existing.getState();
+        if (state !== 'completed' && state !== 'failed' && state !== 'unknown') {
+          throw new DeliveryPendingError('Delivery is still pending');
+        }
+        await existing.remove();
+      }
+
+      await pb.collection('webhook_deliveries').update(deliveryId, {
+        status: 'pending',
+        error: '',
+      });
+      await queue.add(`webhook-${deliveryId}`, { deliveryId }, { jobId: deliveryId });
+    },
+
+    start() {
+      worker = new Worker<WebhookJobData>(queue.name, deliver, {
+        connection,
+        concurrency: 10,
+      });
+
+      worker.on('failed', (job, err) => {
+        console.error(`Webhook delivery ${job?.data.deliveryId} attempt failed:`, err.message);
+      });
+
+      console.log('Webhook dispatcher started');
+    },
+
+    async stop() {
+      if (worker) {
+        await worker.close();
+        worker = null;
+      }
+      await queue.close();
+      console.log('Webhook dispatcher stopped');
+    },
+  };
+}
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;
@@ -0,0 +1,309 @@
+import { Redis } from 'ioredis';
+import PocketBase from 'pocketbase';
+import {
+  EVENT_CHANNELS,
+  TERMINAL_TASK_STATUSES,
+  calculateResourceCost,
+  getWorkflowState,
+  resolveWorkflowInput,
+  type ResourceUsage,
+  type TaskEvent,
+  type TaskOutput,
+  type TaskStatus,
+  type WorkflowStatus,
+  type WorkflowStepDefinition,
+  type WorkflowUsage,
+} from '@saassy/shared';
+import type { EventPublisher } from './events.js';
+import type { TaskLauncher } from './launcher.js';
+import { createLeaderLock } from './leader.js';
+import type { WorkerRegistry } from './registry.js';
+
+// Workflows whose tasks finished are moved on this often
+const RUNNER_INTERVAL_MS = 2_000;
+
+// Every running workflow is looked at this often as well, in case a task
+// event was missed, e.g. while no worker manager held the lock
+const SWEEP_INTERVAL_MS = 30_000;
+
+// Only one worker manager runs workflows, so a step never gets two tasks
+const LEADER_KEY = 'saassy:workflows:leader';
+const LEADER_TTL_MS = 45_000;
+
+// Noted by every worker manager for whichever one holds the lock
+const FINISHED_TASKS_KEY = 'saassy:workflows:finished-tasks';
+const PENDING_WORKFLOWS_KEY = 'saassy:workflows:pending';
+
+// Finished tasks and pending workflows taken per pass
+const BATCH_SIZE = 100;
+
+const POCKETBASE_ID_REGEX = /^[a-z0-9]{15}$/;
+
+// Records as stored in PocketBase, with its snake_case field names
+interface WorkflowRecord {
+  id: string;
+  user: string;
+  status: WorkflowStatus;
+  steps: WorkflowStepDefinition[];
+  usage: WorkflowUsage | null;
+}
+
+interface StepTaskRecord {
+  id: string;
+  user: string;
+  type: string;
+  status: TaskStatus;
+  output: TaskOutput | null;
+  error: string;
+  workflow_step: string;
+  resource_usage: ResourceUsage | null;
+}
+
+function escapeFilterValue(value: string): string {
+  return value.replace(/["\\]/g, '\\$&');
+}
+
+function isSameUsage(a: WorkflowUsage | null, b: WorkflowUsage): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Runs workflows: creates a task for each step once the steps it depends on
+ * have completed, with references to their outputs filled in, applies the
+ * steps' failure policies, and keeps the workflow's status and usage roll-up
+ * up to date. Steps are ordinary tasks, so they go through the same quota,
+ * plan and concurrency checks as any other.
+ */
+export function createWorkflowRunner(
+  launcher: TaskLauncher,
+  registry: WorkerRegistry,
+  events: EventPublisher,
+  redisUrl: string,
+  pocketbaseUrl: string
+) {
+  const pb = new PocketBase(pocketbaseUrl);
+  const redis = new Redis(redisUrl, { maxRetriesPerRequest: null });
+  // A subscribed connection can't send other commands
+  const subscriber = new Redis(redisUrl, { maxRetriesPerRequest: null });
+  const leader = createLeaderLock(redis, LEADER_KEY, LEADER_TTL_MS);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<void> | null = null;
+  let lastSweep = 0;
+
+  subscriber.on('error', (error) => {
+    console.error('Workflow runner Redis error:', error.message);
+  });
+
+  // Any task may be a workflow step; the leader looks them up in batches
+  subscriber.on('pmessage', (_pattern, _channel, message) => {
+    let event: TaskEvent;
+    try {
+      event = JSON.parse(message);
+    } catch {
+      return;
+    }
+    if (event.type === 'status' && event.status && TERMINAL_TASK_STATUSES.includes(event.status)) {
+      redis.sadd(FINISHED_TASKS_KEY, event.taskId).catch((error) => {
+        console.error(`Failed to note finished task ${event.taskId}:`, error);
+      });
+    }
+  });
+
+  // Resources of the tasks that ran, plus their worker types' per-task fees
+  async function getUsage(tasks: StepTaskRecord[]): Promise<WorkflowUsage> {
+    const usage: WorkflowUsage = { taskCount: 0, cpuSeconds: 0, memoryMbSeconds: 0, durationSeconds: 0, costCents: 0 };
+    let feesCents = 0;
+    for (const task of tasks) {
+      if (!task.resource_usage) continue;
+      usage.taskCount += 1;
+      usage.cpuSeconds += task.resource_usage.cpuSeconds;
+      usage.memoryMbSeconds += task.resource_usage.memoryMbSeconds;
+      usage.durationSeconds += task.resource_usage.durationSeconds;
+      feesCents += (await registry.get(task.type))?.pricePerTaskCents || 0;
+    }
+    usage.costCents = feesCents + calculateResourceCost(usage);
+    return usage;
+  }
+
+  // Keep a step that couldn't be started as a failed task, so its failure
+  // policy applies as if the task had failed
+  async function failStep(workflow: WorkflowRecord, step: WorkflowStepDefinition, error: string) {
+    const task = await pb.collection('tasks').create({
+      user: workflow.user,
+      type: step.type,
+      status: 'failed',
+      input: step.input,
+      error,
+      resources: step.resources || null,
+      priority: step.priority || null,
+      workflow: workflow.id,
+      workflow_step: step.id,
+      completed_at: new Date().toISOString(),
+    });
+    await events.publish({ type: 'status', taskId: task.id, userId: workflow.user, status: 'failed', error });
+  }
+
+  async function startStep(
+    workflow: WorkflowRecord,
+    step: WorkflowStepDefinition,
+    outputs: Record<string, TaskOutput | undefined>
+  ) {
+    const resolved = resolveWorkflowInput(step.input, outputs);
+    if (resolved.errors.length > 0) {
+      const { path, message } = resolved.errors[0]!;
+      await failStep(workflow, step, `Invalid input${path ? ` at ${path}` : ''}: ${message}`);
+      return;
+    }
+
+    const outcome = await launcher.create({
+      userId: workflow.user,
+      type: step.type,
+      input: resolved.input,
+      resources: step.resources,
+      priority: step.priority,
+      fields: { workflow: workflow.id, workflow_step: step.id },
+    });
+    if (!outcome.taskId) {
+      await failStep(workflow, step, outcome.error || 'Failed to create task');
+    }
+  }
+
+  async function advance(workflowId: string) {
+    let workflow: WorkflowRecord;
+    try {
+      workflow = await pb.collection('workflows').getOne<WorkflowRecord>(workflowId);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) return;
+      throw error;
+    }
+
+    const tasks = await pb.collection('tasks').getFullList<StepTaskRecord>({
+      filter: `workflow = "${escapeFilterValue(workflow.id)}"`,
+      sort: 'created',
+    });
+    const usage = await getUsage(tasks);
+
+    // Canceled or finished; tasks stopped on the way out can still add usage
+    if (workflow.status !== 'running') {
+      if (!isSameUsage(workflow.usage, usage)) {
+        await pb.collection('workflows').update(workflow.id, { usage });
+      }
+      return;
+    }
+
+    const state = getWorkflowState(
+      workflow.steps,
+      tasks.map((task) => ({
+        id: task.id,
+        step: task.workflow_step,
+        status: task.status,
+        output: task.output || undefined,
+        error: task.error || undefined,
+      }))
+    );
+
+    if (state.status === 'running') {
+      const outputs = Object.fromEntries(
+        state.steps.filter((step) => step.status === 'completed').map((step) => [step.id, step.output])
+      );
+      for (const id of state.ready) {
+        await startStep(workflow, workflow.steps.find((step) => step.id === id)!, outputs);
+      }
+      if (!isSameUsage(workflow.usage, usage)) {
+        await pb.collection('workflows').update(workflow.id, { usage });
+      }
+      return;
+    }
+
+    // A step failed fast; stop the ones still queued or running
+    for (const task of tasks) {
+      if (!TERMINAL_TASK_STATUSES.includes(task.status)) {
+        await launcher.abort(task.id, task.user);
+      }
+    }
+    await pb.collection('workflows').update(workflow.id, {
+      status: state.status,
+      error: state.error || '',
+      usage,
+      completed_at: new Date().toISOString(),
+    });
+    console.log(`Workflow ${workflow.id} ${state.status}`);
+  }
+
+  // Workflows with tasks among the ones noted as finished
+  async function takeFinished(): Promise<string[]> {
+    const taskIds = (await redis.spop(FINISHED_TASKS_KEY, BATCH_SIZE)).filter((id) => POCKETBASE_ID_REGEX.test(id));
+    if (taskIds.length === 0) return [];
+
+    const tasks = await pb.collection('tasks').getFullList<{ workflow: string }>({
+      filter: `workflow != "" && (${taskIds.map((id) => `id = "${id}"`).join(' || ')})`,
+      fields: 'workflow',
+    });
+    return tasks.map((task) => task.workflow);
+  }
+
+  async function runPass() {
+    try {
+      if (!(await leader.acquire())) return;
+
+      const workflowIds = new Set([
+        ...(await redis.spop(PENDING_WORKFLOWS_KEY, BATCH_SIZE)),
+        ...(await takeFinished()),
+      ]);
+      if (Date.now() - lastSweep >= SWEEP_INTERVAL_MS) {
+        lastSweep = Date.now();
+        const workflows = await pb.collection('workflows').getFullList({
+          filter: 'status = "running"',
+          fields: 'id',
+        });
+        workflows.forEach((workflow) => workflowIds.add(workflow.id));
+      }
+
+      // A workflow that fails here is picked up again by the next sweep
+      for (const workflowId of workflowIds) {
+        try {
+          await advance(workflowId);
+        } catch (error) {
+          console.error(`Failed to advance workflow ${workflowId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Workflow runner pass failed:', error);
+    }
+  }
+
+  function run(): Promise<void> {
+    running ??= runPass().finally(() => {
+      running = null;
+    });
+    return running;
+  }
+
+  return {
+    async start() {
+      await subscriber.psubscribe(`${EVENT_CHANNELS.taskEvents}:*`);
+      timer = setInterval(() => void run(), RUNNER_INTERVAL_MS);
+      void run();
+      console.log(`Workflow runner started (every ${RUNNER_INTERVAL_MS / 1000}s)`);
+    },
+
+    // Start a new workflow's first steps on the next pass
+    async submit(workflowId: string): Promise<void> {
+      await redis.sadd(PENDING_WORKFLOWS_KEY, workflowId);
+    },
+
+    // Finish the current pass and hand the lock to another worker manager
+    async stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+      await running;
+      await leader.release();
+      await subscriber.quit();
+      await redis.quit();
+    },
+  };
+}
+
+export type WorkflowRunner = ReturnType<typeof createWorkflowRunner>;
@@ -0,0 +1,221 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { randomBytes } from 'node:crypto';
+
+type StoredRecord = Record<string, unknown> & { id: string };
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// PocketBase dates look like "2024-01-01 12:00:00.000Z"
+export function toPocketBaseDate(date: Date): string {
+  return date.toISOString().replace('T', ' ');
+}
+
+/**
+ * An in-memory PocketBase serving the record endpoints of its REST API, for
+ * tests of code that uses the JS SDK. List filters support the comparisons,
+ * && and || and parentheses the worker manager uses.
+ */
+export class FakePocketBase {
+  private collections = new Map<string, StoredRecord[]>();
+  private server: Server;
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => send(res, 500, { code: 500, message: String(error), data: {} }));
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async close() {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  // Add a record as is; created and updated default to now
+  seed<T extends Record<string, unknown>>(collection: string, record: T): T & StoredRecord {
+    const now = toPocketBaseDate(new Date());
+    const stored = { id: newId(), created: now, updated: now, ...record } as T & StoredRecord;
+    this.records(collection).push(stored);
+    return stored;
+  }
+
+  records(collection: string): StoredRecord[] {
+    if (!this.collections.has(collection)) this.collections.set(collection, []);
+    return this.collections.get(collection)!;
+  }
+
+  get(collection: string, id: string): StoredRecord | undefined {
+    return this.records(collection).find((record) => record.id === id);
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const match = url.pathname.match(/^\/api\/collections\/([^/]+)\/records(?:\/([^/]+))?$/);
+    if (!match) return send(res, 404, notFound());
+
+    const records = this.records(decodeURIComponent(match[1]!));
+    const id = match[2] && decodeURIComponent(match[2]);
+    const record = id ? records.find((item) => item.id === id) : undefined;
+    if (id && !record) return send(res, 404, notFound());
+
+    if (req.method === 'GET' && record) return send(res, 200, record);
+
+    if (req.method === 'GET') {
+      const page = Number(url.searchParams.get('page') || 1);
+      const perPage = Number(url.searchParams.get('perPage') || 30);
+      const filter = url.searchParams.get('filter');
+      const matches = records
+        .filter((item) => !filter || evaluateFilter(filter, item))
+        .sort(compareBy(url.searchParams.get('sort') || ''));
+      return send(res, 200, {
+        page,
+        perPage,
+        totalItems: matches.length,
+        totalPages: Math.ceil(matches.length / perPage),
+        items: matches.slice((page - 1) * perPage, page * perPage),
+      });
+    }
+
+    if (req.method === 'DELETE' && record) {
+      records.splice(records.indexOf(record), 1);
+      res.writeHead(204).end();
+      return;
+    }
+
+    const body = normalizeDates(await readJson(req));
+    const now = toPocketBaseDate(new Date());
+    if (req.method === 'POST' && !id) {
+      const created = { id: newId(), ...body, created: now, updated: now } as StoredRecord;
+      records.push(created);
+      return send(res, 200, created);
+    }
+    if (req.method === 'PATCH' && record) {
+      Object.assign(record, body, { updated: now });
+      return send(res, 200, record);
+    }
+    send(res, 405, { code: 405, message: 'Method not allowed.', data: {} });
+  }
+}
+
+function newId(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from(randomBytes(15), (byte) => alphabet[byte % alphabet.length]).join('');
+}
+
+function notFound() {
+  return { code: 404, message: "The requested resource wasn't found.", data: {} };
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString();
+  return text ? JSON.parse(text) : {};
+}
+
+// PocketBase stores dates in its own format whatever ISO form it is sent
+function normalizeDates(body: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [
+      key,
+      typeof value === 'string' && ISO_DATE_REGEX.test(value) ? value.replace('T', ' ') : value,
+    ])
+  );
+}
+
+function compareBy(sort: string) {
+  const fields = sort.split(',').filter(Boolean).map((field) => ({
+    name: field.replace(/^[-+]/, ''),
+    direction: field.startsWith('-') ? -1 : 1,
+  }));
+  return (a: StoredRecord, b: StoredRecord) => {
+    for (const { name, direction } of fields) {
+      const [x, y] = [a[name] ?? '', b[name] ?? ''] as [string | number, string | number];
+      if (x !== y) return (x < y ? -1 : 1) * direction;
+    }
+    return 0;
+  };
+}
+
+type Token = { type: 'op' | 'ident' | 'value'; value: unknown };
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(&&|\|\||[()]|!=|!~|<=|>=|=|<|>|~)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?)\b|([\w.]+))/y;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(filter))) {
+    if (match[1]) tokens.push({ type: 'op', value: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'value', value: match[2].replace(/\\(.)/g, '$1') });
+    else if (match[3] !== undefined) tokens.push({ type: 'value', value: match[3].replace(/\\(.)/g, '$1') });
+    else if (match[4] !== undefined) tokens.push({ type: 'value', value: Number(match[4]) });
+    else if (['true', 'false', 'null'].includes(match[5]!)) tokens.push({ type: 'value', value: JSON.parse(match[5]!) });
+    else tokens.push({ type: 'ident', value: match[5] });
+  }
+  return tokens;
+}
+
+function evaluateFilter(filter: string, record: StoredRecord): boolean {
+  const tokens = tokenize(filter);
+  let position = 0;
+
+  const operand = (token: Token) => {
+    if (token.type !== 'ident') return token.value;
+    const value = record[token.value as string];
+    // Unset fields read as their empty value
+    return value ?? '';
+  };
+
+  function comparison(): boolean {
+    if (tokens[position]?.value === '(') {
+      position++;
+      const result = or();
+      position++; // ')'
+      return result;
+    }
+    const left = operand(tokens[position++]!);
+    const op = tokens[position++]!.value;
+    let right = operand(tokens[position++]!);
+    if (right === null) right = '';
+    switch (op) {
+      case '=': return left === right;
+      case '!=': return left !== right;
+      case '<': return (left as string) < (right as string);
+      case '<=': return (left as string) <= (right as string);
+      case '>': return (left as string) > (right as string);
+      case '>=': return (left as string) >= (right as string);
+      case '~': return String(left).includes(String(right));
+      case '!~': return !String(left).includes(String(right));
+      default: throw new Error(`Unsupported filter operator ${op}`);
+    }
+  }
+
+  function and(): boolean {
+    let result = comparison();
+    while (tokens[position]?.value === '&&') {
+      position++;
+      result = comparison() && result;
+    }
+    return result;
+  }
+
+  function or(): boolean {
+    let result = and();
+    while (tokens[position]?.value === '||') {
+      position++;
+      result = and() || result;
+    }
+    return result;
+  }
+
+  return or();
+}
@@ -0,0 +1,567 @@
+import { createServer, type Server, type Socket } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import fengari from 'fengari';
+
+const { lua, lauxlib, lualib, to_luastring: toLuaString } = fengari;
+
+type Reply = string | number | null | Reply[] | { status: string } | Error;
+
+type Entry =
+  | { type: 'string'; value: string; expiresAt?: number }
+  | { type: 'hash'; value: Map<string, string>; expiresAt?: number }
+  | { type: 'list'; value: string[]; expiresAt?: number }
+  | { type: 'set'; value: Set<string>; expiresAt?: number }
+  | { type: 'zset'; value: Map<string, number>; expiresAt?: number };
+
+const OK = { status: 'OK' };
+
+/**
+ * An in-memory Redis speaking its wire protocol, for tests of code that
+ * connects with ioredis. It covers the commands the worker manager uses,
+ * including EVAL, with scripts run by a Lua VM that has redis.call and cjson.
+ */
+export class FakeRedis {
+  private data = new Map<string, Entry>();
+  private server: Server;
+  private sockets = new Set<Socket>();
+  private subscriptions = new Map<Socket, Set<string>>();
+
+  constructor() {
+    this.server = createServer((socket) => this.accept(socket));
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async close() {
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  // Run a command as a client would, e.g. to set up or check state
+  call(...args: (string | number)[]): Reply {
+    return this.execute(args.map(String), null);
+  }
+
+  private accept(socket: Socket) {
+    this.sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    let queued: string[][] | null = null;
+
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+      this.subscriptions.delete(socket);
+    });
+    socket.on('error', () => undefined);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      for (;;) {
+        const parsed = parseCommand(buffer);
+        if (!parsed) return;
+        buffer = buffer.subarray(parsed.length);
+        const args = parsed.args;
+        const name = args[0]!.toUpperCase();
+
+        if (name === 'MULTI') {
+          queued = [];
+          socket.write(encode(OK));
+        } else if (name === 'EXEC') {
+          const replies = (queued || []).map((queuedArgs) => this.execute(queuedArgs, socket));
+          queued = null;
+          socket.write(encode(replies));
+        } else if (name === 'DISCARD') {
+          queued = null;
+          socket.write(encode(OK));
+        } else if (queued) {
+          queued.push(args);
+          socket.write(encode({ status: 'QUEUED' }));
+        } else if (name === 'QUIT') {
+          socket.end(encode(OK));
+        } else if (name === 'XREAD' || name === 'BRPOPLPUSH' || name === 'BZPOPMIN') {
+          // Blocking reads never get data here; answer once the block runs out
+          const block = name === 'XREAD' ? Number(args[args.findIndex((a) => a.toUpperCase() === 'BLOCK') + 1]) : 0;
+          const timer = setTimeout(() => socket.writable && socket.write(encode(null)), Math.min(block || 1000, 1000));
+          socket.once('close', () => clearTimeout(timer));
+        } else {
+          socket.write(encode(this.execute(args, socket)));
+        }
+      }
+    });
+  }
+
+  private get(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private typed<T extends Entry['type']>(key: string, type: T, create: boolean) {
+    let entry = this.get(key);
+    if (entry && entry.type !== type) {
+      throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+    }
+    if (!entry && create) {
+      const value = { hash: new Map(), list: [], set: new Set(), zset: new Map(), string: '' }[type];
+      entry = { type, value } as Entry;
+      this.data.set(key, entry);
+    }
+    return entry?.value as Extract<Entry, { type: T }>['value'] | undefined;
+  }
+
+  // Drop collections left empty, as Redis does
+  private prune(key: string) {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== 'string' && (entry.type === 'list' ? entry.value.length : entry.value.size) === 0) {
+      this.data.delete(key);
+    }
+  }
+
+  private execute(args: string[], socket: Socket | null): Reply {
+    try {
+      return this.run(args.map(String), socket);
+    } catch (error) {
+      return error as Error;
+    }
+  }
+
+  private run(args: string[], socket: Socket | null): Reply {
+    const [rawName, key = '', ...rest] = args;
+    const name = rawName!.toUpperCase();
+
+    switch (name) {
+      case 'PING':
+        return { status: 'PONG' };
+      case 'INFO':
+        return '# Server\r\nredis_version:7.2.0\r\nloading:0\r\nmaxmemory_policy:noeviction\r\n';
+      case 'SELECT':
+      case 'CLIENT':
+        return OK;
+
+      case 'GET': {
+        const value = this.typed(key, 'string', false);
+        return value ?? null;
+      }
+      case 'SET': {
+        const options = rest.slice(1).map((option) => option.toUpperCase());
+        if (options.includes('NX') && this.get(key)) return null;
+        const px = options.indexOf('PX');
+        const ex = options.indexOf('EX');
+        const ttl = px !== -1 ? Number(rest[px + 2]) : ex !== -1 ? Number(rest[ex + 2]) * 1000 : undefined;
+        this.data.set(key, { type: 'string', value: rest[0]!, expiresAt: ttl === undefined ? undefined : Date.now() + ttl });
+        return OK;
+      }
+      case 'DEL':
+        return [key, ...rest].filter((k) => this.get(k) && this.data.delete(k)).length;
+      case 'EXISTS':
+        return [key, ...rest].filter((k) => this.get(k)).length;
+      case 'PEXPIRE': {
+        const entry = this.get(key);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + Number(rest[0]);
+        return 1;
+      }
+
+      case 'LPUSH':
+      case 'RPUSH': {
+        const list = this.typed(key, 'list', true)!;
+        if (name === 'LPUSH') list.unshift(...rest.reverse());
+        else list.push(...rest);
+        return list.length;
+      }
+      case 'LLEN':
+        return this.typed(key, 'list', false)?.length ?? 0;
+      case 'LINDEX': {
+        const list = this.typed(key, 'list', false) ?? [];
+        const index = Number(rest[0]);
+        return list.at(index < -list.length ? list.length : index) ?? null;
+      }
+      case 'LPOP': {
+        const list = this.typed(key, 'list', false);
+        const item = list?.shift() ?? null;
+        this.prune(key);
+        return item;
+      }
+      case 'LRANGE': {
+        const list = this.typed(key, 'list', false) ?? [];
+        const stop = normalizeIndex(Number(rest[1]), list.length);
+        return list.slice(normalizeIndex(Number(rest[0]), list.length), stop + 1);
+      }
+      case 'LREM': {
+        const list = this.typed(key, 'list', false);
+        if (!list) return 0;
+        const kept = list.filter((item) => item !== rest[1]);
+        const removed = list.length - kept.length;
+        list.splice(0, list.length, ...kept);
+        this.prune(key);
+        return removed;
+      }
+
+      case 'SADD': {
+        const set = this.typed(key, 'set', true)!;
+        return rest.filter((member) => !set.has(member) && set.add(member)).length;
+      }
+      case 'SREM': {
+        const set = this.typed(key, 'set', false);
+        const removed = set ? rest.filter((member) => set.delete(member)).length : 0;
+        this.prune(key);
+        return removed;
+      }
+      case 'SCARD':
+        return this.typed(key, 'set', false)?.size ?? 0;
+      case 'SMEMBERS':
+        return [...(this.typed(key, 'set', false) ?? [])];
+      case 'SISMEMBER':
+        return this.typed(key, 'set', false)?.has(rest[0]!) ? 1 : 0;
+      case 'SPOP': {
+        const set = this.typed(key, 'set', false);
+        const members = [...(set ?? [])].slice(0, rest[0] === undefined ? 1 : Number(rest[0]));
+        members.forEach((member) => set!.delete(member));
+        this.prune(key);
+        return rest[0] === undefined ? (members[0] ?? null) : members;
+      }
+
+      case 'HSET':
+      case 'HMSET': {
+        const hash = this.typed(key, 'hash', true)!;
+        let added = 0;
+        for (let i = 0; i < rest.length; i += 2) {
+          if (!hash.has(rest[i]!)) added++;
+          hash.set(rest[i]!, rest[i + 1]!);
+        }
+        return name === 'HMSET' ? OK : added;
+      }
+      case 'HGET':
+        return this.typed(key, 'hash', false)?.get(rest[0]!) ?? null;
+      case 'HDEL': {
+        const hash = this.typed(key, 'hash', false);
+        const removed = hash ? rest.filter((field) => hash.delete(field)).length : 0;
+        this.prune(key);
+        return removed;
+      }
+      case 'HMGET': {
+        const hash = this.typed(key, 'hash', false);
+        return rest.map((field) => hash?.get(field) ?? null);
+      }
+      case 'HEXISTS':
+        return this.typed(key, 'hash', false)?.has(rest[0]!) ? 1 : 0;
+      case 'HLEN':
+        return this.typed(key, 'hash', false)?.size ?? 0;
+      case 'HVALS':
+        return [...(this.typed(key, 'hash', false)?.values() ?? [])];
+      case 'HGETALL':
+        return [...(this.typed(key, 'hash', false) ?? [])].flat();
+      case 'HINCRBY': {
+        const hash = this.typed(key, 'hash', true)!;
+        const value = parseInt(hash.get(rest[0]!) || '0', 10) + parseInt(rest[1]!, 10);
+        hash.set(rest[0]!, String(value));
+        return value;
+      }
+
+      case 'ZADD': {
+        const zset = this.typed(key, 'zset', true)!;
+        let i = 0;
+        const flags = new Set<string>();
+        while (['NX', 'XX', 'LT', 'GT', 'CH'].includes(rest[i]!.toUpperCase())) flags.add(rest[i++]!.toUpperCase());
+        let added = 0;
+        for (; i < rest.length; i += 2) {
+          const score = parseScore(rest[i]!);
+          const member = rest[i + 1]!;
+          const current = zset.get(member);
+          if (current === undefined) {
+            if (flags.has('XX')) continue;
+            zset.set(member, score);
+            added++;
+          } else if (!flags.has('NX') && !(flags.has('LT') && score >= current) && !(flags.has('GT') && score <= current)) {
+            zset.set(member, score);
+          }
+        }
+        this.prune(key);
+        return added;
+      }
+      case 'ZREM': {
+        const zset = this.typed(key, 'zset', false);
+        const removed = zset ? rest.filter((member) => zset.delete(member)).length : 0;
+        this.prune(key);
+        return removed;
+      }
+      case 'ZSCORE': {
+        const score = this.typed(key, 'zset', false)?.get(rest[0]!);
+        return score === undefined ? null : formatScore(score);
+      }
+      case 'ZCARD':
+        return this.typed(key, 'zset', false)?.size ?? 0;
+      case 'ZRANGE': {
+        const members = this.sorted(key);
+        const start = normalizeIndex(Number(rest[0]), members.length);
+        const stop = normalizeIndex(Number(rest[1]), members.length);
+        const range = members.slice(start, stop + 1);
+        return rest[2]?.toUpperCase() === 'WITHSCORES'
+          ? range.flatMap(([member, score]) => [member, formatScore(score)])
+          : range.map(([member]) => member);
+      }
+      case 'ZRANGEBYSCORE':
+        return this.sorted(key).filter(([, score]) => inRange(score, rest[0]!, rest[1]!)).map(([member]) => member);
+      case 'ZREMRANGEBYSCORE': {
+        const zset = this.typed(key, 'zset', false);
+        const removed = this.sorted(key).filter(([member, score]) => inRange(score, rest[0]!, rest[1]!) && zset!.delete(member));
+        this.prune(key);
+        return removed.length;
+      }
+
+      // Streams only carry queue events, which no test reads
+      case 'XADD':
+        return `${Date.now()}-0`;
+
+      case 'PUBLISH': {
+        let receivers = 0;
+        for (const [subscriber, patterns] of this.subscriptions) {
+          for (const pattern of patterns) {
+            if (globToRegExp(pattern).test(key)) {
+              subscriber.write(encode(['pmessage', pattern, key, rest[0]!]));
+              receivers++;
+            }
+          }
+        }
+        return receivers;
+      }
+      case 'PSUBSCRIBE': {
+        if (!socket) throw new Error('ERR PSUBSCRIBE needs a connection');
+        const patterns = this.subscriptions.get(socket) ?? new Set<string>();
+        this.subscriptions.set(socket, patterns);
+        // Each pattern gets its own reply; all but the last are written here
+        const all = [key, ...rest];
+        all.slice(0, -1).forEach((pattern) => {
+          patterns.add(pattern);
+          socket.write(encode(['psubscribe', pattern, patterns.size]));
+        });
+        patterns.add(all.at(-1)!);
+        return ['psubscribe', all.at(-1)!, patterns.size];
+      }
+
+      case 'EVAL':
+        return this.eval(key, rest);
+      case 'EVALSHA':
+      case 'SCRIPT':
+        throw new Error('NOSCRIPT No matching script');
+
+      default:
+        throw new Error(`ERR unknown command '${rawName}'`);
+    }
+  }
+
+  private sorted(key: string): [string, number][] {
+    return [...(this.typed(key, 'zset', false) ?? [])].sort(
+      ([a, scoreA], [b, scoreB]) => scoreA - scoreB || (a < b ? -1 : a > b ? 1 : 0)
+    );
+  }
+
+  private eval(script: string, rest: string[]): Reply {
+    const keyCount = Number(rest[0]);
+    const keys = rest.slice(1, 1 + keyCount);
+    const argv = rest.slice(1 + keyCount);
+
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+    pushJson(L, keys);
+    lua.lua_setglobal(L, toLuaString('KEYS'));
+    pushJson(L, argv);
+    lua.lua_setglobal(L, toLuaString('ARGV'));
+
+    lua.lua_newtable(L);
+    lua.lua_pushjsfunction(L, (state: unknown) => {
+      const args: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) args.push(lua.lua_tojsstring(state, i));
+      const reply = this.execute(args, null);
+      if (reply instanceof Error) return lauxlib.luaL_error(state, toLuaString(reply.message));
+      pushReply(state, reply);
+      return 1;
+    });
+    lua.lua_setfield(L, -2, toLuaString('call'));
+    lua.lua_setglobal(L, toLuaString('redis'));
+
+    lua.lua_newtable(L);
+    lua.lua_pushjsfunction(L, (state: unknown) => {
+      pushJson(state, JSON.parse(lua.lua_tojsstring(state, 1)));
+      return 1;
+    });
+    lua.lua_setfield(L, -2, toLuaString('decode'));
+    lua.lua_pushjsfunction(L, (state: unknown) => {
+      lua.lua_pushstring(state, toLuaString(JSON.stringify(toJson(state, 1))));
+      return 1;
+    });
+    lua.lua_setfield(L, -2, toLuaString('encode'));
+    lua.lua_setglobal(L, toLuaString('cjson'));
+
+    if (lauxlib.luaL_loadstring(L, toLuaString(script)) !== lua.LUA_OK || lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK) {
+      throw new Error(`ERR Error running script: ${lauxlib.luaL_tolstring(L, -1) && lua.lua_tojsstring(L, -1)}`);
+    }
+    return toReply(L, -1);
+  }
+}
+
+function parseCommand(buffer: Buffer): { args: string[]; length: number } | null {
+  if (buffer.length === 0 || buffer[0] !== 0x2a) return null; // '*'
+  let position = buffer.indexOf('\r\n');
+  if (position === -1) return null;
+  const count = parseInt(buffer.subarray(1, position).toString(), 10);
+  position += 2;
+
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const end = buffer.indexOf('\r\n', position);
+    if (end === -1) return null;
+    const length = parseInt(buffer.subarray(position + 1, end).toString(), 10);
+    const start = end + 2;
+    if (buffer.length < start + length + 2) return null;
+    args.push(buffer.subarray(start, start + length).toString());
+    position = start + length + 2;
+  }
+  return { args, length: position };
+}
+
+function encode(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (typeof reply === 'string') return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encode).join('')}`;
+  return `+${reply.status}\r\n`;
+}
+
+function parseScore(value: string): number {
+  if (value === '+inf' || value === 'inf') return Infinity;
+  if (value === '-inf') return -Infinity;
+  return Number(value);
+}
+
+function formatScore(score: number): string {
+  return Number.isFinite(score) ? String(score) : score > 0 ? 'inf' : '-inf';
+}
+
+function inRange(score: number, min: string, max: string): boolean {
+  const above = min.startsWith('(') ? score > parseScore(min.slice(1)) : score >= parseScore(min);
+  const below = max.startsWith('(') ? score < parseScore(max.slice(1)) : score <= parseScore(max);
+  return above && below;
+}
+
+function normalizeIndex(index: number, length: number): number {
+  return index < 0 ? Math.max(0, length + index) : index;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+}
+
+// Redis replies become Lua values the way real Redis converts them
+function pushReply(L: unknown, reply: Reply) {
+  if (reply === null) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === 'number') {
+    lua.lua_pushnumber(L, reply);
+  } else if (typeof reply === 'string') {
+    lua.lua_pushstring(L, toLuaString(reply));
+  } else if (Array.isArray(reply)) {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((item, i) => {
+      pushReply(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else if (!(reply instanceof Error)) {
+    lua.lua_newtable(L);
+    lua.lua_pushstring(L, toLuaString(reply.status));
+    lua.lua_setfield(L, -2, toLuaString('ok'));
+  }
+}
+
+function toReply(L: unknown, index: number): Reply {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      const absolute = lua.lua_absindex(L, index);
+      lua.lua_getfield(L, absolute, toLuaString('err'));
+      if (lua.lua_type(L, -1) === lua.LUA_TSTRING) return new Error(lua.lua_tojsstring(L, -1));
+      lua.lua_pop(L, 1);
+      lua.lua_getfield(L, absolute, toLuaString('ok'));
+      if (lua.lua_type(L, -1) === lua.LUA_TSTRING) return { status: lua.lua_tojsstring(L, -1) };
+      lua.lua_pop(L, 1);
+
+      const items: Reply[] = [];
+      for (let i = 1; lua.lua_rawgeti(L, absolute, i) !== lua.LUA_TNIL; i++) {
+        items.push(toReply(L, -1));
+        lua.lua_pop(L, 1);
+      }
+      lua.lua_pop(L, 1);
+      return items;
+    }
+    default:
+      return null;
+  }
+}
+
+function pushJson(L: unknown, value: unknown) {
+  if (value === null || value === undefined) {
+    lua.lua_pushnil(L);
+  } else if (typeof value === 'boolean') {
+    lua.lua_pushboolean(L, value);
+  } else if (typeof value === 'number') {
+    // Lua integers are 32-bit here; larger ones, like timestamps, are floats
+    if ((value | 0) === value) lua.lua_pushinteger(L, value);
+    else lua.lua_pushnumber(L, value);
+  } else if (typeof value === 'string') {
+    lua.lua_pushstring(L, toLuaString(value));
+  } else if (Array.isArray(value)) {
+    lua.lua_createtable(L, value.length, 0);
+    value.forEach((item, i) => {
+      pushJson(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else {
+    lua.lua_newtable(L);
+    for (const [field, item] of Object.entries(value as Record<string, unknown>)) {
+      pushJson(L, item);
+      lua.lua_setfield(L, -2, toLuaString(field));
+    }
+  }
+}
+
+// Like cjson: tables with keys 1..n are arrays, others (even empty) objects
+function toJson(L: unknown, index: number): unknown {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return lua.lua_tonumber(L, index);
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index);
+    case lua.LUA_TTABLE: {
+      const absolute = lua.lua_absindex(L, index);
+      const entries: [string | number, unknown][] = [];
+      lua.lua_pushnil(L);
+      while (lua.lua_next(L, absolute) !== 0) {
+        const key = lua.lua_type(L, -2) === lua.LUA_TNUMBER ? lua.lua_tonumber(L, -2) : lua.lua_tojsstring(L, -2);
+        entries.push([key, toJson(L, -1)]);
+        lua.lua_pop(L, 1);
+      }
+      const isArray = entries.length > 0
+        && entries.every(([key]) => typeof key === 'number')
+        && entries.map(([key]) => key as number).sort((a, b) => a - b).every((key, i) => key === i + 1);
+      if (isArray) {
+        return entries.sort(([a], [b]) => (a as number) - (b as number)).map(([, item]) => item);
+      }
+      return Object.fromEntries(entries.map(([key, item]) => [String(key), item]));
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { UnrecoverableError, WaitingError, type Job } from 'bullmq';
+import type { ContainerResult } from '../src/docker.js';
+import { createWorkerProcessor } from '../src/processor.js';
+import type { TaskJobData } from '../src/queue.js';
+import { FakePocketBase } from './helpers/pocketbase.js';
+
+type Deps = Parameters<typeof createWorkerProcessor>;
+
+const RESOURCE_USAGE = { cpuSeconds: 1, memoryMbSeconds: 512, durationSeconds: 1 };
+
+describe('createWorkerProcessor', () => {
+  let pb: FakePocketBase;
+  let pbUrl: string;
+  // Containers run until finished or stopped
+  let containers: Map<string, (result: ContainerResult) => void>;
+  let published: { taskId: string; status?: string; error?: string }[];
+  let webhooks: { event: string; taskId: string }[];
+  let unregistered: number;
+
+  function createProcessor() {
+    const docker = {
+      runContainer: ({ taskId }: { taskId: string }) =>
+        new Promise<ContainerResult>((resolve) => containers.set(taskId, resolve)),
+      stopContainer: async (taskId: string) => {
+        containers.get(taskId)?.({
+          containerId: `c-${taskId}`,
+          exitCode: 137,
+          output: {},
+          error: 'Container stopped',
+          resourceUsage: RESOURCE_USAGE,
+        });
+      },
+    } as unknown as Deps[0];
+    const events = {
+      publish: async (event: { taskId: string }) => void published.push(event),
+      publishLogs: async () => undefined,
+    } as unknown as Deps[2];
+    const webhookDispatcher = {
+      enqueue: async (payload: { event: string; taskId: string }) => void webhooks.push(payload),
+    } as unknown as Deps[3];
+    const dispatcher = {
+      unregister: async () => void unregistered++,
+    } as unknown as Deps[4];
+    return createWorkerProcessor(docker, pbUrl, events, webhookDispatcher, dispatcher);
+  }
+
+  function createJob(moveToWait: (token?: string) => Promise<void>) {
+    const task = pb.seed('tasks', { user: 'abcdefghijklmno', type: 'echo', status: 'queued', started_at: '' });
+    const data: TaskJobData = {
+      taskId: task.id,
+      userId: 'abcdefghijklmno',
+      type: 'echo',
+      input: {},
+      workerImage: 'saassy/echo:latest',
+      limits: { cpuLimit: 1, memoryLimit: '512m', timeoutSeconds: 60, maxArtifactBytes: 0 },
+    };
+    return { task, job: { id: task.id, data, moveToWait } as unknown as Job<TaskJobData> };
+  }
+
+  async function waitForContainer(taskId: string) {
+    for (let i = 0; i < 100 && !containers.has(taskId); i++) await sleep(10);
+    assert.ok(containers.has(taskId), 'container never started');
+  }
+
+  function logLines(taskId: string): string[] {
+    return pb.records('task_logs')
+      .filter((chunk) => chunk.task === taskId)
+      .flatMap((chunk) => (chunk.content as string).split('\n').filter(Boolean));
+  }
+
+  beforeEach(async () => {
+    pb = new FakePocketBase();
+    pbUrl = await pb.start();
+    containers = new Map();
+    published = [];
+    webhooks = [];
+    unregistered = 0;
+  });
+
+  afterEach(async () => {
+    await pb.close();
+  });
+
+  it('lets tasks that finish before the drain deadline complete', async () => {
+    const processor = createProcessor();
+    const { task, job } = createJob(async () => assert.fail('requeued'));
+
+    const processing = processor.processJob(job, 'token');
+    await waitForContainer(task.id);
+    const draining = processor.drain(10_000);
+    assert.deepEqual(processor.getDrainStatus().runningTasks, [task.id]);
+
+    containers.get(task.id)!({ containerId: 'c1', exitCode: 0, output: { ok: true }, resourceUsage: RESOURCE_USAGE });
+    await processing;
+    await draining;
+
+    assert.equal(unregistered, 1);
+    assert.equal(pb.get('tasks', task.id)!.status, 'completed');
+    assert.deepEqual(processor.getDrainStatus().runningTasks, []);
+    assert.equal(processor.getDrainStatus().draining, true);
+  });
+
+  it('stops tasks still running at the deadline and requeues them', async () => {
+    const processor = createProcessor();
+    const tokens: (string | undefined)[] = [];
+    const { task, job } = createJob(async (token) => void tokens.push(token));
+
+    const processing = processor.processJob(job, 'token');
+    await waitForContainer(task.id);
+    await processor.drain(10);
+
+    await assert.rejects(processing, WaitingError);
+    assert.deepEqual(tokens, ['token']);
+    const requeued = pb.get('tasks', task.id)!;
+    assert.equal(requeued.status, 'queued');
+    assert.equal(requeued.output, null);
+    assert.deepEqual(published.map(({ status }) => status), ['running', 'queued']);
+    assert.deepEqual(webhooks, []);
+    assert.deepEqual(pb.records('usage_records'), []);
+    assert.deepEqual(logLines(task.id).slice(-1), [
+      '[saassy] Node shutting down; task requeued and will run again from the start',
+    ]);
+  });
+
+  it('fails interrupted tasks that cannot be requeued, without retries', async () => {
+    const processor = createProcessor();
+    const { task, job } = createJob(async () => {
+      throw new Error('Missing lock for job');
+    });
+
+    const processing = processor.processJob(job, 'token');
+    await waitForContainer(task.id);
+    await processor.drain(10);
+
+    await assert.rejects(processing, UnrecoverableError);
+    const failed = pb.get('tasks', task.id)!;
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.error, 'Task interrupted: node shutdown');
+    assert.ok(failed.completed_at);
+    assert.deepEqual(webhooks.map(({ event }) => event), ['task.failed']);
+    assert.deepEqual(pb.records('usage_records'), []);
+  });
+});
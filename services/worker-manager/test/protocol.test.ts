@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { WorkerFrame } from '@saassy/shared';
+import { WorkerOutputParser } from '../src/protocol.js';
+
+function parse(chunks: (Buffer | string)[]) {
+  const frames: WorkerFrame[] = [];
+  const parser = new WorkerOutputParser((frame) => frames.push(frame));
+  for (const chunk of chunks) parser.write(chunk);
+  return { frames, output: parser.end() };
+}
+
+describe('WorkerOutputParser', () => {
+  it('emits frames as lines complete and uses the result frame as the output', () => {
+    const { frames, output } = parse([
+      '{"type":"progress","percent":150,"message":"half"}\n{"type":"log","level":"loud","mess',
+      'age":"hi"}\n{"type":"result","output":{"ok":true}}',
+    ]);
+    assert.deepEqual(frames, [
+      { type: 'progress', percent: 100, message: 'half' },
+      { type: 'log', level: 'info', message: 'hi' },
+      { type: 'result', output: { ok: true } },
+    ]);
+    assert.deepEqual(output, { ok: true });
+  });
+
+  it('falls back to the last JSON line, then to the plain text', () => {
+    assert.deepEqual(parse(['{"a":1}\n', 'done\n{"a":2}\n']).output, { a: 2 });
+    assert.deepEqual(parse(['starting\n', '\n', 'done']).output, { raw: 'starting\ndone' });
+    assert.deepEqual(parse([]).output, {});
+  });
+
+  it('decodes characters split across chunks', () => {
+    const line = Buffer.from('{"type":"log","message":"héllo ✓"}\n');
+    const split = line.indexOf(Buffer.from('✓')) + 1;
+    const { frames } = parse([line.subarray(0, split), line.subarray(split)]);
+    assert.deepEqual(frames, [{ type: 'log', level: 'info', message: 'héllo ✓' }]);
+  });
+
+  it('treats lines past the frame limit as text and skips the rest of them', () => {
+    const long = `{"type":"result","output":{"pad":"${'x'.repeat(1024 * 1024)}"}}`;
+    const { frames, output } = parse([long.slice(0, 600_000), long.slice(600_000), '\nafter\n']);
+    assert.deepEqual(frames, []);
+    assert.deepEqual(output, { raw: `${long.slice(0, 8192)}...\nafter` });
+  });
+
+  it('reads frames again after a long line ends', () => {
+    const { frames } = parse([`${'x'.repeat(1024 * 1024 + 1)}\n{"type":"progress","percent":5}\n`]);
+    assert.deepEqual(frames, [{ type: 'progress', percent: 5, message: undefined }]);
+  });
+
+  it('caps the plain text kept for the output', () => {
+    const line = `${'y'.repeat(1023)}\n`;
+    const { output } = parse(Array.from({ length: 2048 }, () => line));
+    const lines = (output as { raw: string }).raw.split('\n');
+    assert.equal(lines.length, 1025);
+    assert.equal(lines[1024], '[output truncated at 1048576 bytes]');
+  });
+});
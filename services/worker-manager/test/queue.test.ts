@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Queue } from 'bullmq';
+import { createTaskDispatcher, type TaskDispatcher, type TaskJobData } from '../src/queue.js';
+import { FakeRedis } from './helpers/redis.js';
+
+function task(taskId: string, userId: string): TaskJobData {
+  return {
+    taskId,
+    userId,
+    type: 'test',
+    input: {},
+    workerImage: 'saassy/test-worker:latest',
+    limits: { cpuLimit: 1, memoryLimit: '512m', timeoutSeconds: 60, maxArtifactBytes: 0 },
+  };
+}
+
+describe('createTaskDispatcher', () => {
+  let redis: FakeRedis;
+  let redisUrl: string;
+  let dispatched: string[];
+  let dispatcher: TaskDispatcher;
+  const queue = {
+    name: 'tasks',
+    add: async (_name: string, data: TaskJobData) => {
+      dispatched.push(data.taskId);
+    },
+  } as unknown as Queue<TaskJobData>;
+
+  function create(options?: Parameters<typeof createTaskDispatcher>[2]) {
+    dispatcher = createTaskDispatcher(queue, redisUrl, options);
+    return dispatcher;
+  }
+
+  // Finish the given dispatched tasks as if their jobs were gone
+  async function finish(...taskIds: string[]) {
+    for (const taskId of taskIds) {
+      const slot = JSON.parse(redis.call('HGET', 'saassy:dispatch:slots', taskId) as string);
+      redis.call('HSET', 'saassy:dispatch:slots', taskId, JSON.stringify({ ...slot, at: 0 }));
+    }
+    await dispatcher.releaseStaleSlots(async (taskId) => !taskIds.includes(taskId));
+  }
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    redisUrl = await redis.start();
+    dispatched = [];
+  });
+
+  afterEach(async () => {
+    await dispatcher.stop();
+    await redis.close();
+  });
+
+  it('holds tasks back until there is capacity', async () => {
+    create();
+    await dispatcher.submit(task('t1', 'u1'), [], { priority: 1, weight: 1 });
+    assert.deepEqual(dispatched, []);
+
+    await dispatcher.register(1);
+    await dispatcher.submit(task('t2', 'u1'), [], { priority: 1, weight: 1 });
+    assert.deepEqual(dispatched, ['t1']);
+    assert.equal(await dispatcher.hasTask('t2'), true);
+
+    await finish('t1');
+    assert.deepEqual(dispatched, ['t1', 't2']);
+  });
+
+  it("holds tasks over a user's or organization's limit until a slot frees up", async () => {
+    create();
+    await dispatcher.register(10);
+    const org = { key: 'org:o1', limit: 2 };
+    await dispatcher.submit(task('a1', 'a'), [{ key: 'user:a', limit: 1 }, org], { priority: 1, weight: 1 });
+    await dispatcher.submit(task('a2', 'a'), [{ key: 'user:a', limit: 1 }, org], { priority: 1, weight: 1 });
+    await dispatcher.submit(task('b1', 'b'), [{ key: 'user:b', limit: 5 }, org], { priority: 1, weight: 1 });
+    await dispatcher.submit(task('b2', 'b'), [{ key: 'user:b', limit: 5 }, org], { priority: 1, weight: 1 });
+    await dispatcher.submit(task('c1', 'c'), [{ key: 'user:c', limit: 1 }], { priority: 1, weight: 1 });
+    assert.deepEqual(dispatched, ['a1', 'b1', 'c1']);
+
+    await finish('b1');
+    assert.deepEqual(dispatched, ['a1', 'b1', 'c1', 'b2']);
+
+    await finish('a1');
+    assert.deepEqual(dispatched, ['a1', 'b1', 'c1', 'b2', 'a2']);
+
+    const status = await dispatcher.getStatus();
+    assert.equal(status.capacity, 10);
+    assert.equal(status.inFlight, 3);
+    assert.equal(status.pending, 0);
+  });
+
+  it('drops cancelled tasks that are still waiting', async () => {
+    create();
+    await dispatcher.register(1);
+    await dispatcher.submit(task('t1', 'u1'), [], { priority: 1, weight: 1 });
+    await dispatcher.submit(task('t2', 'u1'), [], { priority: 1, weight: 1 });
+
+    assert.equal(await dispatcher.cancel('t1'), false);
+    assert.equal(await dispatcher.cancel('t2'), true);
+    assert.equal(await dispatcher.hasTask('t2'), false);
+
+    await finish('t1');
+    assert.deepEqual(dispatched, ['t1']);
+    assert.deepEqual((await dispatcher.getStatus()).users, []);
+  });
+
+  it('dispatches higher priorities first', async () => {
+    create();
+    await dispatcher.submit(task('low', 'u1'), [], { priority: 1, weight: 1 });
+    await dispatcher.submit(task('high', 'u2'), [], { priority: 3, weight: 1 });
+    await dispatcher.submit(task('mid', 'u1'), [], { priority: 2, weight: 1 });
+
+    await dispatcher.register(3);
+    assert.deepEqual(dispatched, ['high', 'mid', 'low']);
+  });
+
+  it('moves waiting tasks up a priority level every aging interval', async () => {
+    create({ agingSeconds: 0.05 });
+    await dispatcher.submit(task('old', 'u1'), [], { priority: 1, weight: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await dispatcher.submit(task('new', 'u2'), [], { priority: 2, weight: 1 });
+
+    await dispatcher.register(1);
+    assert.deepEqual(dispatched, ['old']);
+  });
+
+  it('serves users by weighted share in fair-share mode', async () => {
+    create({ mode: 'fair-share' });
+    for (const taskId of ['a1', 'a2', 'a3']) {
+      await dispatcher.submit(task(taskId, 'a'), [], { priority: 1, weight: 1 });
+    }
+    for (const taskId of ['b1', 'b2', 'b3']) {
+      await dispatcher.submit(task(taskId, 'b'), [], { priority: 1, weight: 3 });
+    }
+
+    await dispatcher.register(4);
+    assert.deepEqual(dispatched, ['a1', 'b1', 'b2', 'b3']);
+
+    const { users } = await dispatcher.getStatus();
+    assert.deepEqual(
+      users.map(({ userId, inFlight, pending, share }) => ({ userId, inFlight, pending, share })),
+      [
+        { userId: 'b', inFlight: 3, pending: 0, share: 0.75 },
+        { userId: 'a', inFlight: 1, pending: 2, share: 0.25 },
+      ]
+    );
+  });
+
+  it('serves users in priority order in priority mode', async () => {
+    create();
+    for (const taskId of ['a1', 'a2', 'a3']) {
+      await dispatcher.submit(task(taskId, 'a'), [], { priority: 1, weight: 1 });
+    }
+    await dispatcher.submit(task('b1', 'b'), [], { priority: 1, weight: 3 });
+
+    await dispatcher.register(3);
+    assert.deepEqual(dispatched, ['a1', 'a2', 'a3']);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createReconciler } from '../src/reconcile.js';
+import { FakePocketBase, toPocketBaseDate } from './helpers/pocketbase.js';
+
+type Deps = Parameters<typeof createReconciler>;
+
+const OLD = toPocketBaseDate(new Date(Date.now() - 10 * 60 * 1000));
+
+describe('createReconciler', () => {
+  let pb: FakePocketBase;
+  let pbUrl: string;
+  // Stand-ins for the worker manager's state
+  let containers: { id: string; taskId: string; state: string }[];
+  let jobStates: Record<string, string>;
+  let processing: Set<string>;
+  let dispatched: Set<string>;
+  let removed: string[];
+  let published: { taskId: string; status?: string; error?: string }[];
+  let webhooks: { event: string; taskId: string }[];
+  let checkedSlots: Record<string, boolean>;
+
+  function reconcile() {
+    const docker = {
+      listTaskContainers: async () => containers,
+      removeContainer: async (id: string) => void removed.push(id),
+    } as unknown as Deps[0];
+    const queue = {
+      getJob: async (taskId: string) => jobStates[taskId] && { getState: async () => jobStates[taskId] },
+    } as unknown as Deps[1];
+    const processor = { isProcessing: (taskId: string) => processing.has(taskId) } as unknown as Deps[3];
+    const events = { publish: async (event: { taskId: string }) => void published.push(event) } as unknown as Deps[4];
+    const webhookDispatcher = {
+      enqueue: async (payload: { event: string; taskId: string }) => void webhooks.push(payload),
+    } as unknown as Deps[5];
+    const dispatcher = {
+      hasTask: async (taskId: string) => dispatched.has(taskId),
+      releaseStaleSlots: async (isLive: (taskId: string) => Promise<boolean>) => {
+        for (const taskId of dispatched) checkedSlots[taskId] = await isLive(taskId);
+      },
+    } as unknown as Deps[6];
+
+    return createReconciler(docker, queue, pbUrl, processor, events, webhookDispatcher, dispatcher).run();
+  }
+
+  beforeEach(async () => {
+    pb = new FakePocketBase();
+    pbUrl = await pb.start();
+    containers = [];
+    jobStates = {};
+    processing = new Set();
+    dispatched = new Set();
+    removed = [];
+    published = [];
+    webhooks = [];
+    checkedSlots = {};
+  });
+
+  afterEach(async () => {
+    await pb.close();
+  });
+
+  it('removes containers no job will pick up again and fails their tasks', async () => {
+    const resumable = pb.seed('tasks', { user: 'u1', status: 'running' });
+    const orphaned = pb.seed('tasks', { user: 'u1', status: 'running' });
+    const finished = pb.seed('tasks', { user: 'u1', status: 'completed' });
+    const active = pb.seed('tasks', { user: 'u1', status: 'running' });
+    containers = [
+      { id: 'c1', taskId: resumable.id, state: 'running' },
+      { id: 'c2', taskId: orphaned.id, state: 'exited' },
+      { id: 'c3', taskId: finished.id, state: 'exited' },
+      { id: 'c4', taskId: active.id, state: 'running' },
+      { id: 'c5', taskId: 'deletedtask0000', state: 'exited' },
+    ];
+    jobStates = { [resumable.id]: 'waiting', [orphaned.id]: 'failed', [finished.id]: 'completed' };
+    processing.add(active.id);
+
+    await reconcile();
+
+    assert.deepEqual(removed, ['c2', 'c3', 'c5']);
+    const failed = pb.get('tasks', orphaned.id)!;
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.error, 'Task was interrupted by a worker manager restart and could not be resumed');
+    assert.ok(failed.completed_at);
+    assert.equal(pb.get('tasks', resumable.id)!.status, 'running');
+    assert.equal(pb.get('tasks', finished.id)!.status, 'completed');
+    assert.deepEqual(published.map(({ taskId, status }) => ({ taskId, status })), [{ taskId: orphaned.id, status: 'failed' }]);
+    assert.deepEqual(webhooks.map(({ event, taskId }) => ({ event, taskId })), [{ event: 'task.failed', taskId: orphaned.id }]);
+  });
+
+  it('fails unfinished tasks that nothing is going to run', async () => {
+    const lostRunning = pb.seed('tasks', { user: 'u1', status: 'running', updated: OLD });
+    const lostQueued = pb.seed('tasks', { user: 'u1', status: 'queued', updated: OLD });
+    const recent = pb.seed('tasks', { user: 'u1', status: 'queued' });
+    const waitingForSlot = pb.seed('tasks', { user: 'u1', status: 'queued', updated: OLD });
+    const withJob = pb.seed('tasks', { user: 'u1', status: 'queued', updated: OLD });
+    const withContainer = pb.seed('tasks', { user: 'u1', status: 'running', updated: OLD });
+    const pending = pb.seed('tasks', { user: 'u1', status: 'pending', updated: OLD });
+    dispatched.add(waitingForSlot.id);
+    jobStates = { [withJob.id]: 'delayed', [withContainer.id]: 'active' };
+    containers = [{ id: 'c1', taskId: withContainer.id, state: 'running' }];
+
+    await reconcile();
+
+    assert.equal(pb.get('tasks', lostRunning.id)!.error, 'Task was interrupted: its container and queue job were lost');
+    assert.equal(pb.get('tasks', lostQueued.id)!.error, 'Task was lost from the queue before it started');
+    for (const task of [recent, waitingForSlot, withJob, withContainer, pending]) {
+      assert.equal(pb.get('tasks', task.id)!.status, task.status);
+    }
+    assert.deepEqual(removed, []);
+    assert.deepEqual(new Set(published.map(({ taskId }) => taskId)), new Set([lostRunning.id, lostQueued.id]));
+  });
+
+  it('releases the slots of dispatched tasks whose job is gone', async () => {
+    dispatched = new Set(['live', 'gone', 'done']);
+    jobStates = { live: 'active', done: 'completed' };
+
+    await reconcile();
+
+    assert.deepEqual(checkedSlots, { live: true, gone: false, done: false });
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { TaskLauncher } from '../src/launcher.js';
+import { createScheduler, getNextRunAt, ScheduleValidationError } from '../src/scheduler.js';
+import { FakePocketBase, toPocketBaseDate } from './helpers/pocketbase.js';
+import { FakeRedis } from './helpers/redis.js';
+
+const DUE = toPocketBaseDate(new Date(Date.now() - 60 * 1000));
+const LATER = toPocketBaseDate(new Date(Date.now() + 60 * 60 * 1000));
+
+describe('getNextRunAt', () => {
+  it('reads the cron expression in the timezone', () => {
+    const after = new Date('2024-03-01T12:00:00Z');
+    assert.equal(getNextRunAt('0 9 * * *', 'UTC', after).toISOString(), '2024-03-02T09:00:00.000Z');
+    assert.equal(getNextRunAt('0 9 * * *', 'America/New_York', after).toISOString(), '2024-03-01T14:00:00.000Z');
+  });
+
+  it('refuses malformed schedules', () => {
+    assert.throws(() => getNextRunAt('* * * *', 'UTC'), ScheduleValidationError);
+    assert.throws(() => getNextRunAt('61 * * * *', 'UTC'), ScheduleValidationError);
+    assert.throws(() => getNextRunAt('* * * * *', 'Mars/Olympus'), ScheduleValidationError);
+  });
+});
+
+describe('createScheduler', () => {
+  let redis: FakeRedis;
+  let redisUrl: string;
+  let pb: FakePocketBase;
+  let pbUrl: string;
+  let created: { userId: string; type: string; fields?: Record<string, unknown> }[];
+  let aborted: string[];
+
+  const launcher = {
+    create: async (params: { userId: string; type: string; fields?: Record<string, unknown> }) => {
+      created.push(params);
+      const task = pb.seed('tasks', { user: params.userId, type: params.type, status: 'queued', ...params.fields });
+      return { taskId: task.id };
+    },
+    abort: async (taskId: string) => {
+      aborted.push(taskId);
+    },
+  } as unknown as TaskLauncher;
+
+  // One pass, as a worker manager starting up runs it
+  async function runOnce() {
+    const scheduler = createScheduler(launcher, redisUrl, pbUrl);
+    scheduler.start();
+    await scheduler.stop();
+  }
+
+  function seedSchedule(fields: Record<string, unknown> = {}) {
+    return pb.seed('schedules', {
+      user: 'u1',
+      cron: '*/5 * * * *',
+      timezone: 'UTC',
+      type: 'echo',
+      input: {},
+      resources: null,
+      priority: null,
+      overlap_policy: 'queue',
+      enabled: true,
+      next_run_at: DUE,
+      last_task: '',
+      ...fields,
+    });
+  }
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    redisUrl = await redis.start();
+    pb = new FakePocketBase();
+    pbUrl = await pb.start();
+    created = [];
+    aborted = [];
+  });
+
+  afterEach(async () => {
+    await pb.close();
+    await redis.close();
+  });
+
+  it('creates tasks for due schedules and moves them on', async () => {
+    const due = seedSchedule();
+    const notDue = seedSchedule({ next_run_at: LATER });
+    const disabled = seedSchedule({ enabled: false });
+
+    await runOnce();
+
+    assert.deepEqual(created.map(({ fields }) => fields), [{ schedule: due.id }]);
+    const schedule = pb.get('schedules', due.id)!;
+    assert.ok((schedule.next_run_at as string) > toPocketBaseDate(new Date()));
+    assert.ok(schedule.last_run_at);
+    assert.equal(schedule.last_task, pb.records('tasks')[0]!.id);
+    assert.equal(schedule.last_error, '');
+    assert.equal(pb.get('schedules', notDue.id)!.next_run_at, LATER);
+    assert.equal(pb.get('schedules', disabled.id)!.next_run_at, DUE);
+  });
+
+  it('applies the overlap policy while the previous task is unfinished', async () => {
+    const running = pb.seed('tasks', { user: 'u1', status: 'running' });
+    const skip = seedSchedule({ overlap_policy: 'skip', last_task: running.id });
+    const cancel = seedSchedule({ overlap_policy: 'cancel', last_task: running.id });
+    const queue = seedSchedule({ overlap_policy: 'queue', last_task: running.id });
+
+    await runOnce();
+
+    assert.deepEqual(created.map(({ fields }) => fields), [{ schedule: cancel.id }, { schedule: queue.id }]);
+    assert.deepEqual(aborted, [running.id]);
+    assert.equal(pb.get('schedules', skip.id)!.last_error, `Skipped: the previous task ${running.id} is still running`);
+    assert.equal(pb.get('schedules', skip.id)!.last_task, running.id);
+  });
+
+  it('runs every policy once the previous task has finished', async () => {
+    const finished = pb.seed('tasks', { user: 'u1', status: 'completed' });
+    for (const overlap_policy of ['skip', 'cancel', 'queue']) {
+      seedSchedule({ overlap_policy, last_task: finished.id });
+    }
+
+    await runOnce();
+
+    assert.equal(created.length, 3);
+    assert.deepEqual(aborted, []);
+  });
+
+  it('disables schedules whose cron expression is invalid', async () => {
+    const broken = seedSchedule({ cron: 'every minute' });
+
+    await runOnce();
+
+    assert.deepEqual(created, []);
+    const schedule = pb.get('schedules', broken.id)!;
+    assert.equal(schedule.enabled, false);
+    assert.equal(schedule.next_run_at, '');
+    assert.match(schedule.last_error as string, /^cron must have five fields/);
+  });
+
+  it('leaves schedules to the worker manager holding the lock', async () => {
+    redis.call('SET', 'saassy:scheduler:leader', 'other-node:1', 'PX', 45_000);
+    seedSchedule();
+
+    await runOnce();
+
+    assert.deepEqual(created, []);
+    assert.equal(redis.call('GET', 'saassy:scheduler:leader'), 'other-node:1');
+  });
+});
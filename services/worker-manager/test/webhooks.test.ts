@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { lookupPublicAddress, postWebhook, signWebhookPayload } from '../src/webhooks.js';
+
+describe('signWebhookPayload', () => {
+  it('signs the timestamp and body', () => {
+    const expected = createHmac('sha256', 'whsec_test').update('1700000000.{"a":1}').digest('hex');
+    assert.equal(signWebhookPayload('whsec_test', 1700000000, '{"a":1}'), `t=1700000000,v1=${expected}`);
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  it('refuses hosts that resolve to private addresses', async () => {
+    const error = await new Promise<Error | null>((resolve) => {
+      lookupPublicAddress('localhost', {}, (err) => resolve(err));
+    });
+    assert.match(error?.message || '', /^Endpoint host localhost resolves to private address/);
+  });
+});
+
+describe('postWebhook', () => {
+  it("doesn't connect to internal hosts or private addresses", async () => {
+    let requests = 0;
+    const server = createServer((req, res) => {
+      requests++;
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      for (const url of [`http://127.0.0.1:${port}/`, `http://[::ffff:127.0.0.1]:${port}/`, `http://localhost:${port}/`]) {
+        await assert.rejects(postWebhook(url, {}, '{}'), /is internal/, url);
+      }
+      assert.equal(requests, 0);
+    } finally {
+      server.close();
+    }
+  });
+});
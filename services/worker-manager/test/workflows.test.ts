@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { EVENT_CHANNELS, calculateResourceCost, type WorkflowStepDefinition } from '@saassy/shared';
+import type { EventPublisher } from '../src/events.js';
+import type { TaskLauncher } from '../src/launcher.js';
+import type { WorkerRegistry } from '../src/registry.js';
+import { createWorkflowRunner } from '../src/workflows.js';
+import { FakePocketBase } from './helpers/pocketbase.js';
+import { FakeRedis } from './helpers/redis.js';
+
+const USAGE = { cpuSeconds: 10, memoryMbSeconds: 5120, durationSeconds: 10 };
+
+describe('createWorkflowRunner', () => {
+  let redis: FakeRedis;
+  let redisUrl: string;
+  let pb: FakePocketBase;
+  let pbUrl: string;
+  let aborted: string[];
+  let published: { taskId: string; status?: string; error?: string }[];
+  // Task types the launcher refuses, with the reason
+  let rejections: Record<string, string>;
+
+  const launcher = {
+    create: async (params: { userId: string; type: string; input: unknown; fields?: Record<string, unknown> }) => {
+      if (rejections[params.type]) return { error: rejections[params.type] };
+      const task = pb.seed('tasks', {
+        user: params.userId,
+        type: params.type,
+        input: params.input,
+        status: 'queued',
+        output: null,
+        error: '',
+        resource_usage: null,
+        ...params.fields,
+      });
+      return { taskId: task.id };
+    },
+    abort: async (taskId: string) => {
+      aborted.push(taskId);
+    },
+  } as unknown as TaskLauncher;
+  const registry = {
+    get: async (type: string) => ({ type, pricePerTaskCents: type === 'report' ? 7 : 0 }),
+  } as unknown as WorkerRegistry;
+  const events = {
+    publish: async (event: { taskId: string }) => void published.push(event),
+  } as unknown as EventPublisher;
+
+  // One pass, as a worker manager starting up runs it
+  async function runOnce() {
+    const runner = createWorkflowRunner(launcher, registry, events, redisUrl, pbUrl);
+    await runner.start();
+    await runner.stop();
+  }
+
+  function seedWorkflow(steps: WorkflowStepDefinition[]) {
+    return pb.seed('workflows', { user: 'u1', status: 'running', steps, usage: null, error: '' });
+  }
+
+  function stepTask(step: string) {
+    return pb.records('tasks').find((task) => task.workflow_step === step)!;
+  }
+
+  function finishTask(step: string, fields: Record<string, unknown>) {
+    Object.assign(stepTask(step), { resource_usage: USAGE, ...fields });
+  }
+
+  beforeEach(async () => {
+    redis = new FakeRedis();
+    redisUrl = await redis.start();
+    pb = new FakePocketBase();
+    pbUrl = await pb.start();
+    aborted = [];
+    published = [];
+    rejections = {};
+  });
+
+  afterEach(async () => {
+    await pb.close();
+    await redis.close();
+  });
+
+  it('starts steps once the steps they depend on complete, with their outputs', async () => {
+    const workflow = seedWorkflow([
+      { id: 'extract', type: 'extract', input: { url: 'https://example.com' } },
+      { id: 'report', type: 'report', input: { rows: { $ref: '$.steps.extract.output.rows' } }, dependsOn: ['extract'] },
+    ]);
+
+    await runOnce();
+    assert.deepEqual(pb.records('tasks').map((task) => task.workflow_step), ['extract']);
+    assert.equal(stepTask('extract').workflow, workflow.id);
+
+    finishTask('extract', { status: 'completed', output: { rows: [1, 2] } });
+    await runOnce();
+    assert.deepEqual(stepTask('report').input, { rows: [1, 2] });
+    assert.equal(pb.get('workflows', workflow.id)!.status, 'running');
+    assert.equal((pb.get('workflows', workflow.id)!.usage as { taskCount: number }).taskCount, 1);
+
+    finishTask('report', { status: 'completed', output: {} });
+    await runOnce();
+    const finished = pb.get('workflows', workflow.id)!;
+    assert.equal(finished.status, 'completed');
+    assert.ok(finished.completed_at);
+    const resources = { cpuSeconds: 20, memoryMbSeconds: 10240, durationSeconds: 20 };
+    assert.deepEqual(finished.usage, { taskCount: 2, ...resources, costCents: 7 + calculateResourceCost(resources) });
+  });
+
+  it('stops the remaining steps when a fail-fast step fails', async () => {
+    const workflow = seedWorkflow([
+      { id: 'a', type: 'a', input: {} },
+      { id: 'b', type: 'b', input: {} },
+      { id: 'c', type: 'c', input: {}, dependsOn: ['a', 'b'] },
+    ]);
+    await runOnce();
+
+    finishTask('a', { status: 'failed', error: 'boom' });
+    await runOnce();
+
+    const failed = pb.get('workflows', workflow.id)!;
+    assert.equal(failed.status, 'failed');
+    assert.match(failed.error as string, /boom/);
+    assert.deepEqual(aborted, [stepTask('b').id]);
+    assert.equal(pb.records('tasks').length, 2);
+  });
+
+  it('keeps steps that could not be started as failed tasks', async () => {
+    rejections = { b: 'Monthly task quota exceeded' };
+    const workflow = seedWorkflow([
+      { id: 'a', type: 'a', input: {} },
+      { id: 'b', type: 'b', input: {}, onFailure: 'continue' },
+    ]);
+
+    await runOnce();
+
+    const rejected = stepTask('b');
+    assert.equal(rejected.workflow, workflow.id);
+    assert.equal(rejected.status, 'failed');
+    assert.equal(rejected.error, 'Monthly task quota exceeded');
+    assert.deepEqual(published, [
+      { type: 'status', taskId: rejected.id, userId: 'u1', status: 'failed', error: 'Monthly task quota exceeded' },
+    ]);
+    assert.equal(pb.get('workflows', workflow.id)!.status, 'running');
+  });
+
+  it('notes finished tasks from task events for whichever node holds the lock', async () => {
+    redis.call('SET', 'saassy:workflows:leader', 'other-node:1', 'PX', 45_000);
+    const runner = createWorkflowRunner(launcher, registry, events, redisUrl, pbUrl);
+    await runner.start();
+    try {
+      const event = { type: 'status', taskId: 'abcdefghijklmno', userId: 'u1', status: 'completed' };
+      redis.call('PUBLISH', `${EVENT_CHANNELS.taskEvents}:u1`, JSON.stringify(event));
+      redis.call('PUBLISH', `${EVENT_CHANNELS.taskEvents}:u1`, JSON.stringify({ ...event, taskId: 'x', status: 'running' }));
+      for (let i = 0; i < 50 && !redis.call('SCARD', 'saassy:workflows:finished-tasks'); i++) await sleep(20);
+
+      assert.deepEqual(redis.call('SMEMBERS', 'saassy:workflows:finished-tasks'), ['abcdefghijklmno']);
+    } finally {
+      await runner.stop();
+    }
+  });
+});
@@ -5,13 +5,20 @@
  *
  * Environment variables:
  * - TASK_ID: Unique identifier for this task
- * - TASK_INPUT: JSON string containing the task input
+ * - TASK_INPUT_FILE: Path of a read-only JSON file with the task input
+ * - TASK_INPUT_FILES_DIR: Directory holding files uploaded with the task
+ * - TASK_INPUT: JSON string containing the task input (small inputs only)
  *
  * Output:
- * - Print JSON to stdout for the result
+ * - Print line-delimited JSON frames to stdout:
+ *     {"type":"progress","percent":50,"message":"..."}  progress shown to the user
+ *     {"type":"log","level":"info","message":"..."}     a log line
+ *     {"type":"result","output":{...}}                  the task output (last one wins)
  * - Exit code 0 = success, non-zero = failure
  */
 
+import { existsSync, readFileSync } from 'fs';
+
 interface TaskInput {
   message?: string;
   sleepSeconds?: number;
@@ -26,7 +33,7 @@ interface TaskOutput {
 
 async function main() {
   const taskId = process.env.TASK_ID || 'unknown';
-  const inputJson = process.env.TASK_INPUT || '{}';
+  const inputJson = readInputJson();
 
   console.error(`[Worker] Starting task: ${taskId}`);
 
@@ -38,10 +45,18 @@ async function main() {
     process.exit(1);
   }
 
-  // Simulate some work
+  // Simulate some work, reporting progress each second
   const sleepSeconds = input.sleepSeconds || 1;
-  console.error(`[Worker] Processing for ${sleepSeconds} seconds...`);
-  await sleep(sleepSeconds * 1000);
+  emit({ type: 'log', level: 'info', message: `Processing for ${sleepSeconds} seconds...` });
+  for (let elapsed = 0; elapsed < sleepSeconds; elapsed++) {
+    emit({
+      type: 'progress',
+      percent: Math.round((elapsed / sleepSeconds) * 100),
+      message: `Step ${elapsed + 1} of ${sleepSeconds}`,
+    });
+    await sleep(1000);
+  }
+  emit({ type: 'progress', percent: 100, message: 'Done' });
 
   // Simulate failure if requested
   if (input.shouldFail) {
@@ -51,7 +66,7 @@ async function main() {
       processedAt: new Date().toISOString(),
       input,
     };
-    console.log(JSON.stringify(output));
+    emit({ type: 'result', output });
     process.exit(1);
   }
 
@@ -62,13 +77,26 @@ async function main() {
     input,
   };
 
-  // Print result as JSON to stdout
-  console.log(JSON.stringify(output));
+  emit({ type: 'result', output });
 
   console.error(`[Worker] Task ${taskId} completed`);
   process.exit(0);
 }
 
+// Each frame is one line of JSON on stdout
+function emit(frame: Record<string, unknown>) {
+  console.log(JSON.stringify(frame));
+}
+
+// Large inputs are only available as a file, so prefer it when present
+function readInputJson(): string {
+  const inputFile = process.env.TASK_INPUT_FILE;
+  if (inputFile && existsSync(inputFile)) {
+    return readFileSync(inputFile, 'utf8');
+  }
+  return process.env.TASK_INPUT || '{}';
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -6,7 +6,9 @@
  *
  * Environment variables:
  * - TASK_ID: Unique identifier for this task
- * - TASK_INPUT: JSON string containing the task input
+ * - TASK_INPUT_FILE: Path of a read-only JSON file with the task input
+ * - TASK_INPUT_FILES_DIR: Directory holding files uploaded with the task
+ * - TASK_INPUT: JSON string containing the task input (small inputs only)
  *
  * Operations supported:
  * - echo: Returns the input as-is (health check)
@@ -16,6 +18,8 @@
  * - fail: Intentionally fails for testing error handling
  */
 
+import { existsSync, readFileSync } from 'fs';
+
 // Input types for different operations
 interface EchoInput {
   operation: 'echo';
@@ -64,7 +68,7 @@ interface TaskOutput {
 async function main() {
   const startTime = Date.now();
   const taskId = process.env.TASK_ID || 'unknown';
-  const inputJson = process.env.TASK_INPUT || '{}';
+  const inputJson = readInputJson();
 
   console.error(`[TestWorker] Starting task: ${taskId}`);
   console.error(`[TestWorker] Input: ${inputJson}`);
@@ -239,7 +243,11 @@ async function handleDelay(input: DelayInput): Promise<unknown> {
     throw new Error('Delay must be between 0 and 300 seconds');
   }
 
-  await sleep(seconds * 1000);
+  // Report progress once a second so long delays don't look frozen
+  for (let elapsed = 0; elapsed < seconds; elapsed++) {
+    reportProgress(Math.round((elapsed / seconds) * 100), `Waited ${elapsed} of ${seconds} seconds`);
+    await sleep(Math.min(1000, (seconds - elapsed) * 1000));
+  }
 
   return {
     delayedSeconds: seconds,
@@ -253,6 +261,20 @@ function handleFail(input: FailInput): never {
   throw new Error(input.errorMessage || 'Intentional test failure');
 }
 
+// Progress frame on stdout; the final result line is still a plain JSON object
+function reportProgress(percent: number, message: string) {
+  console.log(JSON.stringify({ type: 'progress', percent, message }));
+}
+
+// Large inputs are only available as a file, so prefer it when present
+function readInputJson(): string {
+  const inputFile = process.env.TASK_INPUT_FILE;
+  if (inputFile && existsSync(inputFile)) {
+    return readFileSync(inputFile, 'utf8');
+  }
+  return process.env.TASK_INPUT || '{}';
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }